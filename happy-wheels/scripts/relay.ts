@@ -0,0 +1,14 @@
+import { RELAY_PORT } from "../src/game/netProtocol";
+import { createRelay } from "../src/server/relay";
+
+/**
+ * Starts the LAN race relay: `npx tsx scripts/relay.ts`. Set RELAY_PORT to
+ * listen somewhere other than 3001, and RELAY_HOST to bind one interface
+ * instead of all of them.
+ */
+const port = Number(process.env.RELAY_PORT ?? RELAY_PORT);
+const host = process.env.RELAY_HOST ?? "0.0.0.0";
+
+createRelay().listen(port, host, () => {
+  console.log(`Race relay listening on ws://${host}:${port}`);
+});
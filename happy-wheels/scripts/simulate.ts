@@ -0,0 +1,142 @@
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  checkGolden,
+  runHeadless,
+  trajectoryCsv,
+  type HeadlessRun,
+} from "../src/game/headless";
+import { parseLevelJson, type LevelDefinition } from "../src/game/level";
+import { describeCrash, FIXED_STEP } from "../src/game/physics";
+import { parseRunRecording, type RunRecording } from "../src/game/replay";
+import { findLevel } from "../src/levels";
+
+/**
+ * Runs recorded inputs through the game's physics without a browser:
+ *
+ *   npx tsx scripts/simulate.ts run.json [--level course.json] [--csv path]
+ *   npx tsx scripts/simulate.ts --golden [folder]
+ *
+ * The first form prints how one recording plays out; `--csv path` (or `-`
+ * for stdout) also writes its trajectory. The second replays every recording
+ * in a folder (`replays/golden` by default) and exits non-zero if any of them
+ * no longer ends the way it was recorded.
+ */
+const DEFAULT_GOLDEN_FOLDER = "replays/golden";
+/** Ten minutes of simulation, the same limit the leaderboard uses. */
+const MAX_TICKS = Math.round(600 / FIXED_STEP);
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+function readRecording(path: string): RunRecording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    fail(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseRunRecording(raw) ?? fail(`${path}: not a run recording`);
+}
+
+function describeRun(run: HeadlessRun) {
+  const time = `${(run.ticks * FIXED_STEP).toFixed(2)}s (${run.ticks} ticks)`;
+  if (run.outcome === "won") {
+    return `won in ${time}`;
+  }
+  if (run.outcome === "crashed" && run.crash) {
+    return `crashed after ${time}: ${describeCrash(run.crash).toLowerCase()}`;
+  }
+  return `still riding after ${time}`;
+}
+
+function simulateOne(path: string, levelPath?: string, csvPath?: string) {
+  const recording = readRecording(path);
+  let level: LevelDefinition | undefined;
+  if (levelPath) {
+    try {
+      level = parseLevelJson(readFileSync(levelPath, "utf8"));
+    } catch (error) {
+      fail(`${levelPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    level =
+      findLevel(recording.levelId) ??
+      fail(`Unknown level "${recording.levelId}"; pass its file with --level`);
+  }
+
+  const run = runHeadless(level, recording, MAX_TICKS);
+  const last = run.trajectory[run.trajectory.length - 1];
+  // Keep stdout clean for the CSV when it is written there.
+  const log = csvPath === "-" ? console.error : console.log;
+  log(`Level:    ${level.id} (${recording.vehicle})`);
+  log(`Outcome:  ${describeRun(run)}`);
+  log(`Ended at: x=${last.x.toFixed(1)} y=${last.y.toFixed(1)}`);
+  log(`Recorded: ${recording.outcome} in ${recording.ticks} ticks`);
+  if (csvPath === "-") {
+    process.stdout.write(trajectoryCsv(run.trajectory));
+  } else if (csvPath) {
+    writeFileSync(csvPath, trajectoryCsv(run.trajectory));
+    log(`Trajectory written to ${csvPath}`);
+  }
+}
+
+function checkGoldenFolder(folder: string) {
+  let files: string[];
+  try {
+    files = readdirSync(folder)
+      .filter((file) => file.endsWith(".json"))
+      .sort();
+  } catch (error) {
+    fail(`${folder}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (files.length === 0) {
+    fail(`${folder}: no .json recordings to check`);
+  }
+
+  let failures = 0;
+  for (const file of files) {
+    const path = join(folder, file);
+    const recording = readRecording(path);
+    const level = findLevel(recording.levelId);
+    if (!level) {
+      failures += 1;
+      console.log(`FAIL ${basename(path)}: unknown level "${recording.levelId}"`);
+      continue;
+    }
+    const { run, passed } = checkGolden(level, recording);
+    if (passed) {
+      console.log(`ok   ${basename(path)}: ${describeRun(run)}`);
+    } else {
+      failures += 1;
+      console.log(
+        `FAIL ${basename(path)}: recorded ${recording.outcome} in ${recording.ticks} ticks, now ${describeRun(run)}`,
+      );
+    }
+  }
+  console.log(`${files.length - failures} of ${files.length} golden replays pass`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    golden: { type: "boolean" },
+    level: { type: "string" },
+    csv: { type: "string" },
+  },
+});
+
+if (values.golden) {
+  checkGoldenFolder(positionals[0] ?? DEFAULT_GOLDEN_FOLDER);
+} else if (positionals.length === 1) {
+  simulateOne(positionals[0], values.level, values.csv);
+} else {
+  fail(
+    "Usage: simulate.ts run.json [--level course.json] [--csv path|-]\n" +
+      "       simulate.ts --golden [folder]",
+  );
+}
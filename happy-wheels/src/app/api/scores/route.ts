@@ -0,0 +1,86 @@
+import { FIXED_STEP } from "../../../game/physics";
+import { parseRunRecording, simulateRun } from "../../../game/replay";
+import { DEFAULT_VEHICLE, isVehicleId } from "../../../game/vehicles";
+import { findLevel } from "../../../levels";
+import { addScore, topScores } from "../../../server/leaderboard";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const MAX_NAME_LENGTH = 24;
+/** Ten minutes of simulation; longer submissions are rejected unsimulated. */
+const MAX_RUN_TICKS = Math.round(600 / FIXED_STEP);
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const levelId = searchParams.get("levelId");
+  const level = levelId === null ? undefined : findLevel(levelId);
+  if (!level) {
+    return Response.json({ error: "Unknown levelId" }, { status: 404 });
+  }
+  const vehicle = searchParams.get("vehicle") ?? DEFAULT_VEHICLE;
+  if (!isVehicleId(vehicle)) {
+    return Response.json({ error: "Unknown vehicle" }, { status: 400 });
+  }
+  const requested = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+  const limit = Number.isInteger(requested)
+    ? Math.min(Math.max(requested, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+  const scores = await topScores(level.id, vehicle, limit);
+  return Response.json({ levelId: level.id, vehicle, scores });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  const { name, recording: rawRecording } = (body ?? {}) as {
+    name?: unknown;
+    recording?: unknown;
+  };
+  const trimmedName = typeof name === "string" ? name.trim() : "";
+  if (trimmedName === "" || trimmedName.length > MAX_NAME_LENGTH) {
+    return Response.json(
+      { error: `name must be 1-${MAX_NAME_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
+  const recording = parseRunRecording(rawRecording);
+  if (!recording) {
+    return Response.json({ error: "Malformed recording" }, { status: 400 });
+  }
+  const level = findLevel(recording.levelId);
+  if (!level) {
+    return Response.json({ error: "Unknown levelId" }, { status: 404 });
+  }
+  if (recording.outcome !== "won" || recording.ticks > MAX_RUN_TICKS) {
+    return Response.json(
+      { error: "Only finished runs can be submitted" },
+      { status: 422 },
+    );
+  }
+
+  const result = simulateRun(level, recording, recording.ticks + 1);
+  if (result.outcome !== "won" || result.ticks !== recording.ticks) {
+    return Response.json(
+      {
+        error: "Run did not verify: the recorded inputs do not finish in the claimed time",
+        simulated: result,
+      },
+      { status: 422 },
+    );
+  }
+
+  const { entry, rank } = await addScore({
+    levelId: level.id,
+    name: trimmedName,
+    vehicle: recording.vehicle,
+    ticks: result.ticks,
+    time: result.ticks * FIXED_STEP,
+  });
+  return Response.json({ entry, rank }, { status: 201 });
+}
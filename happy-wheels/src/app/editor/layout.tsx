@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Level Editor · Pogo Stick Dash",
+  description:
+    "Shape terrain, place spike fields, and playtest Pogo Stick Dash courses before exporting them as level files.",
+};
+
+export default function EditorLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -0,0 +1,1063 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import styles from "./editor.module.css";
+import {
+  applyCameraTransform,
+  cameraView,
+  createCamera,
+  CRASH_SHAKE,
+  followCamera,
+  landingShake,
+  screenToWorld,
+  shakeCamera,
+  type Camera,
+} from "../../game/camera";
+import { pressAction, releaseAction } from "../../game/controls";
+import {
+  addCheckpoint,
+  addHazard,
+  appendSegment,
+  levelIssues,
+  moveCheckpoint,
+  moveFinish,
+  moveStart,
+  moveVertex,
+  removeCheckpoint,
+  removeHazard,
+  removeLastSegment,
+  removeVertex,
+  splitSegment,
+  terrainVertices,
+  togglePit,
+  updateHazard,
+} from "../../game/editor";
+import { actionForKey, describeBinding } from "../../game/keybindings";
+import {
+  behaviorFor,
+  createHazardStates,
+  hazardBehaviors,
+  hazardFieldValue,
+} from "../../game/hazards";
+import {
+  getGroundHeight,
+  hazardTypes,
+  LevelValidationError,
+  parseLevelJson,
+  serializeLevel,
+  type HazardType,
+  type LevelDefinition,
+} from "../../game/level";
+import {
+  advanceFixedStep,
+  clamp,
+  copyPlayer,
+  createFixedStepClock,
+  createInputState,
+  createPlayer,
+  describeCrash,
+  FIXED_STEP,
+  interpolatePlayer,
+  stepSimulation,
+  type CrashCause,
+  type FixedStepClock,
+  type Simulation,
+} from "../../game/physics";
+import { createRagdoll, stepRagdoll, type Ragdoll } from "../../game/ragdoll";
+import {
+  drawBackdrop,
+  drawCheckpoints,
+  drawFinish,
+  drawGround,
+  drawHazards,
+  drawPlayer,
+  drawRagdoll,
+} from "../../game/render";
+import { loadSave } from "../../game/storage";
+import { bundledLevels } from "../../levels";
+
+type Selection =
+  | { kind: "vertex"; index: number }
+  | { kind: "hazard"; index: number }
+  | { kind: "checkpoint"; index: number }
+  | { kind: "finish" }
+  | { kind: "start" };
+
+type Drag =
+  | { kind: "select"; selection: Selection; offsetX: number }
+  | { kind: "pan"; originX: number; originCameraX: number };
+
+type PlaytestStatus = "playing" | "crashed" | "won";
+
+interface Playtest extends Simulation {
+  status: PlaytestStatus;
+  spawnX: number;
+  clock: FixedStepClock;
+  alpha: number;
+  ragdoll: Ragdoll | null;
+}
+
+interface EditorRuntime {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  level: LevelDefinition;
+  selection: Selection | null;
+  drag: Drag | null;
+  playtest: Playtest | null;
+  viewport: { width: number; height: number; dpr: number };
+  /** Follows the rider during a playtest; editing always happens at y 0 and zoom 1. */
+  camera: Camera;
+  lastTime: number;
+  animationFrame: number;
+  commitLevel: (level: LevelDefinition) => void;
+  select: (selection: Selection | null) => void;
+  startPlaytest: (spawnX: number) => void;
+  stopPlaytest: () => void;
+}
+
+const HANDLE_RADIUS = 9;
+
+function sameSelection(a: Selection | null, b: Selection | null) {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  if (a.kind !== b.kind) {
+    return false;
+  }
+  if (a.kind === "vertex" || a.kind === "hazard" || a.kind === "checkpoint") {
+    return a.index === (b as typeof a).index;
+  }
+  return true;
+}
+
+function hitTest(
+  runtime: EditorRuntime,
+  worldX: number,
+  worldY: number,
+): Selection | null {
+  const { level } = runtime;
+  const vertices = terrainVertices(level);
+  for (let i = 0; i < vertices.length; i += 1) {
+    const vertex = vertices[i];
+    if (Math.hypot(vertex.x - worldX, vertex.y - worldY) <= HANDLE_RADIUS + 4) {
+      return { kind: "vertex", index: i };
+    }
+  }
+  if (Math.hypot(level.start.x - worldX, level.start.y - worldY) <= 20) {
+    return { kind: "start" };
+  }
+  const finishGround = getGroundHeight(level, level.finish.x);
+  if (
+    worldX > level.finish.x - 10 &&
+    worldX < level.finish.x + 70 &&
+    worldY > finishGround - 200 &&
+    worldY < finishGround
+  ) {
+    return { kind: "finish" };
+  }
+  for (let i = 0; i < level.checkpoints.length; i += 1) {
+    const { x } = level.checkpoints[i];
+    const ground = getGroundHeight(level, x);
+    if (
+      worldX > x - 8 &&
+      worldX < x + 64 &&
+      worldY > ground - 150 &&
+      worldY < ground
+    ) {
+      return { kind: "checkpoint", index: i };
+    }
+  }
+  const states = createHazardStates(level);
+  for (let i = level.hazards.length - 1; i >= 0; i -= 1) {
+    const hazard = level.hazards[i];
+    const bounds = behaviorFor(hazard).bounds(hazard, states[i], level);
+    if (
+      worldX >= bounds.left &&
+      worldX <= bounds.right &&
+      worldY >= bounds.top &&
+      worldY <= bounds.bottom
+    ) {
+      return { kind: "hazard", index: i };
+    }
+  }
+  return null;
+}
+
+function selectionAnchorX(level: LevelDefinition, selection: Selection) {
+  switch (selection.kind) {
+    case "vertex":
+      return terrainVertices(level)[selection.index]?.x ?? 0;
+    case "hazard":
+      return level.hazards[selection.index]?.x ?? 0;
+    case "checkpoint":
+      return level.checkpoints[selection.index]?.x ?? 0;
+    case "finish":
+      return level.finish.x;
+    case "start":
+      return level.start.x;
+  }
+}
+
+function dragSelection(
+  level: LevelDefinition,
+  selection: Selection,
+  worldX: number,
+  worldY: number,
+) {
+  switch (selection.kind) {
+    case "vertex":
+      return moveVertex(level, selection.index, worldX, worldY);
+    case "hazard":
+      return updateHazard(level, selection.index, { x: Math.round(worldX) });
+    case "checkpoint":
+      return moveCheckpoint(level, selection.index, worldX);
+    case "finish":
+      return moveFinish(level, worldX);
+    case "start":
+      return moveStart(level, worldX, worldY);
+  }
+}
+
+function drawEditorOverlay(runtime: EditorRuntime) {
+  const { ctx, level, selection } = runtime;
+  const vertices = terrainVertices(level);
+
+  if (selection?.kind === "hazard") {
+    const hazard = level.hazards[selection.index];
+    if (hazard) {
+      const bounds = behaviorFor(hazard).bounds(
+        hazard,
+        createHazardStates(level)[selection.index],
+        level,
+      );
+      const top = Math.max(bounds.top, 0);
+      const bottom = Math.min(bounds.bottom, runtime.viewport.height);
+      ctx.save();
+      ctx.strokeStyle = "#f3c25b";
+      ctx.setLineDash([6, 4]);
+      ctx.lineWidth = 2;
+      ctx.strokeRect(
+        bounds.left - 4,
+        top - 4,
+        bounds.right - bounds.left + 8,
+        bottom - top + 8,
+      );
+      ctx.restore();
+    }
+  }
+
+  if (selection?.kind === "checkpoint") {
+    const checkpoint = level.checkpoints[selection.index];
+    if (checkpoint) {
+      const ground = getGroundHeight(level, checkpoint.x);
+      ctx.save();
+      ctx.strokeStyle = "#f3c25b";
+      ctx.setLineDash([6, 4]);
+      ctx.lineWidth = 2;
+      ctx.strokeRect(checkpoint.x - 8, ground - 154, 72, 154);
+      ctx.restore();
+    }
+  }
+
+  if (selection?.kind === "finish") {
+    const ground = getGroundHeight(level, level.finish.x);
+    ctx.save();
+    ctx.strokeStyle = "#f3c25b";
+    ctx.setLineDash([6, 4]);
+    ctx.lineWidth = 2;
+    ctx.strokeRect(level.finish.x - 10, ground - 204, 80, 204);
+    ctx.restore();
+  }
+
+  ctx.save();
+  for (let i = 0; i < vertices.length; i += 1) {
+    const vertex = vertices[i];
+    const isSelected = selection?.kind === "vertex" && selection.index === i;
+    ctx.beginPath();
+    ctx.arc(vertex.x, vertex.y, HANDLE_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = isSelected ? "#f3c25b" : "#f4f7ff";
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = "#1c1f33";
+    ctx.stroke();
+  }
+
+  const startSelected = selection?.kind === "start";
+  ctx.beginPath();
+  ctx.arc(level.start.x, level.start.y, 16, 0, Math.PI * 2);
+  ctx.fillStyle = startSelected
+    ? "rgba(243, 194, 91, 0.85)"
+    : "rgba(70, 115, 255, 0.75)";
+  ctx.fill();
+  ctx.fillStyle = "#f4f7ff";
+  ctx.font = "bold 12px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("S", level.start.x, level.start.y);
+  ctx.restore();
+}
+
+function render(runtime: EditorRuntime) {
+  const {
+    ctx,
+    level,
+    viewport,
+    camera,
+    playtest,
+  } = runtime;
+  const { width, height } = viewport;
+  if (width === 0 || height === 0) {
+    return;
+  }
+  ctx.clearRect(0, 0, width, height);
+  drawBackdrop(ctx, camera.x, width, height);
+  const view = cameraView(camera, viewport);
+  ctx.save();
+  applyCameraTransform(ctx, camera);
+  drawGround(ctx, level, view);
+  drawHazards(ctx, level, playtest?.hazards ?? null, view);
+  drawCheckpoints(ctx, level, null, view);
+  drawFinish(ctx, level, view);
+  if (playtest?.ragdoll) {
+    drawRagdoll(ctx, playtest.ragdoll, playtest.alpha);
+  } else if (playtest) {
+    drawPlayer(
+      ctx,
+      interpolatePlayer(
+        playtest.previousPlayer,
+        playtest.player,
+        playtest.alpha,
+      ),
+      playtest.status === "playing" ? "riding" : playtest.status,
+    );
+  } else {
+    drawEditorOverlay(runtime);
+  }
+  ctx.restore();
+}
+
+export default function Editor() {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const runtimeRef = useRef<EditorRuntime | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [level, setLevel] = useState<LevelDefinition>(bundledLevels[0]);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [playtestStatus, setPlaytestStatus] = useState<PlaytestStatus | null>(
+    null,
+  );
+  /** Why the last playtest crashed, shown in the banner. */
+  const [playtestCrash, setPlaytestCrash] = useState<CrashCause | null>(null);
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+  const [retryKeys, setRetryKeys] = useState("R");
+  const [newHazardType, setNewHazardType] = useState<HazardType>("spikes");
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      return;
+    }
+
+    const runtime: EditorRuntime = {
+      canvas,
+      ctx,
+      level: bundledLevels[0],
+      selection: null,
+      drag: null,
+      playtest: null,
+      viewport: { width: 0, height: 0, dpr: 1 },
+      camera: createCamera(),
+      lastTime: performance.now(),
+      animationFrame: 0,
+      commitLevel: (next) => {
+        runtime.level = next;
+        setLevel(next);
+      },
+      select: (next) => {
+        if (!sameSelection(runtime.selection, next)) {
+          runtime.selection = next;
+          setSelection(next);
+        }
+      },
+      startPlaytest: () => {
+        /* replaced below */
+      },
+      stopPlaytest: () => {
+        /* replaced below */
+      },
+    };
+
+    runtime.startPlaytest = (spawnX: number) => {
+      const { level: current } = runtime;
+      const player = createPlayer(current);
+      if (spawnX !== current.start.x) {
+        player.x = spawnX;
+        player.y = getGroundHeight(current, spawnX) - 140;
+      }
+      const playtest: Playtest = {
+        level: current,
+        player,
+        previousPlayer: copyPlayer(player),
+        input: createInputState(),
+        onGround: false,
+        hazards: createHazardStates(current),
+        tick: 0,
+        status: "playing",
+        spawnX,
+        clock: createFixedStepClock(),
+        alpha: 0,
+        ragdoll: null,
+        handleWin: () => {
+          if (playtest.status === "playing") {
+            playtest.status = "won";
+            setPlaytestStatus("won");
+          }
+        },
+        handleCrash: (cause) => {
+          if (playtest.status === "playing") {
+            playtest.ragdoll = createRagdoll(playtest.player, {
+              spiked: cause === "spikes",
+            });
+            shakeCamera(runtime.camera, CRASH_SHAKE);
+            playtest.status = "crashed";
+            setPlaytestStatus("crashed");
+            setPlaytestCrash(cause);
+          }
+        },
+      };
+      runtime.playtest = playtest;
+      runtime.drag = null;
+      setPlaytestStatus("playing");
+    };
+
+    runtime.stopPlaytest = () => {
+      runtime.playtest = null;
+      runtime.camera = { ...createCamera(), x: runtime.camera.x };
+      setPlaytestStatus(null);
+    };
+
+    runtimeRef.current = runtime;
+
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      runtime.viewport.width = rect.width;
+      runtime.viewport.height = rect.height;
+      runtime.viewport.dpr = ratio;
+      canvas.width = rect.width * ratio;
+      canvas.height = rect.height * ratio;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.scale(ratio, ratio);
+    };
+
+    const toWorld = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      return screenToWorld(
+        runtime.camera,
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+      );
+    };
+
+    const pointerDown = (event: PointerEvent) => {
+      if (runtime.playtest) {
+        return;
+      }
+      const world = toWorld(event);
+      const hit = hitTest(runtime, world.x, world.y);
+      runtime.select(hit);
+      runtime.drag = hit
+        ? {
+            kind: "select",
+            selection: hit,
+            offsetX: world.x - selectionAnchorX(runtime.level, hit),
+          }
+        : {
+            kind: "pan",
+            originX: event.clientX,
+            originCameraX: runtime.camera.x,
+          };
+      canvas.setPointerCapture(event.pointerId);
+    };
+
+    const pointerMove = (event: PointerEvent) => {
+      const { drag } = runtime;
+      if (!drag) {
+        return;
+      }
+      if (drag.kind === "pan") {
+        runtime.camera.x = Math.max(
+          -200,
+          drag.originCameraX - (event.clientX - drag.originX),
+        );
+        return;
+      }
+      const world = toWorld(event);
+      const anchorX =
+        drag.selection.kind === "hazard" ||
+        drag.selection.kind === "checkpoint" ||
+        drag.selection.kind === "finish"
+          ? world.x - drag.offsetX
+          : world.x;
+      runtime.commitLevel(
+        dragSelection(runtime.level, drag.selection, anchorX, world.y),
+      );
+    };
+
+    const pointerUp = (event: PointerEvent) => {
+      runtime.drag = null;
+      if (canvas.hasPointerCapture(event.pointerId)) {
+        canvas.releasePointerCapture(event.pointerId);
+      }
+    };
+
+    const wheel = (event: WheelEvent) => {
+      if (runtime.playtest) {
+        return;
+      }
+      runtime.camera.x = Math.max(
+        -200,
+        runtime.camera.x + event.deltaX + event.deltaY,
+      );
+      event.preventDefault();
+    };
+
+    // Playtests use the same keys the player set up in the game's Settings.
+    const { keyBindings } = loadSave();
+    setRetryKeys(describeBinding(keyBindings, "restart"));
+
+    const keyDown = (event: KeyboardEvent) => {
+      const { playtest } = runtime;
+      if (!playtest) {
+        return;
+      }
+      if (event.code === "Escape") {
+        runtime.stopPlaytest();
+        event.preventDefault();
+        return;
+      }
+      const action = actionForKey(keyBindings, event.code);
+      if (action === null || action === "pause") {
+        return;
+      }
+      if (action === "start" || action === "restart") {
+        runtime.startPlaytest(playtest.spawnX);
+      } else {
+        pressAction(playtest.input, action);
+      }
+      event.preventDefault();
+    };
+
+    const keyUp = (event: KeyboardEvent) => {
+      const { playtest } = runtime;
+      if (!playtest) {
+        return;
+      }
+      const action = actionForKey(keyBindings, event.code);
+      if (action === "left" || action === "right" || action === "jump") {
+        releaseAction(playtest.input, action);
+      }
+    };
+
+    resize();
+    window.addEventListener("resize", resize);
+    window.addEventListener("keydown", keyDown);
+    window.addEventListener("keyup", keyUp);
+    canvas.addEventListener("pointerdown", pointerDown);
+    canvas.addEventListener("pointermove", pointerMove);
+    canvas.addEventListener("pointerup", pointerUp);
+    canvas.addEventListener("pointercancel", pointerUp);
+    canvas.addEventListener("wheel", wheel, { passive: false });
+
+    const loop = (timestamp: number) => {
+      const frameSeconds = (timestamp - runtime.lastTime) / 1000;
+      const dt = clamp(frameSeconds, 0, 0.04);
+      runtime.lastTime = timestamp;
+
+      const { playtest, viewport } = runtime;
+      if (playtest) {
+        playtest.alpha = advanceFixedStep(playtest.clock, frameSeconds, () => {
+          if (playtest.status === "playing") {
+            const airborne = !playtest.onGround;
+            stepSimulation(playtest);
+            if (airborne && playtest.onGround) {
+              shakeCamera(
+                runtime.camera,
+                landingShake(playtest.previousPlayer.vy),
+              );
+            }
+          } else if (playtest.ragdoll) {
+            stepRagdoll(playtest.ragdoll, playtest.level, FIXED_STEP);
+          }
+        });
+        const hip = playtest.ragdoll?.points.hip;
+        followCamera(
+          runtime.camera,
+          playtest.level,
+          hip
+            ? { x: hip.x, y: hip.y, vx: hip.vx, airborne: false }
+            : {
+                x: playtest.player.x,
+                y: playtest.player.y,
+                vx: playtest.player.vx,
+                airborne: !playtest.onGround,
+              },
+          viewport,
+          dt,
+        );
+      }
+
+      render(runtime);
+      runtime.animationFrame = requestAnimationFrame(loop);
+    };
+
+    runtime.animationFrame = requestAnimationFrame(loop);
+
+    return () => {
+      cancelAnimationFrame(runtime.animationFrame);
+      window.removeEventListener("resize", resize);
+      window.removeEventListener("keydown", keyDown);
+      window.removeEventListener("keyup", keyUp);
+      canvas.removeEventListener("pointerdown", pointerDown);
+      canvas.removeEventListener("pointermove", pointerMove);
+      canvas.removeEventListener("pointerup", pointerUp);
+      canvas.removeEventListener("pointercancel", pointerUp);
+      canvas.removeEventListener("wheel", wheel);
+    };
+  }, []);
+
+  const commit = (next: LevelDefinition) => {
+    runtimeRef.current?.commitLevel(next);
+  };
+
+  const select = (next: Selection | null) => {
+    runtimeRef.current?.select(next);
+  };
+
+  const viewCenterX = () => {
+    const runtime = runtimeRef.current;
+    if (!runtime) {
+      return level.start.x;
+    }
+    return runtime.camera.x + runtime.viewport.width / 2;
+  };
+
+  const handleLoadBundled = (event: ChangeEvent<HTMLSelectElement>) => {
+    const next = bundledLevels.find((entry) => entry.id === event.target.value);
+    if (next) {
+      commit(next);
+      select(null);
+      setImportIssues([]);
+    }
+  };
+
+  const handleAddSegment = () => {
+    commit(appendSegment(level));
+  };
+
+  const handleRemoveLastSegment = () => {
+    commit(removeLastSegment(level));
+    select(null);
+  };
+
+  const handleSplitSegment = () => {
+    if (selection?.kind !== "vertex") {
+      return;
+    }
+    const segmentIndex = Math.min(selection.index, level.terrain.length - 1);
+    commit(splitSegment(level, segmentIndex));
+  };
+
+  const selectedSegment =
+    selection?.kind === "vertex"
+      ? level.terrain[Math.min(selection.index, level.terrain.length - 1)]
+      : undefined;
+
+  const handleTogglePit = () => {
+    if (selection?.kind !== "vertex") {
+      return;
+    }
+    const segmentIndex = Math.min(selection.index, level.terrain.length - 1);
+    commit(togglePit(level, segmentIndex));
+  };
+
+  const handleRemoveVertex = () => {
+    if (selection?.kind !== "vertex") {
+      return;
+    }
+    commit(removeVertex(level, selection.index));
+    select(null);
+  };
+
+  const handleAddHazard = () => {
+    const next = addHazard(level, newHazardType, viewCenterX());
+    commit(next);
+    select({ kind: "hazard", index: next.hazards.length - 1 });
+  };
+
+  const handleRemoveHazard = () => {
+    if (selection?.kind !== "hazard") {
+      return;
+    }
+    commit(removeHazard(level, selection.index));
+    select(null);
+  };
+
+  const handleAddCheckpoint = () => {
+    const x = Math.round(viewCenterX());
+    const next = addCheckpoint(level, x);
+    commit(next);
+    select({
+      kind: "checkpoint",
+      index: next.checkpoints.findIndex((checkpoint) => checkpoint.x === x),
+    });
+  };
+
+  const handleRemoveCheckpoint = () => {
+    if (selection?.kind !== "checkpoint") {
+      return;
+    }
+    commit(removeCheckpoint(level, selection.index));
+    select(null);
+  };
+
+  const handleHazardField = (
+    field: string,
+    event: ChangeEvent<HTMLInputElement>,
+  ) => {
+    if (selection?.kind !== "hazard") {
+      return;
+    }
+    const value = Number(event.target.value);
+    if (Number.isFinite(value)) {
+      commit(updateHazard(level, selection.index, { [field]: value }));
+    }
+  };
+
+  const handleNameChange = (event: ChangeEvent<HTMLInputElement>) => {
+    commit({ ...level, name: event.target.value });
+  };
+
+  const handleIdChange = (event: ChangeEvent<HTMLInputElement>) => {
+    commit({ ...level, id: event.target.value });
+  };
+
+  const handlePlaytestFromStart = () => {
+    runtimeRef.current?.startPlaytest(level.start.x);
+  };
+
+  const handlePlaytestFromHere = () => {
+    const runtime = runtimeRef.current;
+    if (!runtime) {
+      return;
+    }
+    const lastX = level.terrain[level.terrain.length - 1].endX;
+    const spawnX = clamp(
+      runtime.camera.x + runtime.viewport.width * 0.35,
+      level.terrain[0].startX,
+      lastX,
+    );
+    runtime.startPlaytest(spawnX);
+  };
+
+  const handleStopPlaytest = () => {
+    runtimeRef.current?.stopPlaytest();
+  };
+
+  const handleExport = () => {
+    if (levelIssues(level).length > 0) {
+      return;
+    }
+    const blob = new Blob([serializeLevel(level)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `${level.id}.json`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      commit(parseLevelJson(await file.text()));
+      select(null);
+      setImportIssues([]);
+    } catch (error) {
+      if (error instanceof LevelValidationError) {
+        setImportIssues(error.issues);
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const issues = levelIssues(level);
+  const selectedHazard =
+    selection?.kind === "hazard" ? level.hazards[selection.index] : undefined;
+  const isPlaytesting = playtestStatus !== null;
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.stage}>
+        <canvas ref={canvasRef} className={styles.canvas} />
+        {isPlaytesting && (
+          <div className={styles.playtestBanner}>
+            {playtestStatus === "playing" && "Playtesting"}
+            {playtestStatus === "crashed" &&
+              `Crashed${playtestCrash ? `: ${describeCrash(playtestCrash).toLowerCase()}` : ""}`}
+            {playtestStatus === "won" && "Finish reached"}
+            {" · "}
+            <strong>{retryKeys}</strong> retry · <strong>Esc</strong> back to editing
+          </div>
+        )}
+      </div>
+
+      <aside className={styles.panel}>
+        <header className={styles.panelHeader}>
+          <h1>Level Editor</h1>
+          <Link href="/" className={styles.link}>
+            Back to game
+          </Link>
+        </header>
+
+        <section className={styles.section}>
+          <h2>Playtest</h2>
+          {isPlaytesting ? (
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleStopPlaytest}
+            >
+              Stop playtest
+            </button>
+          ) : (
+            <div className={styles.row}>
+              <button
+                type="button"
+                className={styles.button}
+                onClick={handlePlaytestFromStart}
+                disabled={issues.length > 0}
+              >
+                From start
+              </button>
+              <button
+                type="button"
+                className={styles.button}
+                onClick={handlePlaytestFromHere}
+                disabled={issues.length > 0}
+              >
+                From here
+              </button>
+            </div>
+          )}
+        </section>
+
+        <fieldset className={styles.section} disabled={isPlaytesting}>
+          <h2>Course</h2>
+          <label className={styles.field}>
+            <span>Start from</span>
+            <select value="" onChange={handleLoadBundled}>
+              <option value="" disabled>
+                Bundled course…
+              </option>
+              {bundledLevels.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>Name</span>
+            <input value={level.name} onChange={handleNameChange} />
+          </label>
+          <label className={styles.field}>
+            <span>File id</span>
+            <input value={level.id} onChange={handleIdChange} />
+          </label>
+        </fieldset>
+
+        <fieldset className={styles.section} disabled={isPlaytesting}>
+          <h2>Terrain</h2>
+          <p className={styles.hint}>
+            Drag the white handles to reshape the ground; drag empty space or
+            scroll to pan. Drag the flag or the S marker to move the finish and
+            start. Make pit opens the ground after the selected point.
+          </p>
+          <div className={styles.row}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleAddSegment}
+            >
+              Add segment
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleRemoveLastSegment}
+              disabled={level.terrain.length <= 1}
+            >
+              Remove last
+            </button>
+          </div>
+          <div className={styles.row}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleSplitSegment}
+              disabled={selection?.kind !== "vertex"}
+            >
+              Split after point
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleTogglePit}
+              disabled={selection?.kind !== "vertex"}
+            >
+              {selectedSegment?.gap ? "Fill pit" : "Make pit"}
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleRemoveVertex}
+              disabled={selection?.kind !== "vertex"}
+            >
+              Remove point
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset className={styles.section} disabled={isPlaytesting}>
+          <h2>Checkpoints</h2>
+          <p className={styles.hint}>
+            Riders who crash past a checkpoint can respawn there. Drag a flag
+            to move it.
+          </p>
+          <div className={styles.row}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleAddCheckpoint}
+            >
+              Add at view
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleRemoveCheckpoint}
+              disabled={selection?.kind !== "checkpoint"}
+            >
+              Remove selected
+            </button>
+          </div>
+        </fieldset>
+
+        <fieldset className={styles.section} disabled={isPlaytesting}>
+          <h2>Hazards</h2>
+          <div className={styles.row}>
+            <select
+              className={styles.select}
+              value={newHazardType}
+              onChange={(event) =>
+                setNewHazardType(event.target.value as HazardType)
+              }
+            >
+              {hazardTypes.map((type) => (
+                <option key={type} value={type}>
+                  {hazardBehaviors[type].label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleAddHazard}
+            >
+              Add
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleRemoveHazard}
+              disabled={!selectedHazard}
+            >
+              Remove selected
+            </button>
+          </div>
+          {selectedHazard && (
+            <div className={styles.fieldGrid}>
+              {behaviorFor(selectedHazard).fields.map((field) => (
+                <label key={field.key} className={styles.field}>
+                  <span>{field.label}</span>
+                  <input
+                    type="number"
+                    min={field.min}
+                    step={field.step}
+                    value={hazardFieldValue(selectedHazard, field)}
+                    onChange={(event) => handleHazardField(field.key, event)}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </fieldset>
+
+        <fieldset className={styles.section} disabled={isPlaytesting}>
+          <h2>Level file</h2>
+          <div className={styles.row}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={handleExport}
+              disabled={issues.length > 0}
+            >
+              Export JSON
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className={styles.hidden}
+              onChange={handleImport}
+            />
+          </div>
+          {importIssues.length > 0 && (
+            <ul className={styles.issues}>
+              {importIssues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+          {issues.length > 0 && (
+            <ul className={styles.issues}>
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </fieldset>
+      </aside>
+    </div>
+  );
+}
@@ -1,526 +1,504 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
 import styles from "./page.module.css";
-
-type Status = "intro" | "playing" | "won" | "crashed";
-
-interface PlayerState {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  angle: number;
-  angularVelocity: number;
-  legLength: number;
-  headRadius: number;
-  headOffset: number;
-}
-
-interface InputState {
-  left: boolean;
-  right: boolean;
-  jumpHeld: boolean;
-  jumpPressed: boolean;
-}
-
-interface Runtime {
+import CourseGenerator from "../components/CourseGenerator";
+import Leaderboard from "../components/Leaderboard";
+import LevelSelect from "../components/LevelSelect";
+import NetLobby from "../components/NetLobby";
+import NetStandings from "../components/NetStandings";
+import PauseButton from "../components/PauseButton";
+import RaceResults from "../components/RaceResults";
+import RunAnalysis from "../components/RunAnalysis";
+import RunStats from "../components/RunStats";
+import ScoreSubmit from "../components/ScoreSubmit";
+import Settings from "../components/Settings";
+import TouchControls from "../components/TouchControls";
+import VehicleSelect from "../components/VehicleSelect";
+import { useTouchDevice } from "../components/useTouchDevice";
+import {
+  courseFraction,
+  createRunTrace,
+  finishTrace,
+  recordTrace,
+  rewindTrace,
+  SPEED_TO_MPH,
+  type CrashReport,
+  type RunTrace,
+} from "../game/analysis";
+import {
+  closeAudio,
+  createAudioSettings,
+  createSoundEngine,
+  playCrash,
+  playFinish,
+  playJump,
+  playLanding,
+  playSpikes,
+  setAudioSettings,
+  unlockAudio,
+  updateMusic,
+  type AudioSettings,
+  type SoundEngine,
+} from "../game/audio";
+import {
+  applyCameraTransform,
+  cameraView,
+  createCamera,
+  CRASH_SHAKE,
+  followCamera,
+  frameCamera,
+  landingShake,
+  shakeCamera,
+  type Camera,
+  type CameraFocus,
+} from "../game/camera";
+import {
+  createCampaignProgress,
+  isCheckpointBest,
+  isLevelUnlocked,
+  recordLevelWin,
+  type CampaignProgress,
+} from "../game/campaign";
+import {
+  crossedCheckpoint,
+  restoreCheckpoint,
+  takeCheckpoint,
+  type CheckpointSnapshot,
+} from "../game/checkpoints";
+import {
+  pressAction,
+  releaseAction,
+  type ControlAction,
+} from "../game/controls";
+import {
+  findGamepad,
+  gamepadPresets,
+  getGamepadMapping,
+  idleGamepad,
+  readGamepad,
+  type GamepadMapping,
+  type GamepadSnapshot,
+} from "../game/gamepad";
+import {
+  courseFromId,
+  courseFromQuery,
+  courseQuery,
+  generateCourse,
+  type Difficulty,
+  type GeneratedCourse,
+} from "../game/generator";
+import {
+  actionForKey,
+  createKeyBindings,
+  describeBinding,
+  describeKey,
+  type KeyBindings,
+} from "../game/keybindings";
+import { createHazardStates } from "../game/hazards";
+import type { LevelDefinition } from "../game/level";
+import {
+  advanceFixedStep,
+  clamp,
+  copyPlayer,
+  createFixedStepClock,
+  createInputState,
+  createPlayer,
+  createSimulation,
+  describeCrash,
+  FIXED_STEP,
+  interpolatePlayer,
+  stepSimulation,
+  type CrashCause,
+  type FixedStepClock,
+  type Simulation,
+} from "../game/physics";
+import {
+  connectNetRace,
+  disconnectNetRace,
+  isHost,
+  leaveNetRoom,
+  netView,
+  raceClock,
+  relayUrl,
+  remotePlayerAt,
+  sendNetMessage,
+  SNAPSHOT_INTERVAL,
+  type NetRace,
+  type NetView,
+} from "../game/netRace";
+import {
+  clearParticles,
+  createParticleSystem,
+  drawParticles,
+  emitConfetti,
+  emitDust,
+  emitSparks,
+  emitSpeedLines,
+  setParticleQuality,
+  trackFrameTime,
+  updateParticles,
+  type ParticleQuality,
+  type ParticleSystem,
+} from "../game/particles";
+import {
+  createLocalRace,
+  isRaceOver,
+  racerForKey,
+  racerKeys,
+  racePlacements,
+  raceStandings,
+  releaseRacers,
+  settleRacer,
+  type LocalRace,
+  type RaceStanding,
+} from "../game/race";
+import { createRagdoll, stepRagdoll, type Ragdoll } from "../game/ragdoll";
+import {
+  drawBackdrop,
+  drawCheckpoints,
+  drawFinish,
+  drawGhostPlayer,
+  drawGround,
+  drawHazards,
+  drawPlayer,
+  drawRagdoll,
+  drawRiderTag,
+  drawTrickPopups,
+  finishFlagTop,
+} from "../game/render";
+import {
+  applyRecordedInput,
+  createGhost,
+  createInputRecorder,
+  createReplayCursor,
+  fastForwardGhost,
+  finishRecording,
+  recordInput,
+  rewindRecorder,
+  stepGhost,
+  type Ghost,
+  type InputRecorder,
+  type ReplayCursor,
+  type RunOutcome,
+  type RunRecording,
+} from "../game/replay";
+import {
+  appendRunHistory,
+  createSaveData,
+  loadSave,
+  writeSave,
+  type RunHistoryEntry,
+  type SaveData,
+} from "../game/storage";
+import {
+  createTrickTracker,
+  takeTrickAwards,
+  updateTrickPopups,
+  updateTricks,
+  type TrickPopup,
+  type TrickTracker,
+} from "../game/tricks";
+import {
+  DEFAULT_VEHICLE,
+  vehicleFor,
+  type VehicleId,
+} from "../game/vehicles";
+import { bundledLevels } from "../levels";
+
+type Status =
+  | "intro"
+  | "levelSelect"
+  | "playing"
+  | "replaying"
+  | "paused"
+  | "won"
+  | "crashed"
+  | "stats"
+  | "settings"
+  | "generator"
+  | "online"
+  /** Counting down to an online race's synchronized start. */
+  | "countdown";
+
+interface Runtime extends Simulation {
   canvas: HTMLCanvasElement;
   ctx: CanvasRenderingContext2D;
-  player: PlayerState;
-  input: InputState;
+  level: LevelDefinition;
+  /** Campaign position of `level`; -1 while a generated course is loaded. */
+  levelIndex: number;
   status: Status;
   viewport: { width: number; height: number; dpr: number };
-  cameraX: number;
+  camera: Camera;
+  clock: FixedStepClock;
+  /** Blend between the previous and current tick for the frame being drawn. */
+  alpha: number;
   lastTime: number;
   animationFrame: number;
-  startTimestamp: number | null;
   elapsed: number;
   lastHudBroadcast: number;
-  onGround: boolean;
+  recorder: InputRecorder;
+  /** The rider's path this run, for the analysis on the results screen. */
+  trace: RunTrace;
+  /** Set while a recorded run is being played back instead of live input. */
+  replay: ReplayCursor | null;
+  ghost: Ghost | null;
+  /** The rider's broken-apart body, simulated from the moment of a crash. */
+  ragdoll: Ragdoll | null;
+  /** Style points scored this run. */
+  tricks: TrickTracker;
+  popups: TrickPopup[];
+  /** Ridden on the next run; the save remembers it between sessions. */
+  vehicle: VehicleId;
+  /** Runs start as a two-rider race at one keyboard instead of a solo run. */
+  twoPlayer: boolean;
+  /** The race on the course while `twoPlayer` is on; rider one is this runtime. */
+  race: LocalRace | null;
+  /** Connection to the LAN race relay, once the online menu has been opened. */
+  net: NetRace | null;
+  /** True from an online race's start until this rider's finish is reported. */
+  netRacing: boolean;
+  /** `performance.now()` the countdown reaches zero at. */
+  countdownEnd: number;
+  connectNet: () => void;
+  /** Fastest winning recording per vehicle and level, raced as the ghost. */
+  bestRuns: Record<string, RunRecording>;
+  save: SaveData;
+  commitSave: (save: SaveData) => void;
+  /** Furthest progress (percent of the course) reached this run. */
+  maxProgress: number;
+  /** State saved at the last checkpoint passed this run. */
+  checkpoint: CheckpointSnapshot | null;
+  /** Times this run has been rewound to a checkpoint after a crash. */
+  respawns: number;
   setStatus: (status: Status) => void;
   handleWin: () => void;
-  handleCrash: () => void;
+  handleCrash: (cause: CrashCause) => void;
   startGame: () => void;
   resetGame: (nextStatus: Status) => void;
+  /** Picks the run up again from the last checkpoint after a crash. */
+  respawn: () => void;
+  /** Respawns if a crash left a checkpoint to go back to, else restarts. */
+  retry: () => void;
+  /** Status to go back to when the pause menu is closed. */
+  resumeStatus: Status;
+  pause: () => void;
+  resume: () => void;
+  selectLevel: (index: number) => void;
+  /** Loads a generated course and starts a run on it. */
+  playCourse: (course: GeneratedCourse) => void;
+  startReplay: (recording: RunRecording) => void;
+  setTwoPlayer: (on: boolean) => void;
+  /** Rider controls for the racer in `seat`; solo runs only have seat 0. */
+  pressAction: (action: ControlAction, seat?: number) => void;
+  releaseAction: (action: ControlAction, seat?: number) => void;
+  gamepad: GamepadState;
+  keyBindings: KeyBindings;
+  audio: SoundEngine;
+  particles: ParticleSystem;
 }
 
-const GRAVITY = 2400;
-const SPRING_STIFFNESS = 260;
-const SPRING_DAMPING = 32;
-const FOOT_FRICTION = 22;
-const CONTROL_FORCE = 820;
-const CONTROL_TORQUE = 11;
-const AIR_TORQUE = 3.4;
-const JUMP_BASE_IMPULSE = 520;
-const JUMP_COMPRESSION_SCALE = 7.8;
-const FINISH_X = 2150;
-
-const levelSegments = [
-  { startX: 0, endX: 360, startY: 560, endY: 560 },
-  { startX: 360, endX: 620, startY: 560, endY: 480 },
-  { startX: 620, endX: 880, startY: 480, endY: 510 },
-  { startX: 880, endX: 1120, startY: 510, endY: 460 },
-  { startX: 1120, endX: 1320, startY: 460, endY: 520 },
-  { startX: 1320, endX: 1540, startY: 520, endY: 490 },
-  { startX: 1540, endX: 1760, startY: 490, endY: 540 },
-  { startX: 1760, endX: 2050, startY: 540, endY: 500 },
-  { startX: 2050, endX: 2300, startY: 500, endY: 500 },
-];
-
-const spikeFields = [
-  { x: 1180, width: 120, height: 70 },
-  { x: 1680, width: 110, height: 60 },
-];
-
-function clamp(value: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, value));
-}
-
-function normalizeAngle(angle: number) {
-  let result = angle;
-  while (result > Math.PI) {
-    result -= Math.PI * 2;
-  }
-  while (result < -Math.PI) {
-    result += Math.PI * 2;
-  }
-  return result;
+interface GamepadState {
+  /** Index of the pad being read, or null when none is connected. */
+  index: number | null;
+  mapping: GamepadMapping;
+  /** Last frame's reading, used to turn held buttons into press edges. */
+  previous: GamepadSnapshot;
 }
 
-function createPlayer(): PlayerState {
-  return {
-    x: 120,
-    y: 420,
-    vx: 0,
-    vy: 0,
-    angle: 0,
-    angularVelocity: 0,
-    legLength: 160,
-    headRadius: 28,
-    headOffset: 54,
-  };
-}
+const gamepadActions: ControlAction[] = ["left", "right", "jump"];
 
-function getGroundHeight(x: number) {
-  const segments = levelSegments;
-  if (x <= segments[0].startX) {
-    return segments[0].startY;
-  }
-  for (let i = 0; i < segments.length; i += 1) {
-    const segment = segments[i];
-    if (x >= segment.startX && x <= segment.endX) {
-      const span = segment.endX - segment.startX;
-      const t = span === 0 ? 0 : (x - segment.startX) / span;
-      return segment.startY + (segment.endY - segment.startY) * t;
-    }
-  }
-  const last = segments[segments.length - 1];
-  if (x >= last.endX) {
-    return last.endY;
-  }
-  return last.endY;
-}
+/** Rider speed (units/s) at which the music is at full intensity. */
+const MUSIC_TOP_SPEED = 900;
 
-function roundedRectPath(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number,
-) {
-  const r = Math.min(radius, Math.min(width, height) / 2);
-  ctx.beginPath();
-  ctx.moveTo(x + r, y);
-  ctx.lineTo(x + width - r, y);
-  ctx.quadraticCurveTo(x + width, y, x + width, y + r);
-  ctx.lineTo(x + width, y + height - r);
-  ctx.quadraticCurveTo(x + width, y + height, x + width - r, y + height);
-  ctx.lineTo(x + r, y + height);
-  ctx.quadraticCurveTo(x, y + height, x, y + height - r);
-  ctx.lineTo(x, y + r);
-  ctx.quadraticCurveTo(x, y, x + r, y);
-  ctx.closePath();
-}
+/** Tag colour over each racer's head, by seat. */
+const RACER_COLORS = ["#f3c25b", "#5fd4ff"];
+/** Tag colour over riders racing from other machines. */
+const REMOTE_COLOR = "#b7f07a";
 
-function drawFinishFlag(
-  ctx: CanvasRenderingContext2D,
-  screenX: number,
-  groundY: number,
-) {
-  const poleHeight = 200;
-  ctx.save();
-  ctx.translate(screenX, groundY);
-  ctx.fillStyle = "#d9ddec";
-  ctx.fillRect(-4, -poleHeight, 8, poleHeight);
-  const flagWidth = 60;
-  const flagHeight = 80;
-  const cellSize = 12;
-  for (let y = 0; y < flagHeight; y += cellSize) {
-    for (let x = 0; x < flagWidth; x += cellSize) {
-      const isBlack =
-        ((x / cellSize) | 0) % 2 === ((y / cellSize) | 0) % 2;
-      ctx.fillStyle = isBlack ? "#1c1f33" : "#f4f7ff";
-      ctx.fillRect(8 + x, -poleHeight + 20 + y, cellSize, cellSize);
-    }
-  }
-  ctx.restore();
-}
+/** An upward flick at least this long (px) and this quick (ms) is a jump. */
+const SWIPE_MIN_DISTANCE = 48;
+const SWIPE_MAX_MS = 350;
 
-function drawSpikes(
-  ctx: CanvasRenderingContext2D,
-  field: (typeof spikeFields)[number],
-  cameraX: number,
-) {
-  const screenX = field.x - cameraX;
-  const spikeCount = Math.max(3, Math.floor(field.width / 18));
-  const cellWidth = field.width / spikeCount;
-  ctx.save();
-  ctx.translate(screenX, getGroundHeight(field.x + field.width / 2));
-  ctx.fillStyle = "#431822";
-  ctx.strokeStyle = "rgba(255, 255, 255, 0.18)";
-  ctx.lineWidth = 1.5;
-  for (let i = 0; i < spikeCount; i += 1) {
-    const baseX = i * cellWidth;
-    const topY = -field.height;
-    ctx.beginPath();
-    ctx.moveTo(baseX, -6);
-    ctx.lineTo(baseX + cellWidth / 2, topY);
-    ctx.lineTo(baseX + cellWidth, -6);
-    ctx.closePath();
-    ctx.fill();
-    ctx.stroke();
-  }
-  ctx.restore();
+function isSimulating(status: Status) {
+  return status === "playing" || status === "replaying";
 }
 
-function drawPlayer(
-  ctx: CanvasRenderingContext2D,
-  player: PlayerState,
-  cameraX: number,
-  status: Status,
-) {
-  const screenX = player.x - cameraX;
-  ctx.save();
-  ctx.translate(screenX, player.y);
-  ctx.rotate(player.angle);
-
-  const isCrashed = status === "crashed";
-  const isVictory = status === "won";
-
-  ctx.shadowBlur = isVictory ? 26 : 0;
-  ctx.shadowColor = isVictory ? "rgba(255, 240, 180, 0.55)" : "transparent";
-  ctx.lineCap = "round";
-
-  // pogo stick core
-  ctx.strokeStyle = isCrashed ? "#5a5e6d" : "#f3c25b";
-  ctx.lineWidth = 10;
-  ctx.beginPath();
-  ctx.moveTo(0, -8);
-  ctx.lineTo(0, player.legLength);
-  ctx.stroke();
-
-  // spring detail
-  ctx.lineWidth = 4;
-  ctx.strokeStyle = isCrashed ? "#3d4152" : "#ffe38c";
-  ctx.setLineDash([8, 6]);
-  ctx.beginPath();
-  ctx.moveTo(0, 20);
-  ctx.lineTo(0, player.legLength - 20);
-  ctx.stroke();
-  ctx.setLineDash([]);
-
-  // foot pedal
-  ctx.fillStyle = isCrashed ? "#2c303c" : "#2e7dd2";
-  roundedRectPath(
-    ctx,
-    -28,
-    player.legLength - 8,
-    56,
-    16,
-    6,
-  );
-  ctx.fill();
-  ctx.fillStyle = isCrashed ? "#2f333f" : "#1c4c82";
-  roundedRectPath(ctx, -18, player.legLength + 6, 36, 10, 5);
-  ctx.fill();
-
-  // torso
-  ctx.fillStyle = isCrashed ? "#4f5568" : "#e8535a";
-  roundedRectPath(ctx, -18, -72, 36, 64, 18);
-  ctx.fill();
-
-  // shoulder band
-  ctx.fillStyle = isCrashed ? "#32394a" : "#1f2a4b";
-  roundedRectPath(ctx, -20, -48, 40, 12, 6);
-  ctx.fill();
-
-  // arms
-  ctx.strokeStyle = isCrashed ? "#353b48" : "#ffd9a8";
-  ctx.lineWidth = 9;
-  ctx.beginPath();
-  ctx.moveTo(-16, -50);
-  ctx.quadraticCurveTo(-34, -20, -10, -8);
-  ctx.stroke();
-  ctx.beginPath();
-  ctx.moveTo(16, -50);
-  ctx.quadraticCurveTo(34, -24, 10, -4);
-  ctx.stroke();
-
-  // head
-  ctx.fillStyle = isCrashed ? "#c1c6d6" : "#ffe8c6";
-  ctx.beginPath();
-  ctx.arc(0, -player.headOffset, player.headRadius, 0, Math.PI * 2);
-  ctx.fill();
-
-  // helmet
-  ctx.fillStyle = isCrashed ? "#4d5465" : "#4673ff";
-  ctx.beginPath();
-  ctx.arc(
-    0,
-    -player.headOffset - 6,
-    player.headRadius * 0.9,
-    Math.PI,
-    0,
-    false,
+/** Menu screens where start/restart keys and buttons do nothing. */
+function isMenu(status: Status) {
+  return (
+    status === "levelSelect" ||
+    status === "stats" ||
+    status === "settings" ||
+    status === "generator" ||
+    status === "online"
   );
-  ctx.fill();
-
-  // goggles
-  ctx.fillStyle = "#0c0f1c";
-  roundedRectPath(ctx, -18, -player.headOffset - 6, 36, 18, 8);
-  ctx.fill();
-  ctx.fillStyle = "rgba(180, 211, 255, 0.45)";
-  roundedRectPath(ctx, -16, -player.headOffset - 4, 32, 14, 7);
-  ctx.fill();
-
-  ctx.restore();
 }
 
-function drawBackdrop(
-  ctx: CanvasRenderingContext2D,
-  cameraX: number,
-  width: number,
-  height: number,
-) {
-  const horizon = Math.floor(height * 0.42);
-  const gradientSky = ctx.createLinearGradient(0, 0, 0, horizon);
-  gradientSky.addColorStop(0, "#2b3b66");
-  gradientSky.addColorStop(1, "#1f294b");
-  ctx.fillStyle = gradientSky;
-  ctx.fillRect(0, 0, width, horizon);
-
-  const gradientGround = ctx.createLinearGradient(0, horizon, 0, height);
-  gradientGround.addColorStop(0, "#1d1624");
-  gradientGround.addColorStop(1, "#120c18");
-  ctx.fillStyle = gradientGround;
-  ctx.fillRect(0, horizon, width, height - horizon);
+/** Escape always pauses on top of whatever keys are bound to "pause". */
+function describePauseKeys(bindings: KeyBindings) {
+  return ["Esc", ...bindings.pause.map(describeKey)].join(" / ");
+}
 
-  ctx.save();
-  ctx.translate(-cameraX * 0.2, 0);
-  ctx.fillStyle = "rgba(64, 78, 120, 0.55)";
-  ctx.beginPath();
-  ctx.moveTo(-width, horizon + 60);
-  ctx.lineTo(-width / 2, horizon - 50);
-  ctx.lineTo(width * 0.1, horizon + 40);
-  ctx.lineTo(width * 0.6, horizon - 30);
-  ctx.lineTo(width * 1.4, horizon + 60);
-  ctx.lineTo(width * 1.4, height);
-  ctx.lineTo(-width, height);
-  ctx.closePath();
-  ctx.fill();
-
-  ctx.fillStyle = "rgba(48, 60, 102, 0.65)";
-  ctx.beginPath();
-  ctx.moveTo(-width, horizon + 130);
-  ctx.lineTo(-width * 0.2, horizon + 20);
-  ctx.lineTo(width * 0.3, horizon + 80);
-  ctx.lineTo(width, horizon - 10);
-  ctx.lineTo(width * 1.5, horizon + 120);
-  ctx.lineTo(width * 1.5, height);
-  ctx.lineTo(-width, height);
-  ctx.closePath();
-  ctx.fill();
-  ctx.restore();
+function bestRunKey(levelId: string, vehicle: VehicleId) {
+  return `${vehicle}:${levelId}`;
 }
 
-function drawGround(
-  ctx: CanvasRenderingContext2D,
-  cameraX: number,
-  width: number,
-) {
-  const start = Math.floor(cameraX) - 40;
-  const end = cameraX + width + 40;
-  ctx.beginPath();
-  ctx.moveTo(start - cameraX, 2000);
-  for (let x = start; x <= end; x += 16) {
-    const sampleX = clamp(x, 0, FINISH_X + 300);
-    const y = getGroundHeight(sampleX);
-    ctx.lineTo(sampleX - cameraX, y);
-  }
-  ctx.lineTo(end - cameraX, 2000);
-  ctx.closePath();
-  ctx.fillStyle = "#4a3b31";
-  ctx.fill();
-  ctx.strokeStyle = "rgba(25, 18, 12, 0.9)";
-  ctx.lineWidth = 4;
-  ctx.stroke();
-
-  ctx.strokeStyle = "rgba(226, 187, 136, 0.4)";
-  ctx.lineWidth = 2;
-  ctx.beginPath();
-  for (let x = start; x <= end; x += 18) {
-    const sampleX = clamp(x, 0, FINISH_X + 300);
-    const y = getGroundHeight(sampleX);
-    ctx.lineTo(sampleX - cameraX, y - 3);
-  }
-  ctx.stroke();
+function courseProgress(runtime: Runtime) {
+  return courseFraction(runtime.level, runtime.player.x);
 }
 
-function checkSpikeCollision(player: PlayerState) {
-  const sin = Math.sin(player.angle);
-  const cos = Math.cos(player.angle);
-  const headX = player.x - sin * player.headOffset;
-  const headY = player.y - cos * player.headOffset;
-  const bodyBottom = player.y + 28;
-  for (const field of spikeFields) {
-    const groundBase = getGroundHeight(field.x + field.width / 2);
-    const top = groundBase - field.height;
-    const withinHead =
-      headX > field.x - 12 && headX < field.x + field.width + 12;
-    if (withinHead && headY > top + 4) {
-      return true;
-    }
-    const withinBody =
-      player.x > field.x - 14 && player.x < field.x + field.width + 14;
-    if (withinBody && bodyBottom > top + 12) {
-      return true;
+/**
+ * Reads the active pad once per frame and feeds it into the same actions the
+ * keyboard and touch controls use. Button presses are edge-triggered so a held
+ * button does not keep restarting the run.
+ */
+function pollGamepad(runtime: Runtime) {
+  const state = runtime.gamepad;
+  const pad = findGamepad(state.index);
+  const current = pad ? readGamepad(pad, state.mapping) : idleGamepad;
+  state.index = pad ? pad.index : null;
+  const previous = state.previous;
+  state.previous = current;
+
+  for (const action of gamepadActions) {
+    if (current[action] && !previous[action]) {
+      runtime.pressAction(action);
+    } else if (!current[action] && previous[action]) {
+      runtime.releaseAction(action);
     }
   }
-  return false;
-}
-
-function stepPhysics(runtime: Runtime, dt: number) {
-  const { player, input } = runtime;
-  const controlIntent = (input.right ? 1 : 0) - (input.left ? 1 : 0);
-
-  player.vx += CONTROL_FORCE * controlIntent * dt;
-  player.angularVelocity += CONTROL_TORQUE * controlIntent * dt;
-
-  player.vy += GRAVITY * dt;
-  player.vx *= 0.998;
-  player.vy *= 0.999;
-  player.angularVelocity *= 0.992;
-
-  player.x += player.vx * dt;
-  player.y += player.vy * dt;
-  player.angle = normalizeAngle(player.angle + player.angularVelocity * dt);
-
-  const sin = Math.sin(player.angle);
-  const cos = Math.cos(player.angle);
-  let footX = player.x + sin * player.legLength;
-  let footY = player.y + cos * player.legLength;
-  const groundY = getGroundHeight(footX);
-  let onGround = false;
-
-  if (footY >= groundY) {
-    onGround = true;
-    const penetration = footY - groundY;
-    player.x -= sin * penetration;
-    player.y -= cos * penetration;
-    footX = player.x + sin * player.legLength;
-    footY = player.y + cos * player.legLength;
-
-    const normalVelocity = player.vx * sin + player.vy * cos;
-    const springCompression = clamp(penetration, 0, 120);
-    const springForce =
-      springCompression * SPRING_STIFFNESS - normalVelocity * SPRING_DAMPING;
-    player.vx -= sin * springForce * dt;
-    player.vy -= cos * springForce * dt;
-
-    const tangentX = cos;
-    const tangentY = -sin;
-    const tangentVelocity =
-      player.vx * tangentX + player.vy * tangentY + player.angularVelocity * player.legLength;
-    const frictionForce = -tangentVelocity * FOOT_FRICTION;
-    player.vx += tangentX * frictionForce * dt;
-    player.vy += tangentY * frictionForce * dt;
-    player.angularVelocity += frictionForce * dt * 0.026;
-
-    if (input.jumpPressed) {
-      const jumpImpulse =
-        JUMP_BASE_IMPULSE + springCompression * JUMP_COMPRESSION_SCALE;
-      player.vx -= sin * jumpImpulse * 0.7;
-      player.vy -= cos * jumpImpulse;
-      player.angularVelocity -= tangentVelocity * 0.015;
+  runtime.input.analogLean = current.lean;
+
+  if (current.start && !previous.start) {
+    if (isSimulating(runtime.status)) {
+      runtime.pause();
+    } else if (runtime.status === "paused") {
+      runtime.resume();
+    } else if (
+      runtime.status === "intro" ||
+      runtime.status === "crashed" ||
+      runtime.status === "won"
+    ) {
+      runtime.startGame();
     }
-  } else {
-    player.angularVelocity += AIR_TORQUE * controlIntent * dt;
   }
-
-  runtime.onGround = onGround;
-  input.jumpPressed = false;
-
-  const headCollision = checkSpikeCollision(player);
-  const headX = player.x - sin * player.headOffset;
-  const headY = player.y - cos * player.headOffset;
-  const headGround = getGroundHeight(headX);
-  const bodyGround = getGroundHeight(player.x);
-  if (
-    headCollision ||
-    headY + player.headRadius > headGround ||
-    player.y + 24 > bodyGround + 6 ||
-    player.y > runtime.viewport.height + 480
-  ) {
-    runtime.handleCrash();
+  if (current.restart && !previous.restart) {
+    if (!isMenu(runtime.status)) {
+      runtime.retry();
+    }
   }
+}
 
-  if (player.x >= FINISH_X) {
-    runtime.handleWin();
-  }
+function racerFocus(racer: LocalRace["racers"][number]): CameraFocus {
+  const hip = racer.ragdoll?.points.hip;
+  const { player, onGround } = racer.sim;
+  return hip
+    ? { x: hip.x, y: hip.y, vx: hip.vx, airborne: false }
+    : { x: player.x, y: player.y, vx: player.vx, airborne: !onGround };
 }
 
 function updateCamera(runtime: Runtime, dt: number) {
-  const { viewport, player } = runtime;
+  const { viewport, player, level, ragdoll, onGround, race } = runtime;
   if (viewport.width <= 0) {
     return;
   }
-  const target = player.x - viewport.width * 0.35;
-  const followStrength = clamp(dt * 7, 0, 1);
-  runtime.cameraX += (target - runtime.cameraX) * followStrength;
-  runtime.cameraX = clamp(
-    runtime.cameraX,
-    0,
-    Math.max(0, FINISH_X - viewport.width * 0.4),
+  if (race) {
+    frameCamera(runtime.camera, level, race.racers.map(racerFocus), viewport, dt);
+    return;
+  }
+  const hip = ragdoll?.points.hip;
+  followCamera(
+    runtime.camera,
+    level,
+    hip
+      ? { x: hip.x, y: hip.y, vx: hip.vx, airborne: false }
+      : { x: player.x, y: player.y, vx: player.vx, airborne: !onGround },
+    viewport,
+    dt,
   );
 }
 
 function render(runtime: Runtime) {
   const {
     ctx,
-    viewport: { width, height },
-    cameraX,
+    level,
+    viewport,
+    camera,
     player,
+    previousPlayer,
+    alpha,
     status,
+    ghost,
+    ragdoll,
+    hazards,
+    checkpoint,
+    particles,
+    popups,
+    race,
+    net,
   } = runtime;
+  const { width, height } = viewport;
   if (width === 0 || height === 0) {
     return;
   }
   ctx.clearRect(0, 0, width, height);
-  drawBackdrop(ctx, cameraX, width, height);
-  drawGround(ctx, cameraX, width);
-  for (const field of spikeFields) {
-    const screenX = field.x - cameraX;
-    if (screenX > -field.width - 80 && screenX < width + 80) {
-      drawSpikes(ctx, field, cameraX);
+  drawBackdrop(ctx, camera.x, width, height);
+  const view = cameraView(camera, viewport);
+  ctx.save();
+  applyCameraTransform(ctx, camera);
+  drawGround(ctx, level, view);
+  drawHazards(ctx, level, hazards, view);
+  drawCheckpoints(ctx, level, checkpoint?.index ?? null, view);
+  drawFinish(ctx, level, view);
+  if (ghost) {
+    drawGhostPlayer(
+      ctx,
+      interpolatePlayer(ghost.sim.previousPlayer, ghost.sim.player, alpha),
+    );
+  }
+  if (net && net.startedAt !== null) {
+    const clock = raceClock(net, runtime.lastTime);
+    for (const remote of net.remotes.values()) {
+      const shown = remotePlayerAt(remote, clock);
+      if (shown) {
+        drawGhostPlayer(ctx, shown);
+        drawRiderTag(
+          ctx,
+          shown.x,
+          shown.y - shown.headOffset - shown.headRadius - 30,
+          remote.name,
+          REMOTE_COLOR,
+        );
+      }
     }
   }
-  const finishScreenX = FINISH_X - cameraX;
-  if (finishScreenX > -80 && finishScreenX < width + 120) {
-    drawFinishFlag(ctx, finishScreenX, getGroundHeight(FINISH_X));
+  if (race) {
+    race.racers.forEach((racer, seat) => {
+      const shown = interpolatePlayer(racer.sim.previousPlayer, racer.sim.player, alpha);
+      let tagAt = { x: shown.x, y: shown.y - shown.headOffset - shown.headRadius };
+      if (racer.ragdoll) {
+        drawRagdoll(ctx, racer.ragdoll, alpha);
+        const head = racer.ragdoll.points.head;
+        tagAt = { x: head.x, y: head.y - head.radius };
+      } else {
+        drawPlayer(ctx, shown, racer.outcome === "won" ? "won" : "riding");
+      }
+      drawRiderTag(ctx, tagAt.x, tagAt.y - 30, `P${seat + 1}`, RACER_COLORS[seat]);
+    });
+  } else if (ragdoll) {
+    drawRagdoll(ctx, ragdoll, alpha);
+  } else {
+    drawPlayer(
+      ctx,
+      interpolatePlayer(previousPlayer, player, alpha),
+      status === "crashed" || status === "won" ? status : "riding",
+    );
   }
-  drawPlayer(ctx, player, cameraX, status);
+  drawParticles(ctx, particles, view);
+  drawTrickPopups(ctx, popups);
+  ctx.restore();
 }
 
 export default function Home() {
@@ -534,7 +512,46 @@ export default function Home() {
   const [progress, setProgress] = useState(0);
   const [speed, setSpeed] = useState(0);
   const [finalTime, setFinalTime] = useState<number | null>(null);
-  const [bestTime, setBestTime] = useState<number | null>(null);
+  const [score, setScore] = useState(0);
+  const [finalScore, setFinalScore] = useState<number | null>(null);
+  const [lastRun, setLastRun] = useState<RunRecording | null>(null);
+  /** Path and crash of the run that just ended, for the results screen. */
+  const [runTrace, setRunTrace] = useState<RunTrace | null>(null);
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [campaign, setCampaign] = useState<CampaignProgress>(
+    createCampaignProgress,
+  );
+  const [history, setHistory] = useState<RunHistoryEntry[]>([]);
+  const [playerName, setPlayerName] = useState("");
+  const [leaderboardKey, setLeaderboardKey] = useState(0);
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+  const [gamepadMappingId, setGamepadMappingId] = useState(
+    gamepadPresets[0].id,
+  );
+  const [keyBindings, setKeyBindings] =
+    useState<KeyBindings>(createKeyBindings);
+  const [settingsReturn, setSettingsReturn] = useState<Status>("intro");
+  /** Last checkpoint passed this run, and the run time it saved. */
+  const [checkpoint, setCheckpoint] = useState<{
+    index: number;
+    time: number;
+  } | null>(null);
+  const [usedCheckpoints, setUsedCheckpoints] = useState(false);
+  /** The generated course being played instead of a campaign level. */
+  const [course, setCourse] = useState<GeneratedCourse | null>(null);
+  const [audio, setAudio] = useState<AudioSettings>(createAudioSettings);
+  const [vehicle, setVehicle] = useState<VehicleId>(DEFAULT_VEHICLE);
+  const [twoPlayer, setTwoPlayer] = useState(false);
+  /** Each racer's progress during a race, in seat order. */
+  const [standings, setStandings] = useState<RaceStanding[]>([]);
+  /** Final placements once a race is over, shown instead of a single time. */
+  const [raceResult, setRaceResult] = useState<RaceStanding[] | null>(null);
+  const [online, setOnline] = useState<NetView | null>(null);
+  /** Whole seconds left on an online race's countdown. */
+  const [countdown, setCountdown] = useState(0);
+  const [particleQuality, setParticleQualityState] =
+    useState<ParticleQuality>("auto");
+  const isTouch = useTouchDevice();
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -546,25 +563,52 @@ export default function Home() {
       return;
     }
 
+    const level = bundledLevels[0];
+    const player = createPlayer(level);
     const runtime: Runtime = {
       canvas,
       ctx,
-      player: createPlayer(),
-      input: {
-        left: false,
-        right: false,
-        jumpHeld: false,
-        jumpPressed: false,
-      },
+      level,
+      levelIndex: 0,
+      player,
+      previousPlayer: copyPlayer(player),
+      input: createInputState(),
       status: "intro",
       viewport: { width: 0, height: 0, dpr: 1 },
-      cameraX: 0,
+      camera: createCamera(),
+      clock: createFixedStepClock(),
+      alpha: 0,
+      tick: 0,
       lastTime: performance.now(),
       animationFrame: 0,
-      startTimestamp: null,
       elapsed: 0,
       lastHudBroadcast: performance.now(),
+      recorder: createInputRecorder(),
+      trace: { points: [], crash: null },
+      replay: null,
+      ghost: null,
+      ragdoll: null,
+      tricks: createTrickTracker(),
+      popups: [],
+      vehicle: DEFAULT_VEHICLE,
+      twoPlayer: false,
+      race: null,
+      net: null,
+      netRacing: false,
+      countdownEnd: 0,
+      connectNet: () => {
+        /* replaced below */
+      },
+      bestRuns: {},
+      save: createSaveData(),
+      commitSave: () => {
+        /* replaced below */
+      },
+      maxProgress: 0,
+      checkpoint: null,
+      respawns: 0,
       onGround: false,
+      hazards: createHazardStates(level),
       setStatus: (next) => {
         if (runtime.status !== next) {
           runtime.status = next;
@@ -577,29 +621,107 @@ export default function Home() {
       handleCrash: () => {
         /* replaced below */
       },
+      handleJump: (springCompression) => {
+        playJump(runtime.audio, springCompression);
+      },
       startGame: () => {
         /* replaced below */
       },
       resetGame: () => {
         /* replaced below */
       },
+      respawn: () => {
+        /* replaced below */
+      },
+      retry: () => {
+        /* replaced below */
+      },
+      resumeStatus: "playing",
+      pause: () => {
+        /* replaced below */
+      },
+      resume: () => {
+        /* replaced below */
+      },
+      selectLevel: () => {
+        /* replaced below */
+      },
+      playCourse: () => {
+        /* replaced below */
+      },
+      startReplay: () => {
+        /* replaced below */
+      },
+      setTwoPlayer: () => {
+        /* replaced below */
+      },
+      pressAction: () => {
+        /* replaced below */
+      },
+      releaseAction: () => {
+        /* replaced below */
+      },
+      gamepad: {
+        index: null,
+        mapping: gamepadPresets[0],
+        previous: idleGamepad,
+      },
+      keyBindings: createKeyBindings(),
+      audio: createSoundEngine(createAudioSettings()),
+      particles: createParticleSystem("auto"),
     };
 
     runtime.resetGame = (nextStatus: Status) => {
-      runtime.player = createPlayer();
-      runtime.cameraX = 0;
+      // Abandoning an online race counts as a crash, so nobody waits on us.
+      reportNetFinish("crashed");
+      // A replay rides whatever it was recorded on.
+      const vehicle =
+        nextStatus === "replaying" && runtime.replay
+          ? runtime.replay.recording.vehicle
+          : runtime.vehicle;
+      runtime.player = createPlayer(runtime.level, vehicle);
+      runtime.previousPlayer = copyPlayer(runtime.player);
+      runtime.camera = createCamera();
+      runtime.clock = createFixedStepClock();
+      runtime.alpha = 0;
+      runtime.tick = 0;
       runtime.lastTime = performance.now();
       runtime.elapsed = 0;
-      runtime.startTimestamp = nextStatus === "playing" ? runtime.lastTime : null;
       runtime.lastHudBroadcast = runtime.lastTime;
-      runtime.input.left = false;
-      runtime.input.right = false;
-      runtime.input.jumpHeld = false;
-      runtime.input.jumpPressed = false;
+      Object.assign(runtime.input, createInputState());
       runtime.onGround = false;
-      if (nextStatus === "playing") {
+      runtime.hazards = createHazardStates(runtime.level);
+      runtime.recorder = createInputRecorder();
+      runtime.trace = createRunTrace(runtime);
+      runtime.maxProgress = 0;
+      runtime.checkpoint = null;
+      runtime.respawns = 0;
+      runtime.ragdoll = null;
+      clearParticles(runtime.particles);
+      runtime.tricks = createTrickTracker();
+      runtime.popups = [];
+      if (nextStatus !== "replaying") {
+        runtime.replay = null;
+      }
+      runtime.race =
+        runtime.twoPlayer && nextStatus !== "replaying"
+          ? createLocalRace([runtime, createRival(vehicle)])
+          : null;
+      const bestRun = runtime.race
+        ? undefined
+        : runtime.bestRuns[bestRunKey(runtime.level.id, vehicle)];
+      runtime.ghost = bestRun ? createGhost(runtime.level, bestRun) : null;
+      setCheckpoint(null);
+      setUsedCheckpoints(false);
+      setRaceResult(null);
+      setRunTrace(null);
+      setStandings(
+        runtime.race ? raceStandings(runtime.race, runtime.level) : [],
+      );
+      if (isSimulating(nextStatus)) {
         setElapsed(0);
         setSpeed(0);
+        setScore(0);
         setProgress(0);
         progressRef.current = 0;
         speedRef.current = 0;
@@ -607,38 +729,448 @@ export default function Home() {
       runtime.setStatus(nextStatus);
     };
 
+    // Rider two of a race gets a simulation of their own; rider one races on
+    // the runtime, so the HUD, music, and touch or pad controls follow them.
+    const createRival = (vehicleId: VehicleId) => {
+      const sim: Simulation = createSimulation(
+        runtime.level,
+        {
+          handleWin: () => endRacerRun(1, "won"),
+          handleCrash: (cause) => endRacerRun(1, "crashed", cause),
+        },
+        vehicleId,
+      );
+      sim.handleJump = runtime.handleJump;
+      return sim;
+    };
+
+    const endRacerRun = (
+      seat: number,
+      outcome: RunOutcome,
+      cause: CrashCause | null = null,
+    ) => {
+      const racer = runtime.race?.racers[seat];
+      if (runtime.status !== "playing" || !racer || !settleRacer(racer, outcome)) {
+        return;
+      }
+      const { player } = racer.sim;
+      if (outcome === "won") {
+        playFinish(runtime.audio);
+        const flag = finishFlagTop(runtime.level);
+        emitConfetti(runtime.particles, flag.x, flag.y);
+        return;
+      }
+      const spiked = cause === "spikes";
+      racer.ragdoll = createRagdoll(player, { spiked });
+      shakeCamera(runtime.camera, CRASH_SHAKE);
+      if (spiked) {
+        playSpikes(runtime.audio);
+        emitSparks(runtime.particles, player.x, player.y);
+      }
+      playCrash(runtime.audio);
+    };
+
+    // Races stay out of the records: nothing is recorded, saved, or raced as
+    // a ghost, and there are no checkpoints to respawn at.
+    const finishRace = (race: LocalRace) => {
+      runtime.setStatus("won");
+      runtime.elapsed = race.tick * FIXED_STEP;
+      setElapsed(runtime.elapsed);
+      setStandings(raceStandings(race, runtime.level));
+      setRaceResult(racePlacements(race, runtime.level));
+      setSpeed(0);
+      speedRef.current = 0;
+    };
+
+    const reportNetFinish = (outcome: RunOutcome) => {
+      const { net } = runtime;
+      if (!net || !runtime.netRacing) {
+        return;
+      }
+      runtime.netRacing = false;
+      sendNetMessage(net, {
+        type: "finish",
+        outcome,
+        ticks: runtime.tick,
+        progress: outcome === "won" ? 100 : courseProgress(runtime),
+      });
+    };
+
+    const finishReplay = () => {
+      const outcome = runtime.replay?.recording.outcome ?? "crashed";
+      runtime.replay = null;
+      runtime.setStatus(outcome);
+    };
+
+    const commitSave = (next: SaveData) => {
+      runtime.save = next;
+      writeSave(next);
+      setCampaign(next.campaign);
+      setHistory(next.history);
+      setPlayerName(next.playerName);
+      setGamepadMappingId(next.gamepadMapping);
+      runtime.gamepad.mapping = getGamepadMapping(next.gamepadMapping);
+      runtime.keyBindings = next.keyBindings;
+      setKeyBindings(next.keyBindings);
+      setAudioSettings(runtime.audio, next.audio);
+      setAudio(next.audio);
+      // Only on a change, so a save after every run doesn't undo what "auto"
+      // has learned about this device.
+      if (runtime.particles.quality !== next.particleQuality) {
+        setParticleQuality(runtime.particles, next.particleQuality);
+      }
+      setParticleQualityState(next.particleQuality);
+      runtime.vehicle = next.vehicle;
+      setVehicle(next.vehicle);
+    };
+
+    runtime.commitSave = commitSave;
+
+    const saveRecording = (outcome: RunOutcome, crash: CrashReport | null) => {
+      const recording = finishRecording(
+        runtime.recorder,
+        runtime.level.id,
+        runtime.vehicle,
+        outcome,
+        runtime.tick,
+      );
+      setLastRun(recording);
+      commitSave(
+        appendRunHistory(runtime.save, {
+          levelId: recording.levelId,
+          vehicle: recording.vehicle,
+          outcome,
+          time: recording.time,
+          maxProgress:
+            outcome === "won"
+              ? 100
+              : Math.max(runtime.maxProgress, courseProgress(runtime)),
+          usedCheckpoints: runtime.respawns > 0,
+          crash,
+          date: new Date().toISOString(),
+        }),
+      );
+      const key = bestRunKey(recording.levelId, recording.vehicle);
+      const best = runtime.bestRuns[key];
+      if (outcome === "won" && (!best || recording.ticks < best.ticks)) {
+        runtime.bestRuns[key] = recording;
+      }
+    };
+
     runtime.handleWin = () => {
+      if (runtime.race) {
+        endRacerRun(0, "won");
+        return;
+      }
+      if (isSimulating(runtime.status)) {
+        setRunTrace(finishTrace(runtime.trace, runtime, null));
+      }
+      if (runtime.status === "replaying") {
+        finishReplay();
+        return;
+      }
       if (runtime.status !== "playing") {
         return;
       }
       runtime.setStatus("won");
+      playFinish(runtime.audio);
+      const flag = finishFlagTop(runtime.level);
+      emitConfetti(runtime.particles, flag.x, flag.y);
+      runtime.elapsed = runtime.tick * FIXED_STEP;
       const resultTime = runtime.elapsed;
+      commitSave({
+        ...runtime.save,
+        campaign: recordLevelWin(
+          runtime.save.campaign,
+          bundledLevels,
+          runtime.levelIndex,
+          runtime.vehicle,
+          resultTime,
+          runtime.tricks.score,
+          runtime.respawns > 0,
+        ),
+      });
+      saveRecording("won", null);
+      reportNetFinish("won");
       setFinalTime(resultTime);
-      setBestTime((prev) =>
-        prev === null || resultTime < prev ? resultTime : prev,
-      );
+      setFinalScore(runtime.tricks.score);
+      setScore(runtime.tricks.score);
+      setElapsed(resultTime);
       setProgress(100);
       progressRef.current = 100;
       setSpeed(0);
       speedRef.current = 0;
     };
 
-    runtime.handleCrash = () => {
+    runtime.handleCrash = (cause) => {
+      if (runtime.race) {
+        endRacerRun(0, "crashed", cause);
+        return;
+      }
+      if (isSimulating(runtime.status)) {
+        setRunTrace(finishTrace(runtime.trace, runtime, cause));
+        const spiked = cause === "spikes";
+        runtime.ragdoll = createRagdoll(runtime.player, { spiked });
+        shakeCamera(runtime.camera, CRASH_SHAKE);
+        if (spiked) {
+          playSpikes(runtime.audio);
+          emitSparks(runtime.particles, runtime.player.x, runtime.player.y);
+        }
+        playCrash(runtime.audio);
+      }
+      if (runtime.status === "replaying") {
+        finishReplay();
+        return;
+      }
       if (runtime.status !== "playing") {
         return;
       }
       runtime.setStatus("crashed");
+      runtime.elapsed = runtime.tick * FIXED_STEP;
+      saveRecording("crashed", runtime.trace.crash);
+      reportNetFinish("crashed");
       setSpeed(0);
       speedRef.current = 0;
     };
 
-    runtime.startGame = () => {
+    const beginRun = () => {
       runtime.resetGame("playing");
       setFinalTime(null);
+      setFinalScore(null);
+    };
+
+    // In an online room nobody starts alone: the host's start counts the whole
+    // room down together, and everyone else waits at the line for it.
+    runtime.startGame = () => {
+      const { net } = runtime;
+      if (!net?.room) {
+        beginRun();
+      } else if (isHost(net)) {
+        sendNetMessage(net, { type: "start", levelId: runtime.level.id });
+      } else {
+        runtime.resetGame("intro");
+      }
+    };
+
+    // The snapshot puts the run back exactly as it was at the checkpoint's
+    // tick, so trimming the recording there keeps it a replayable, verifiable
+    // run; the ghost is fast-forwarded to the same tick to stay in step.
+    runtime.respawn = () => {
+      const snapshot = runtime.checkpoint;
+      if (runtime.status !== "crashed" || !snapshot) {
+        return;
+      }
+      restoreCheckpoint(runtime, snapshot);
+      rewindRecorder(runtime.recorder, snapshot.tick);
+      rewindTrace(runtime.trace, snapshot.tick);
+      runtime.respawns += 1;
+      runtime.ragdoll = null;
+      clearParticles(runtime.particles);
+      runtime.popups = [];
+      runtime.clock = createFixedStepClock();
+      runtime.alpha = 0;
+      runtime.lastTime = performance.now();
+      runtime.elapsed = snapshot.tick * FIXED_STEP;
+      const bestRun =
+        runtime.bestRuns[bestRunKey(runtime.level.id, runtime.vehicle)];
+      runtime.ghost = bestRun ? createGhost(runtime.level, bestRun) : null;
+      if (runtime.ghost) {
+        fastForwardGhost(runtime.ghost, snapshot.tick);
+      }
+      setElapsed(runtime.elapsed);
+      setScore(runtime.tricks.score);
+      setFinalTime(null);
+      setFinalScore(null);
+      setUsedCheckpoints(true);
+      runtime.setStatus("playing");
+    };
+
+    runtime.retry = () => {
+      // Respawning would rewind the clock the online finishing order is kept by.
+      if (
+        runtime.status === "crashed" &&
+        runtime.checkpoint &&
+        !runtime.net?.room
+      ) {
+        runtime.respawn();
+      } else {
+        runtime.startGame();
+      }
+    };
+
+    // Pausing simply stops stepping the simulation, and run time is counted in
+    // ticks, so time spent paused (or in another tab) never reaches the clock.
+    runtime.pause = () => {
+      if (!isSimulating(runtime.status)) {
+        return;
+      }
+      runtime.resumeStatus = runtime.status;
+      Object.assign(runtime.input, createInputState());
+      if (runtime.race) {
+        releaseRacers(runtime.race);
+      }
+      runtime.setStatus("paused");
+    };
+
+    runtime.resume = () => {
+      if (runtime.status !== "paused") {
+        return;
+      }
+      // Keys released while paused never sent a keyup to the game, so start
+      // from a clean slate; a still-held pad button is re-read next frame.
+      Object.assign(runtime.input, createInputState());
+      if (runtime.race) {
+        releaseRacers(runtime.race);
+      }
+      runtime.gamepad.previous = idleGamepad;
+      runtime.clock = createFixedStepClock();
+      runtime.lastTime = performance.now();
+      runtime.setStatus(runtime.resumeStatus);
+    };
+
+    const racerInput = (seat: number) =>
+      seat === 0 ? runtime.input : runtime.race?.racers[seat]?.sim.input;
+
+    runtime.pressAction = (action: ControlAction, seat = 0) => {
+      const input = racerInput(seat);
+      if (input) {
+        pressAction(input, action);
+      }
+      if (action !== "jump") {
+        return;
+      }
+      if (runtime.status === "crashed") {
+        runtime.retry();
+      } else if (runtime.status === "intro" || runtime.status === "won") {
+        runtime.startGame();
+      }
+    };
+
+    runtime.releaseAction = (action: ControlAction, seat = 0) => {
+      const input = racerInput(seat);
+      if (input) {
+        releaseAction(input, action);
+      }
+    };
+
+    runtime.startReplay = (recording: RunRecording) => {
+      runtime.replay = createReplayCursor(recording);
+      runtime.resetGame("replaying");
+    };
+
+    runtime.setTwoPlayer = (on: boolean) => {
+      runtime.twoPlayer = on;
+      setTwoPlayer(on);
+      runtime.resetGame("intro");
+    };
+
+    const loadLevel = (index: number) => {
+      const next = bundledLevels[index];
+      if (!next) {
+        return false;
+      }
+      runtime.level = next;
+      runtime.levelIndex = index;
+      setLevelIndex(index);
+      setCourse(null);
+      if (window.location.search !== "") {
+        window.history.replaceState(null, "", window.location.pathname);
+      }
+      return true;
+    };
+
+    runtime.selectLevel = (index: number) => {
+      if (loadLevel(index)) {
+        runtime.startGame();
+      }
+    };
+
+    // Generated courses sit outside the campaign: levelIndex -1 keeps wins
+    // from touching unlocks or best times. The seed goes in the URL so the
+    // address bar always holds a link to the course on screen.
+    const loadCourse = (next: GeneratedCourse) => {
+      runtime.level = next.level;
+      runtime.levelIndex = -1;
+      setCourse(next);
+      window.history.replaceState(
+        null,
+        "",
+        `${window.location.pathname}${courseQuery(next.seed, next.difficulty)}`,
+      );
+    };
+
+    runtime.playCourse = (next: GeneratedCourse) => {
+      loadCourse(next);
+      runtime.startGame();
+    };
+
+    // Everyone in the room races whichever course the host had loaded.
+    const startCountdown = (levelId: string, seconds: number) => {
+      const index = bundledLevels.findIndex((level) => level.id === levelId);
+      const generated = index === -1 ? courseFromId(levelId) : null;
+      if (generated) {
+        loadCourse(generated);
+      } else if (!loadLevel(index)) {
+        return;
+      }
+      runtime.twoPlayer = false;
+      setTwoPlayer(false);
+      runtime.resetGame("countdown");
+      runtime.countdownEnd = performance.now() + seconds * 1000;
+      setCountdown(seconds);
+    };
+
+    const syncNet = () => {
+      setOnline(runtime.net ? netView(runtime.net) : null);
+    };
+
+    runtime.connectNet = () => {
+      if (runtime.net && runtime.net.status !== "closed") {
+        return;
+      }
+      runtime.net = connectNetRace(relayUrl(), {
+        onMessage: (message) => {
+          if (message.type === "countdown") {
+            startCountdown(message.levelId, message.seconds);
+          }
+          if (message.type !== "state") {
+            syncNet();
+          }
+        },
+        onStatus: (next) => {
+          if (next === "closed") {
+            runtime.netRacing = false;
+          }
+          syncNet();
+        },
+      });
+      syncNet();
     };
 
     runtimeRef.current = runtime;
 
+    runtime.save = loadSave();
+    setCampaign(runtime.save.campaign);
+    setHistory(runtime.save.history);
+    setPlayerName(runtime.save.playerName);
+    setGamepadMappingId(runtime.save.gamepadMapping);
+    runtime.gamepad.mapping = getGamepadMapping(runtime.save.gamepadMapping);
+    runtime.keyBindings = runtime.save.keyBindings;
+    setKeyBindings(runtime.save.keyBindings);
+    setAudioSettings(runtime.audio, runtime.save.audio);
+    setAudio(runtime.save.audio);
+    setParticleQuality(runtime.particles, runtime.save.particleQuality);
+    setParticleQualityState(runtime.save.particleQuality);
+    runtime.vehicle = runtime.save.vehicle;
+    setVehicle(runtime.save.vehicle);
+
+    // The saved vehicle and any linked course both change who waits at the start.
+    const linkedCourse = courseFromQuery(window.location.search);
+    if (linkedCourse) {
+      loadCourse(linkedCourse);
+    }
+    runtime.resetGame("intro");
+
     const resize = () => {
       const rect = canvas.getBoundingClientRect();
       const ratio = window.devicePixelRatio || 1;
@@ -651,99 +1183,304 @@ export default function Home() {
       ctx.scale(ratio, ratio);
     };
 
+    // In a race each rider has their own fixed keys; the bound rider keys
+    // would drive rider one with both hands, so they are ignored.
     const keyDown = (event: KeyboardEvent) => {
-      const { code } = event;
-      switch (code) {
-        case "ArrowLeft":
-        case "KeyA":
-          runtime.input.left = true;
-          event.preventDefault();
-          break;
-        case "ArrowRight":
-        case "KeyD":
-          runtime.input.right = true;
-          event.preventDefault();
-          break;
-        case "ArrowUp":
-        case "KeyW":
-        case "Space":
-          if (!runtime.input.jumpHeld) {
-            runtime.input.jumpPressed = true;
-          }
-          runtime.input.jumpHeld = true;
+      const seatKey = runtime.twoPlayer ? racerForKey(event.code) : null;
+      if (seatKey) {
+        event.preventDefault();
+        runtime.pressAction(seatKey.action, seatKey.seat);
+        return;
+      }
+      const action = actionForKey(runtime.keyBindings, event.code);
+      if (action === "pause" || event.code === "Escape") {
+        if (isSimulating(runtime.status)) {
+          runtime.pause();
           event.preventDefault();
-          if (runtime.status === "intro") {
-            runtime.startGame();
-          } else if (runtime.status === "crashed" || runtime.status === "won") {
-            runtime.startGame();
-          }
-          break;
-        case "Enter":
-          runtime.startGame();
+        } else if (runtime.status === "paused") {
+          runtime.resume();
           event.preventDefault();
-          break;
-        case "KeyR":
+        }
+        return;
+      }
+      if (action === null) {
+        return;
+      }
+      event.preventDefault();
+      if (action === "start" || action === "restart") {
+        if (isMenu(runtime.status)) {
+          return;
+        }
+        if (action === "restart") {
+          runtime.retry();
+        } else {
           runtime.startGame();
-          event.preventDefault();
-          break;
-        default:
-          break;
+        }
+        return;
+      }
+      if (!runtime.twoPlayer) {
+        runtime.pressAction(action);
       }
     };
 
     const keyUp = (event: KeyboardEvent) => {
-      const { code } = event;
-      switch (code) {
-        case "ArrowLeft":
-        case "KeyA":
-          runtime.input.left = false;
-          event.preventDefault();
-          break;
-        case "ArrowRight":
-        case "KeyD":
-          runtime.input.right = false;
-          event.preventDefault();
-          break;
-        case "ArrowUp":
-        case "KeyW":
-        case "Space":
-          runtime.input.jumpHeld = false;
-          event.preventDefault();
-          break;
-        default:
-          break;
+      const seatKey = runtime.twoPlayer ? racerForKey(event.code) : null;
+      if (seatKey) {
+        runtime.releaseAction(seatKey.action, seatKey.seat);
+        event.preventDefault();
+        return;
+      }
+      const action = actionForKey(runtime.keyBindings, event.code);
+      if (action === "left" || action === "right" || action === "jump") {
+        runtime.releaseAction(action);
+        event.preventDefault();
+      }
+    };
+
+    const swipe = { pointerId: -1, startY: 0, startTime: 0 };
+
+    const touchDown = (event: PointerEvent) => {
+      const target = event.target as Element | null;
+      if (
+        event.pointerType !== "touch" ||
+        target?.closest("button, a, input, select, label")
+      ) {
+        return;
+      }
+      swipe.pointerId = event.pointerId;
+      swipe.startY = event.clientY;
+      swipe.startTime = event.timeStamp;
+    };
+
+    const touchMove = (event: PointerEvent) => {
+      if (event.pointerId !== swipe.pointerId) {
+        return;
+      }
+      const quick = event.timeStamp - swipe.startTime < SWIPE_MAX_MS;
+      if (quick && swipe.startY - event.clientY > SWIPE_MIN_DISTANCE) {
+        swipe.pointerId = -1;
+        runtime.pressAction("jump");
+        runtime.releaseAction("jump");
+      }
+    };
+
+    const touchEnd = (event: PointerEvent) => {
+      if (event.pointerId === swipe.pointerId) {
+        swipe.pointerId = -1;
+      }
+    };
+
+    const gamepadConnected = (event: GamepadEvent) => {
+      if (runtime.gamepad.index === null) {
+        runtime.gamepad.index = event.gamepad.index;
+        setGamepadName(event.gamepad.id);
+      }
+    };
+
+    const gamepadDisconnected = (event: GamepadEvent) => {
+      if (event.gamepad.index !== runtime.gamepad.index) {
+        return;
+      }
+      // Let go of anything the pad was holding so the rider doesn't keep leaning.
+      for (const action of gamepadActions) {
+        if (runtime.gamepad.previous[action]) {
+          runtime.releaseAction(action);
+        }
+      }
+      runtime.input.analogLean = 0;
+      runtime.gamepad.previous = idleGamepad;
+      runtime.gamepad.index = null;
+      const replacement = findGamepad(null);
+      setGamepadName(replacement ? replacement.id : null);
+    };
+
+    const autoPause = () => {
+      if (document.visibilityState === "hidden" || !document.hasFocus()) {
+        runtime.pause();
       }
     };
 
     resize();
+    // Sound can only start from a gesture; listen in the capture phase so
+    // menus that swallow keys still count.
+    const unlockSound = () => unlockAudio(runtime.audio);
+    window.addEventListener("keydown", unlockSound, true);
+    window.addEventListener("pointerdown", unlockSound, true);
     window.addEventListener("resize", resize);
     window.addEventListener("keydown", keyDown);
     window.addEventListener("keyup", keyUp);
+    window.addEventListener("pointerdown", touchDown);
+    window.addEventListener("pointermove", touchMove);
+    window.addEventListener("pointerup", touchEnd);
+    window.addEventListener("pointercancel", touchEnd);
+    window.addEventListener("gamepadconnected", gamepadConnected);
+    window.addEventListener("gamepaddisconnected", gamepadDisconnected);
+    window.addEventListener("blur", autoPause);
+    document.addEventListener("visibilitychange", autoPause);
+
+    const landed = (sim: Simulation) => {
+      const { player, previousPlayer } = sim;
+      shakeCamera(runtime.camera, landingShake(previousPlayer.vy));
+      playLanding(runtime.audio, previousPlayer.vy);
+      emitDust(
+        runtime.particles,
+        player.x + Math.sin(player.angle) * player.legLength,
+        player.y + Math.cos(player.angle) * player.legLength,
+        previousPlayer.vy,
+      );
+    };
+
+    const stepRace = (race: LocalRace) => {
+      for (const racer of race.racers) {
+        if (racer.outcome !== null) {
+          if (racer.ragdoll) {
+            stepRagdoll(racer.ragdoll, runtime.level, FIXED_STEP);
+          }
+          continue;
+        }
+        const airborne = !racer.sim.onGround;
+        stepSimulation(racer.sim);
+        if (airborne && racer.sim.onGround) {
+          landed(racer.sim);
+        }
+      }
+      race.tick += 1;
+      if (isRaceOver(race)) {
+        finishRace(race);
+      }
+    };
 
     const loop = (timestamp: number) => {
-      const dt = clamp((timestamp - runtime.lastTime) / 1000, 0, 0.04);
+      const frameSeconds = (timestamp - runtime.lastTime) / 1000;
+      const dt = clamp(frameSeconds, 0, 0.04);
       runtime.lastTime = timestamp;
 
-      if (runtime.status === "playing") {
-        if (runtime.startTimestamp === null) {
-          runtime.startTimestamp = timestamp;
+      pollGamepad(runtime);
+
+      if (runtime.status === "countdown") {
+        const remaining = runtime.countdownEnd - timestamp;
+        if (remaining > 0) {
+          setCountdown(Math.ceil(remaining / 1000));
+        } else {
+          beginRun();
+          if (runtime.net?.room) {
+            runtime.net.startedAt = timestamp;
+            runtime.netRacing = true;
+          }
         }
-        runtime.elapsed = (timestamp - runtime.startTimestamp) / 1000;
-        stepPhysics(runtime, dt);
       }
 
+      if (isSimulating(runtime.status)) {
+        runtime.alpha = advanceFixedStep(runtime.clock, frameSeconds, () => {
+          if (!isSimulating(runtime.status)) {
+            return;
+          }
+          if (runtime.race) {
+            stepRace(runtime.race);
+            return;
+          }
+          if (runtime.replay) {
+            applyRecordedInput(runtime.replay, runtime.tick, runtime.input);
+          } else {
+            recordInput(runtime.recorder, runtime.tick, runtime.input);
+          }
+          const airborne = !runtime.onGround;
+          stepSimulation(runtime);
+          if (isSimulating(runtime.status)) {
+            updateTricks(runtime.tricks, runtime);
+            recordTrace(runtime.trace, runtime);
+          }
+          if (airborne && runtime.onGround) {
+            landed(runtime);
+          }
+          if (runtime.ghost) {
+            stepGhost(runtime.ghost);
+          }
+          if (runtime.status === "playing") {
+            const crossed = crossedCheckpoint(
+              runtime.level,
+              runtime.previousPlayer.x,
+              runtime.player.x,
+            );
+            if (crossed !== null && crossed > (runtime.checkpoint?.index ?? -1)) {
+              runtime.checkpoint = takeCheckpoint(runtime, crossed);
+              setCheckpoint({
+                index: crossed,
+                time: runtime.tick * FIXED_STEP,
+              });
+            }
+          }
+          if (
+            runtime.net &&
+            runtime.netRacing &&
+            runtime.tick % SNAPSHOT_INTERVAL === 0
+          ) {
+            sendNetMessage(runtime.net, {
+              type: "state",
+              tick: runtime.tick,
+              player: runtime.player,
+            });
+          }
+        });
+        runtime.elapsed = (runtime.race ?? runtime).tick * FIXED_STEP;
+        runtime.maxProgress = Math.max(
+          runtime.maxProgress,
+          courseProgress(runtime),
+        );
+      } else if (runtime.status === "crashed" && runtime.ragdoll) {
+        const { ragdoll, level } = runtime;
+        runtime.alpha = advanceFixedStep(runtime.clock, frameSeconds, () => {
+          stepRagdoll(ragdoll, level, FIXED_STEP);
+        });
+      } else if (runtime.status === "won" && runtime.race) {
+        // Let anyone who crashed finish tumbling under the results.
+        const { race, level } = runtime;
+        runtime.alpha = advanceFixedStep(runtime.clock, frameSeconds, () => {
+          for (const racer of race.racers) {
+            if (racer.ragdoll) {
+              stepRagdoll(racer.ragdoll, level, FIXED_STEP);
+            }
+          }
+        });
+      }
+
+      updateMusic(
+        runtime.audio,
+        isSimulating(runtime.status)
+          ? clamp(Math.hypot(runtime.player.vx, runtime.player.vy) / MUSIC_TOP_SPEED, 0, 1)
+          : null,
+      );
+      if (runtime.status !== "paused") {
+        if (isSimulating(runtime.status)) {
+          const riders = runtime.race
+            ? runtime.race.racers
+                .filter((racer) => racer.outcome === null)
+                .map((racer) => racer.sim.player)
+            : [runtime.player];
+          for (const player of riders) {
+            emitSpeedLines(runtime.particles, player.x, player.y, player.vx, player.vy, dt);
+          }
+          trackFrameTime(runtime.particles, dt);
+        }
+        updateParticles(runtime.particles, dt);
+        runtime.popups = updateTrickPopups(
+          runtime.popups,
+          takeTrickAwards(runtime.tricks),
+          dt,
+        );
+      }
       updateCamera(runtime, dt);
       render(runtime);
 
       if (timestamp - runtime.lastHudBroadcast > 90) {
         runtime.lastHudBroadcast = timestamp;
-        if (runtime.status === "playing") {
+        if (isSimulating(runtime.status)) {
           setElapsed(runtime.elapsed);
-          const nextProgress = clamp(
-            (runtime.player.x / FINISH_X) * 100,
-            0,
-            100,
-          );
+          setScore(runtime.tricks.score);
+          if (runtime.race) {
+            setStandings(raceStandings(runtime.race, runtime.level));
+          }
+          const nextProgress = courseProgress(runtime);
           if (Math.abs(nextProgress - progressRef.current) > 0.2) {
             progressRef.current = nextProgress;
             setProgress(nextProgress);
@@ -763,9 +1500,23 @@ export default function Home() {
 
     return () => {
       cancelAnimationFrame(runtime.animationFrame);
+      if (runtime.net) {
+        disconnectNetRace(runtime.net);
+      }
+      window.removeEventListener("keydown", unlockSound, true);
+      window.removeEventListener("pointerdown", unlockSound, true);
+      closeAudio(runtime.audio);
       window.removeEventListener("resize", resize);
       window.removeEventListener("keydown", keyDown);
       window.removeEventListener("keyup", keyUp);
+      window.removeEventListener("pointerdown", touchDown);
+      window.removeEventListener("pointermove", touchMove);
+      window.removeEventListener("pointerup", touchEnd);
+      window.removeEventListener("pointercancel", touchEnd);
+      window.removeEventListener("gamepadconnected", gamepadConnected);
+      window.removeEventListener("gamepaddisconnected", gamepadDisconnected);
+      window.removeEventListener("blur", autoPause);
+      document.removeEventListener("visibilitychange", autoPause);
     };
   }, []);
 
@@ -777,7 +1528,179 @@ export default function Home() {
     runtimeRef.current?.startGame();
   };
 
-  const hudSpeed = Math.max(0, Math.round(speed * 0.18));
+  const handleRespawn = () => {
+    runtimeRef.current?.respawn();
+  };
+
+  const handleWatchReplay = () => {
+    if (lastRun) {
+      runtimeRef.current?.startReplay(lastRun);
+    }
+  };
+
+  const handleTouchPress = useCallback((action: ControlAction) => {
+    runtimeRef.current?.pressAction(action);
+  }, []);
+
+  const handleTouchRelease = useCallback((action: ControlAction) => {
+    runtimeRef.current?.releaseAction(action);
+  }, []);
+
+  const handleScoreSubmitted = (name: string) => {
+    const runtime = runtimeRef.current;
+    if (runtime) {
+      runtime.commitSave({ ...runtime.save, playerName: name });
+    }
+    setLeaderboardKey((key) => key + 1);
+  };
+
+  const handleBindingsChange = useCallback((bindings: KeyBindings) => {
+    const runtime = runtimeRef.current;
+    if (runtime) {
+      runtime.commitSave({ ...runtime.save, keyBindings: bindings });
+    }
+  }, []);
+
+  const handleGamepadMappingChange = (id: string) => {
+    const runtime = runtimeRef.current;
+    if (runtime) {
+      runtime.commitSave({ ...runtime.save, gamepadMapping: id });
+    }
+  };
+
+  const handleAudioChange = (next: AudioSettings) => {
+    const runtime = runtimeRef.current;
+    if (runtime) {
+      runtime.commitSave({ ...runtime.save, audio: next });
+    }
+  };
+
+  const handleParticleQualityChange = (quality: ParticleQuality) => {
+    const runtime = runtimeRef.current;
+    if (runtime) {
+      runtime.commitSave({ ...runtime.save, particleQuality: quality });
+    }
+  };
+
+  const handleSelectVehicle = (next: VehicleId) => {
+    const runtime = runtimeRef.current;
+    if (!runtime) {
+      return;
+    }
+    runtime.commitSave({ ...runtime.save, vehicle: next });
+    if (runtime.status === "intro") {
+      // Swap the rider waiting at the start line.
+      runtime.resetGame("intro");
+    }
+  };
+
+  const handleShowOnline = () => {
+    const runtime = runtimeRef.current;
+    if (!runtime) {
+      return;
+    }
+    if (runtime.twoPlayer) {
+      runtime.setTwoPlayer(false);
+    }
+    runtime.connectNet();
+    runtime.setStatus("online");
+  };
+
+  const handleNetConnect = () => {
+    runtimeRef.current?.connectNet();
+  };
+
+  const handleNetCreate = (name: string) => {
+    const runtime = runtimeRef.current;
+    if (runtime?.net) {
+      runtime.commitSave({ ...runtime.save, playerName: name });
+      sendNetMessage(runtime.net, { type: "create", name });
+    }
+  };
+
+  const handleNetJoin = (room: string, name: string) => {
+    const runtime = runtimeRef.current;
+    if (runtime?.net) {
+      runtime.commitSave({ ...runtime.save, playerName: name });
+      sendNetMessage(runtime.net, { type: "join", room, name });
+    }
+  };
+
+  const handleNetLeave = () => {
+    const runtime = runtimeRef.current;
+    if (runtime?.net) {
+      leaveNetRoom(runtime.net);
+      setOnline(netView(runtime.net));
+    }
+  };
+
+  const handleToggleTwoPlayer = () => {
+    runtimeRef.current?.setTwoPlayer(!twoPlayer);
+  };
+
+  const handleShowSettings = () => {
+    setSettingsReturn(status);
+    runtimeRef.current?.setStatus("settings");
+  };
+
+  const handleCloseSettings = useCallback(() => {
+    runtimeRef.current?.setStatus(
+      settingsReturn === "paused" ? "paused" : "intro",
+    );
+  }, [settingsReturn]);
+
+  const handlePause = () => {
+    runtimeRef.current?.pause();
+  };
+
+  const handleResume = () => {
+    runtimeRef.current?.resume();
+  };
+
+  const handleQuitToMenu = () => {
+    runtimeRef.current?.resetGame("intro");
+  };
+
+  const handleShowStats = () => {
+    runtimeRef.current?.setStatus("stats");
+  };
+
+  const handleShowLevels = () => {
+    runtimeRef.current?.setStatus("levelSelect");
+  };
+
+  const handleShowGenerator = () => {
+    runtimeRef.current?.setStatus("generator");
+  };
+
+  const handlePlayCourse = (seed: string, difficulty: Difficulty) => {
+    runtimeRef.current?.playCourse(generateCourse(seed, difficulty));
+  };
+
+  const handleBackToIntro = useCallback(() => {
+    runtimeRef.current?.setStatus("intro");
+  }, []);
+
+  const handleSelectLevel = (index: number) => {
+    runtimeRef.current?.selectLevel(index);
+  };
+
+  const handleNextLevel = () => {
+    runtimeRef.current?.selectLevel(levelIndex + 1);
+  };
+
+  const currentLevel = course?.level ?? bundledLevels[levelIndex];
+  const records = campaign.records[vehicle];
+  const bestTime = records.bestTimes[currentLevel.id] ?? null;
+  const bestScore = records.bestScores[currentLevel.id] ?? null;
+  const room = online?.room ?? null;
+  const hosting = room !== null && online?.you === online?.host;
+  const canRespawn = status === "crashed" && checkpoint !== null && room === null;
+  const hasNextLevel =
+    course === null &&
+    levelIndex + 1 < bundledLevels.length &&
+    isLevelUnlocked(campaign, levelIndex + 1);
+  const hudSpeed = Math.max(0, Math.round(speed * SPEED_TO_MPH));
 
   return (
     <div className={styles.page}>
@@ -788,84 +1711,623 @@ export default function Home() {
             <div className={styles.stat}>
               <span className={styles.statLabel}>Time</span>
               <span className={styles.statValue}>
-                {status === "playing" || status === "won"
+                {isSimulating(status) || status === "paused" || status === "won"
                   ? `${elapsed.toFixed(2)}s`
                   : "--"}
               </span>
             </div>
             <div className={styles.stat}>
-              <span className={styles.statLabel}>Course</span>
+              <span className={styles.statLabel}>
+                {course ? "Seed" : "Level"}
+              </span>
+              <span className={styles.statValue}>
+                {course
+                  ? `${course.seed} · ${course.difficulty}`
+                  : `${levelIndex + 1}/${bundledLevels.length}`}
+              </span>
+            </div>
+            {twoPlayer ? (
+              standings.map((standing) => (
+                <div key={standing.seat} className={styles.stat}>
+                  <span className={styles.statLabel}>
+                    {`Player ${standing.seat + 1}`}
+                  </span>
+                  <span className={styles.statValue}>
+                    {standing.time !== null
+                      ? `${standing.time.toFixed(2)}s`
+                      : standing.outcome === "crashed"
+                        ? "Crashed"
+                        : `${Math.round(standing.progress)}%`}
+                  </span>
+                </div>
+              ))
+            ) : (
+              <div className={styles.stat}>
+                <span className={styles.statLabel}>Course</span>
+                <span className={styles.statValue}>
+                  {`${Math.round(progress)}%`}
+                </span>
+              </div>
+            )}
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Vehicle</span>
               <span className={styles.statValue}>
-                {`${Math.round(progress)}%`}
+                {vehicleFor(vehicle).label}
               </span>
             </div>
             <div className={styles.stat}>
               <span className={styles.statLabel}>Speed</span>
               <span className={styles.statValue}>{`${hudSpeed} mph`}</span>
             </div>
-            {bestTime !== null && (
+            {!twoPlayer && (
+              <div className={styles.stat}>
+                <span className={styles.statLabel}>Score</span>
+                <span className={styles.statValue}>
+                  {isSimulating(status) || status === "paused" || status === "won"
+                    ? score
+                    : "--"}
+                </span>
+              </div>
+            )}
+            {!twoPlayer && currentLevel.checkpoints.length > 0 && (
               <div className={styles.stat}>
+                <span className={styles.statLabel}>Checkpoint</span>
+                <span className={styles.statValue}>
+                  {`${checkpoint === null ? 0 : checkpoint.index + 1}/${
+                    currentLevel.checkpoints.length
+                  }`}
+                </span>
+              </div>
+            )}
+            {!twoPlayer && bestTime !== null && (
+              <div
+                className={styles.stat}
+                title={
+                  isCheckpointBest(campaign, vehicle, currentLevel.id)
+                    ? "Set using checkpoints"
+                    : undefined
+                }
+              >
                 <span className={styles.statLabel}>Best</span>
                 <span className={styles.statValue}>
-                  {`${bestTime.toFixed(2)}s`}
+                  {`${bestTime.toFixed(2)}s${
+                    isCheckpointBest(campaign, vehicle, currentLevel.id) ? " ⚑" : ""
+                  }`}
                 </span>
               </div>
             )}
+            {!twoPlayer && bestScore !== null && (
+              <div className={styles.stat}>
+                <span className={styles.statLabel}>Top Score</span>
+                <span className={styles.statValue}>{bestScore}</span>
+              </div>
+            )}
+            {room !== null && (
+              <div className={styles.stat}>
+                <span className={styles.statLabel}>Room</span>
+                <span className={styles.statValue}>{room}</span>
+              </div>
+            )}
+            {status === "replaying" && (
+              <div className={styles.stat}>
+                <span className={styles.statLabel}>Mode</span>
+                <span className={styles.statValue}>Replay</span>
+              </div>
+            )}
+            {gamepadName !== null && (
+              <div className={styles.stat} title={gamepadName}>
+                <span className={styles.statLabel}>Pad</span>
+                <span className={styles.statValue}>Connected</span>
+              </div>
+            )}
           </div>
 
+          {!isMenu(status) && (
+            <Leaderboard
+              levelId={currentLevel.id}
+              vehicle={vehicle}
+              refreshKey={leaderboardKey}
+            />
+          )}
+
+          {isSimulating(status) && <PauseButton onPause={handlePause} />}
+
+          {status === "countdown" && (
+            <div className={styles.statusPanel}>
+              <h1>{countdown}</h1>
+              <p>{`Get ready: ${currentLevel.name} starts for the whole room at once.`}</p>
+            </div>
+          )}
+
+          {status === "online" && (
+            <div className={styles.statusPanel}>
+              <h1>Online Race</h1>
+              <p>
+                Race friends on the same network. One of you creates a room and
+                shares its code; everyone else joins with it. Each of you rides
+                your own course, and the others show up as ghosts.
+              </p>
+              <NetLobby
+                view={online}
+                initialName={playerName}
+                courseName={currentLevel.name}
+                onConnect={handleNetConnect}
+                onCreate={handleNetCreate}
+                onJoin={handleNetJoin}
+                onLeave={handleNetLeave}
+                onStart={handleStart}
+              />
+              <div className={styles.buttons}>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleBackToIntro}
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
+          {status === "paused" && (
+            <div className={styles.statusPanel}>
+              <h1>Paused</h1>
+              <p>
+                {`The clock is stopped at ${elapsed.toFixed(
+                  2,
+                )}s. Press ${describePauseKeys(
+                  keyBindings,
+                )} to jump back in.`}
+              </p>
+              <div className={styles.buttons}>
+                <button
+                  type="button"
+                  className={styles.button}
+                  onClick={handleResume}
+                >
+                  Resume
+                </button>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleRestart}
+                >
+                  Restart
+                </button>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleShowSettings}
+                >
+                  Settings
+                </button>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleQuitToMenu}
+                >
+                  Quit to Menu
+                </button>
+              </div>
+            </div>
+          )}
+
           {(status === "intro" || status === "crashed" || status === "won") && (
             <div className={styles.statusPanel}>
               <h1>
                 {status === "intro" && "Pogo Stick Dash"}
                 {status === "crashed" && "Ouch! Try Again"}
-                {status === "won" && "Course Complete!"}
+                {status === "won" &&
+                  (raceResult !== null
+                    ? raceResult[0].time !== null
+                      ? `Player ${raceResult[0].seat + 1} Wins!`
+                      : "Nobody Finished"
+                    : `${currentLevel.name} Complete!`)}
               </h1>
               <p>
                 {status === "intro" &&
-                  "Bounce, balance, and launch your pogo stick hero across treacherous ramps and spike pits. Lean with the arrows, time your jumps, and stick the landing at the finish flag."}
+                  (twoPlayer
+                    ? "Two riders, one course, one keyboard. Player 1 leans with A and D and jumps with W; Player 2 uses the arrow keys. First to the flag wins, and a crash puts you out."
+                    : "Bounce, balance, and launch your pogo stick hero across treacherous ramps and spike pits. Lean with the arrows, time your jumps, and stick the landing at the finish flag.")}
                 {status === "crashed" &&
-                  "Your rider took a spill. Reset instantly and keep the momentum alive—master the lean and pogo timing to clear the obstacles."}
+                  (checkpoint !== null
+                    ? `Your rider took a spill. Respawn at checkpoint ${
+                        checkpoint.index + 1
+                      } with the clock back at ${checkpoint.time.toFixed(
+                        2,
+                      )}s, or start the course over. Runs that respawn are marked ⚑ in your records.`
+                    : "Your rider took a spill. Reset instantly and keep the momentum alive—master the lean and pogo timing to clear the obstacles.")}
+                {status === "won" &&
+                  raceResult !== null &&
+                  `Race over on ${currentLevel.name}. Races don't count toward your records.`}
                 {status === "won" &&
+                  raceResult === null &&
                   (finalTime !== null
-                    ? `You cleared the course in ${finalTime.toFixed(
-                        2,
-                      )} seconds. See if you can shave off a few more and set an unbeatable record!`
+                    ? usedCheckpoints
+                      ? `You cleared ${currentLevel.name} in ${finalTime.toFixed(
+                          2,
+                        )} seconds using checkpoints. Make it in one go for a clean record and a spot on the leaderboard!`
+                      : `You cleared ${currentLevel.name} in ${finalTime.toFixed(
+                          2,
+                        )} seconds. See if you can shave off a few more and set an unbeatable record!`
                     : "You conquered the pogo gauntlet! Play again to chase an even faster run.")}
               </p>
+              {status === "crashed" && runTrace?.crash && (
+                <p>
+                  {`${describeCrash(runTrace.crash.cause)} at ${Math.round(
+                    courseFraction(currentLevel, runTrace.crash.x),
+                  )}% of the course.`}
+                </p>
+              )}
+              {status === "intro" && (
+                <VehicleSelect current={vehicle} onSelect={handleSelectVehicle} />
+              )}
+              {status === "won" && raceResult !== null && (
+                <RaceResults placements={raceResult} />
+              )}
+              {status === "intro" && room !== null && (
+                <p>
+                  {hosting
+                    ? `You're hosting room ${room}. Start the race when everyone is in and the whole room counts down together.`
+                    : `You're in room ${room}. The race starts when the host is ready.`}
+                </p>
+              )}
+              {status !== "intro" &&
+                online !== null &&
+                room !== null &&
+                online.standings.length > 0 && (
+                  <NetStandings
+                    standings={online.standings}
+                    riders={online.riders}
+                    you={online.you}
+                    complete={online.standingsComplete}
+                  />
+                )}
+              {status === "won" && raceResult === null && finalScore !== null && (
+                <p>
+                  {`Trick score: ${finalScore}${
+                    bestScore !== null && finalScore >= bestScore && finalScore > 0
+                      ? " — a new top score!"
+                      : bestScore !== null
+                        ? ` (top score ${bestScore})`
+                        : ""
+                  }`}
+                </p>
+              )}
+              {status === "won" &&
+                raceResult === null &&
+                !usedCheckpoints &&
+                lastRun !== null &&
+                lastRun.outcome === "won" &&
+                lastRun.levelId === currentLevel.id && (
+                  <ScoreSubmit
+                    key={`${lastRun.levelId}:${lastRun.ticks}:${history.length}`}
+                    recording={lastRun}
+                    initialName={playerName}
+                    onSubmitted={handleScoreSubmitted}
+                  />
+                )}
+              {status !== "intro" && raceResult === null && runTrace !== null && (
+                <RunAnalysis level={currentLevel} trace={runTrace} />
+              )}
               <div className={styles.buttons}>
+                {canRespawn && (
+                  <button
+                    type="button"
+                    className={styles.button}
+                    onClick={handleRespawn}
+                  >
+                    {keyBindings.restart.length > 0
+                      ? `Respawn at Checkpoint (${describeBinding(
+                          keyBindings,
+                          "restart",
+                        )})`
+                      : "Respawn at Checkpoint"}
+                  </button>
+                )}
+                {status === "won" && hasNextLevel && (
+                  <button
+                    type="button"
+                    className={styles.button}
+                    onClick={handleNextLevel}
+                  >
+                    Next Level
+                  </button>
+                )}
+                {(room === null || hosting) && (
+                  <button
+                    type="button"
+                    className={
+                      (status === "won" && hasNextLevel) || canRespawn
+                        ? `${styles.button} ${styles.secondary}`
+                        : styles.button
+                    }
+                    onClick={handleStart}
+                  >
+                    {room !== null
+                      ? status === "intro"
+                        ? "Start Race"
+                        : "Race Again"
+                      : status === "intro"
+                        ? twoPlayer
+                          ? "Start Race"
+                          : "Start Run"
+                        : canRespawn
+                          ? "Full Restart"
+                          : "Play Again"}
+                  </button>
+                )}
+                {status !== "intro" &&
+                  raceResult === null &&
+                  lastRun !== null &&
+                  lastRun.levelId === currentLevel.id && (
+                    <button
+                      type="button"
+                      className={`${styles.button} ${styles.secondary}`}
+                      onClick={handleWatchReplay}
+                    >
+                      Watch Replay
+                    </button>
+                  )}
                 <button
                   type="button"
-                  className={styles.button}
-                  onClick={handleStart}
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleShowLevels}
                 >
-                  {status === "intro" ? "Start Run" : "Play Again"}
+                  Courses
                 </button>
                 <button
                   type="button"
                   className={`${styles.button} ${styles.secondary}`}
-                  onClick={handleRestart}
+                  onClick={handleShowGenerator}
                 >
-                  Reset (R)
+                  {course ? "Generator" : "Random Course"}
                 </button>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleShowStats}
+                >
+                  Stats
+                </button>
+                {!canRespawn && (
+                  <button
+                    type="button"
+                    className={`${styles.button} ${styles.secondary}`}
+                    onClick={handleRestart}
+                  >
+                    {keyBindings.restart.length > 0
+                      ? `Reset (${describeBinding(keyBindings, "restart")})`
+                      : "Reset"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleShowSettings}
+                >
+                  Settings
+                </button>
+                {status === "intro" && room === null && (
+                  <button
+                    type="button"
+                    className={`${styles.button} ${styles.secondary}`}
+                    aria-pressed={twoPlayer}
+                    onClick={handleToggleTwoPlayer}
+                  >
+                    {twoPlayer ? "Solo Run" : "2-Player Race"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleShowOnline}
+                >
+                  {room !== null ? `Room ${room}` : "Online Race"}
+                </button>
+                {status === "intro" && (
+                  <Link
+                    href="/editor"
+                    className={`${styles.button} ${styles.secondary}`}
+                  >
+                    Level Editor
+                  </Link>
+                )}
               </div>
             </div>
           )}
 
-          <div className={styles.instructions}>
-            Controls:
-            {" "}
-            <strong>Arrow keys / A D</strong>
-            {" "}
-            lean ·
-            {" "}
-            <strong>Space / W / Up</strong>
-            {" "}
-            pogo jump ·
-            {" "}
-            <strong>R</strong>
-            {" "}
-            reset
-          </div>
+          {status === "stats" && (
+            <div className={styles.statusPanel}>
+              <h1>Your Runs</h1>
+              <RunStats
+                levels={bundledLevels}
+                campaign={campaign}
+                history={history}
+              />
+              <div className={styles.buttons}>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleBackToIntro}
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
+          {status === "settings" && (
+            <div className={styles.statusPanel}>
+              <h1>Settings</h1>
+              <p>
+                Click a key to unbind it, or <strong>+ Add</strong> and press
+                the key you want. Changes are saved right away.
+              </p>
+              <Settings
+                bindings={keyBindings}
+                gamepadMappingId={gamepadMappingId}
+                onBindingsChange={handleBindingsChange}
+                onGamepadMappingChange={handleGamepadMappingChange}
+                audio={audio}
+                onAudioChange={handleAudioChange}
+                particleQuality={particleQuality}
+                onParticleQualityChange={handleParticleQualityChange}
+                onClose={handleCloseSettings}
+              />
+              <div className={styles.buttons}>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleCloseSettings}
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
+          {status === "generator" && (
+            <div className={styles.statusPanel}>
+              <h1>Random Course</h1>
+              <p>
+                Every seed grows its own course, checked to be finishable with
+                a steady pogo jump. Share the link and your teammates race the
+                very same one. Generated courses don&apos;t count toward the
+                campaign.
+              </p>
+              <CourseGenerator course={course} onPlay={handlePlayCourse} />
+              <div className={styles.buttons}>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleBackToIntro}
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
+          {status === "levelSelect" && (
+            <div className={styles.statusPanel}>
+              <h1>Choose a Course</h1>
+              <p>
+                Clear a course to unlock the next one. Best times are tracked
+                for every course you finish, separately for each vehicle.
+              </p>
+              <LevelSelect
+                levels={bundledLevels}
+                progress={campaign}
+                vehicle={vehicle}
+                currentIndex={levelIndex}
+                onSelect={handleSelectLevel}
+              />
+              <div className={styles.buttons}>
+                <button
+                  type="button"
+                  className={`${styles.button} ${styles.secondary}`}
+                  onClick={handleBackToIntro}
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isTouch && !isMenu(status) && (
+            <TouchControls
+              onPress={handleTouchPress}
+              onRelease={handleTouchRelease}
+            />
+          )}
+
+          {isTouch ? (
+            <div className={styles.instructions}>
+              Controls:
+              {" "}
+              <strong>◀ ▶</strong>
+              {" "}
+              lean (or turn on tilt) ·
+              {" "}
+              <strong>JUMP</strong>
+              {" "}
+              or swipe up to pogo
+            </div>
+          ) : twoPlayer ? (
+            <div className={styles.instructions}>
+              {racerKeys.map((keys, seat) => (
+                <span key={seat}>
+                  {`Player ${seat + 1}: `}
+                  <strong>{`${describeKey(keys.left)} ${describeKey(keys.right)}`}</strong>
+                  {" "}
+                  lean ·
+                  {" "}
+                  <strong>{describeKey(keys.jump)}</strong>
+                  {" "}
+                  jump ·
+                  {" "}
+                </span>
+              ))}
+              <strong>{describeBinding(keyBindings, "restart")}</strong>
+              {" "}
+              restart ·
+              {" "}
+              <strong>
+                {describePauseKeys(keyBindings)}
+              </strong>
+              {" "}
+              pause
+            </div>
+          ) : (
+            <div className={styles.instructions}>
+              Controls:
+              {" "}
+              <strong>{describeBinding(keyBindings, "left")}</strong>
+              {" "}
+              lean back ·
+              {" "}
+              <strong>{describeBinding(keyBindings, "right")}</strong>
+              {" "}
+              lean forward ·
+              {" "}
+              <strong>{describeBinding(keyBindings, "jump")}</strong>
+              {" "}
+              pogo jump ·
+              {" "}
+              <strong>{describeBinding(keyBindings, "restart")}</strong>
+              {" "}
+              {currentLevel.checkpoints.length > 0
+                ? "reset (respawn after a crash)"
+                : "reset"}
+              {" "}
+              ·
+              {" "}
+              <strong>
+                {describePauseKeys(keyBindings)}
+              </strong>
+              {" "}
+              pause
+              {gamepadName !== null && (
+                <>
+                  {" "}
+                  · Gamepad:
+                  {" "}
+                  <strong>stick</strong>
+                  {" "}
+                  lean ·
+                  {" "}
+                  <strong>Start</strong>
+                  {" "}
+                  play ·
+                  {" "}
+                  <strong>Select / Y</strong>
+                  {" "}
+                  reset
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import {
+  courseQuery,
+  difficulties,
+  normalizeSeed,
+  randomSeed,
+  type Difficulty,
+  type GeneratedCourse,
+} from "../game/generator";
+import styles from "./CourseGenerator.module.css";
+
+interface CourseGeneratorProps {
+  /** The generated course currently loaded, if any; its link is offered for sharing. */
+  course: GeneratedCourse | null;
+  onPlay: (seed: string, difficulty: Difficulty) => void;
+}
+
+const difficultyLabels: Record<Difficulty, string> = {
+  easy: "Easy — gentle hills, few pits",
+  normal: "Normal",
+  hard: "Hard — steep, crowded, full of pits",
+};
+
+function shareLink(course: GeneratedCourse) {
+  const query = courseQuery(course.seed, course.difficulty);
+  if (typeof window === "undefined") {
+    return query;
+  }
+  return `${window.location.origin}${window.location.pathname}${query}`;
+}
+
+export default function CourseGenerator({ course, onPlay }: CourseGeneratorProps) {
+  const [seed, setSeed] = useState(() => course?.seed ?? randomSeed());
+  const [difficulty, setDifficulty] = useState<Difficulty>(
+    course?.difficulty ?? "normal",
+  );
+  const [copied, setCopied] = useState(false);
+  const normalized = normalizeSeed(seed);
+
+  const handleCopy = async () => {
+    if (!course) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(shareLink(course));
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className={styles.generator}>
+      <label className={styles.row}>
+        <span className={styles.label}>Seed</span>
+        <input
+          className={styles.input}
+          value={seed}
+          maxLength={24}
+          spellCheck={false}
+          onChange={(event) => setSeed(event.target.value)}
+          onKeyDown={(event) => event.stopPropagation()}
+        />
+        <button
+          type="button"
+          className={styles.small}
+          onClick={() => setSeed(randomSeed())}
+        >
+          New seed
+        </button>
+      </label>
+      <label className={styles.row}>
+        <span className={styles.label}>Difficulty</span>
+        <select
+          className={styles.input}
+          value={difficulty}
+          onChange={(event) => setDifficulty(event.target.value as Difficulty)}
+        >
+          {difficulties.map((option) => (
+            <option key={option} value={option}>
+              {difficultyLabels[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {normalized === null && (
+        <p className={styles.error}>
+          Seeds are 1–24 letters, digits, or dashes.
+        </p>
+      )}
+      <button
+        type="button"
+        className={styles.play}
+        disabled={normalized === null}
+        onClick={() => {
+          if (normalized !== null) {
+            onPlay(normalized, difficulty);
+          }
+        }}
+      >
+        Play this course
+      </button>
+      {course !== null && (
+        <div className={styles.share}>
+          <span className={styles.label}>
+            {`Share "${course.seed}" (${course.difficulty})`}
+          </span>
+          <input className={styles.input} value={shareLink(course)} readOnly />
+          <button type="button" className={styles.small} onClick={handleCopy}>
+            {copied ? "Copied" : "Copy link"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { fetchTopScores, type LeaderboardEntry } from "../game/scoresApi";
+import { vehicleFor, type VehicleId } from "../game/vehicles";
+import styles from "./Leaderboard.module.css";
+
+interface LeaderboardProps {
+  levelId: string;
+  /** Whose board to show: times on each vehicle are ranked separately. */
+  vehicle: VehicleId;
+  /** Bump to refetch, e.g. after a submission. */
+  refreshKey: number;
+}
+
+type BoardState =
+  | { key: string; scores: LeaderboardEntry[] }
+  | { key: string; error: true };
+
+const SHOWN = 5;
+
+export default function Leaderboard({
+  levelId,
+  vehicle,
+  refreshKey,
+}: LeaderboardProps) {
+  const requestKey = `${levelId}:${vehicle}:${refreshKey}`;
+  const [board, setBoard] = useState<BoardState | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTopScores(levelId, vehicle, SHOWN, controller.signal)
+      .then((scores) => setBoard({ key: requestKey, scores }))
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setBoard({ key: requestKey, error: true });
+        }
+      });
+    return () => controller.abort();
+  }, [levelId, vehicle, requestKey]);
+
+  const isCurrent = board !== null && board.key === requestKey;
+
+  return (
+    <div className={styles.leaderboard}>
+      <span className={styles.title}>
+        {`Leaderboard · ${vehicleFor(vehicle).label}`}
+      </span>
+      {!isCurrent && <span className={styles.note}>Loading…</span>}
+      {isCurrent && "error" in board && (
+        <span className={styles.note}>Offline</span>
+      )}
+      {isCurrent && "scores" in board && board.scores.length === 0 && (
+        <span className={styles.note}>No verified runs yet</span>
+      )}
+      {isCurrent && "scores" in board && board.scores.length > 0 && (
+        <ol className={styles.list}>
+          {board.scores.map((entry) => (
+            <li key={entry.id}>
+              <span className={styles.name}>{entry.name}</span>
+              <span>{`${entry.time.toFixed(2)}s`}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import {
+  isCheckpointBest,
+  isLevelUnlocked,
+  type CampaignProgress,
+} from "../game/campaign";
+import type { LevelDefinition } from "../game/level";
+import type { VehicleId } from "../game/vehicles";
+import styles from "./LevelSelect.module.css";
+
+interface LevelSelectProps {
+  levels: LevelDefinition[];
+  progress: CampaignProgress;
+  /** Whose best times and scores to show. */
+  vehicle: VehicleId;
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+export default function LevelSelect({
+  levels,
+  progress,
+  vehicle,
+  currentIndex,
+  onSelect,
+}: LevelSelectProps) {
+  return (
+    <ol className={styles.levelList}>
+      {levels.map((level, index) => {
+        const unlocked = isLevelUnlocked(progress, index);
+        const best = progress.records[vehicle].bestTimes[level.id];
+        const bestScore = progress.records[vehicle].bestScores[level.id];
+        return (
+          <li key={level.id}>
+            <button
+              type="button"
+              className={`${styles.levelButton} ${
+                index === currentIndex ? styles.current : ""
+              }`}
+              disabled={!unlocked}
+              onClick={() => onSelect(index)}
+            >
+              <span className={styles.levelNumber}>{index + 1}</span>
+              <span className={styles.levelInfo}>
+                <span className={styles.levelName}>{level.name}</span>
+                <span className={styles.levelMeta}>
+                  {!unlocked
+                    ? "Locked — clear the previous course"
+                    : best !== undefined
+                      ? `Best ${best.toFixed(2)}s${
+                          isCheckpointBest(progress, vehicle, level.id)
+                            ? " ⚑ with checkpoints"
+                            : ""
+                        }${
+                          bestScore !== undefined ? ` · ${bestScore} pts` : ""
+                        }`
+                      : "Not yet cleared"}
+                </span>
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import {
+  MAX_RIDER_NAME_LENGTH,
+  normalizeRoomCode,
+  ROOM_CODE_LENGTH,
+} from "../game/netProtocol";
+import type { NetView } from "../game/netRace";
+import styles from "./NetLobby.module.css";
+
+interface NetLobbyProps {
+  view: NetView | null;
+  initialName: string;
+  /** Name of the course the host would start, shown to the host. */
+  courseName: string;
+  onConnect: () => void;
+  onCreate: (name: string) => void;
+  onJoin: (room: string, name: string) => void;
+  onLeave: () => void;
+  onStart: () => void;
+}
+
+export default function NetLobby({
+  view,
+  initialName,
+  courseName,
+  onConnect,
+  onCreate,
+  onJoin,
+  onLeave,
+  onStart,
+}: NetLobbyProps) {
+  const [name, setName] = useState(initialName);
+  const [code, setCode] = useState("");
+  const trimmed = name.trim();
+  const room = normalizeRoomCode(code);
+
+  if (view === null || view.status === "closed") {
+    return (
+      <div className={styles.lobby}>
+        {view !== null && (
+          <p className={styles.error}>
+            Couldn&apos;t reach the race relay. Is it running on this network?
+          </p>
+        )}
+        <button type="button" className={styles.primary} onClick={onConnect}>
+          {view === null ? "Connect" : "Try again"}
+        </button>
+      </div>
+    );
+  }
+
+  if (view.status === "connecting") {
+    return <p className={styles.note}>Connecting to the race relay…</p>;
+  }
+
+  if (view.room === null) {
+    return (
+      <div className={styles.lobby}>
+        <label className={styles.row}>
+          <span className={styles.label}>Name</span>
+          <input
+            className={styles.input}
+            value={name}
+            maxLength={MAX_RIDER_NAME_LENGTH}
+            placeholder="Your name"
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => event.stopPropagation()}
+          />
+        </label>
+        <button
+          type="button"
+          className={styles.primary}
+          disabled={trimmed === ""}
+          onClick={() => onCreate(trimmed)}
+        >
+          Create a room
+        </button>
+        <div className={styles.row}>
+          <input
+            className={`${styles.input} ${styles.code}`}
+            value={code}
+            maxLength={ROOM_CODE_LENGTH}
+            placeholder="CODE"
+            spellCheck={false}
+            onChange={(event) => setCode(event.target.value.toUpperCase())}
+            onKeyDown={(event) => event.stopPropagation()}
+          />
+          <button
+            type="button"
+            className={styles.small}
+            disabled={trimmed === "" || room === null}
+            onClick={() => {
+              if (room !== null) {
+                onJoin(room, trimmed);
+              }
+            }}
+          >
+            Join room
+          </button>
+        </div>
+        {view.error !== null && <p className={styles.error}>{view.error}</p>}
+      </div>
+    );
+  }
+
+  const hosting = view.you === view.host;
+  return (
+    <div className={styles.lobby}>
+      <p className={styles.roomCode}>
+        Room <strong>{view.room}</strong>
+      </p>
+      <ul className={styles.riders}>
+        {view.riders.map((rider) => (
+          <li key={rider.id}>
+            <span>{rider.name}</span>
+            <span className={styles.note}>
+              {[
+                rider.id === view.host ? "host" : null,
+                rider.id === view.you ? "you" : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {hosting ? (
+        <button type="button" className={styles.primary} onClick={onStart}>
+          {`Start the race on ${courseName}`}
+        </button>
+      ) : (
+        <p className={styles.note}>Waiting for the host to start the race…</p>
+      )}
+      <button type="button" className={styles.small} onClick={onLeave}>
+        Leave room
+      </button>
+      {view.error !== null && <p className={styles.error}>{view.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { NetRider, NetStanding } from "../game/netProtocol";
+import { FIXED_STEP } from "../game/physics";
+import styles from "./NetStandings.module.css";
+
+interface NetStandingsProps {
+  standings: NetStanding[];
+  /** Everyone in the room, so riders still on the course can be listed too. */
+  riders: NetRider[];
+  you: string | null;
+  /** False while some riders are still racing. */
+  complete: boolean;
+}
+
+export default function NetStandings({
+  standings,
+  riders,
+  you,
+  complete,
+}: NetStandingsProps) {
+  const racing = complete
+    ? []
+    : riders.filter(
+        (rider) => !standings.some((standing) => standing.rider === rider.id),
+      );
+  return (
+    <ol className={styles.standings}>
+      {standings.map((standing, place) => (
+        <li
+          key={standing.rider}
+          className={standing.rider === you ? styles.you : undefined}
+        >
+          <span className={styles.place}>{`${place + 1}.`}</span>
+          <span className={styles.name}>{standing.name}</span>
+          <span>
+            {standing.outcome === "won"
+              ? `${(standing.ticks * FIXED_STEP).toFixed(2)}s`
+              : `crashed at ${Math.round(standing.progress)}%`}
+          </span>
+        </li>
+      ))}
+      {racing.map((rider) => (
+        <li key={rider.id} className={styles.racing}>
+          <span className={styles.place}>–</span>
+          <span className={styles.name}>{rider.name}</span>
+          <span>still racing…</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,22 @@
+import styles from "./PauseButton.module.css";
+
+interface PauseButtonProps {
+  onPause: () => void;
+}
+
+export default function PauseButton({ onPause }: PauseButtonProps) {
+  return (
+    <button
+      type="button"
+      className={styles.pause}
+      aria-label="Pause"
+      onClick={(event) => {
+        // Drop focus so Space doesn't re-press the button after resuming.
+        event.currentTarget.blur();
+        onPause();
+      }}
+    >
+      ❚❚
+    </button>
+  );
+}
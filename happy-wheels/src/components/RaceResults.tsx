@@ -0,0 +1,46 @@
+import { winningGap, type RaceStanding } from "../game/race";
+import styles from "./RaceResults.module.css";
+
+interface RaceResultsProps {
+  placements: RaceStanding[];
+}
+
+const placeNames = ["1st", "2nd", "3rd", "4th"];
+
+function describeStanding(standing: RaceStanding) {
+  if (standing.time !== null) {
+    return `${standing.time.toFixed(2)}s`;
+  }
+  const reached = `${Math.round(standing.progress)}%`;
+  return standing.outcome === "crashed"
+    ? `crashed at ${reached}`
+    : `out of time at ${reached}`;
+}
+
+export default function RaceResults({ placements }: RaceResultsProps) {
+  const gap = winningGap(placements);
+  const [winner] = placements;
+  return (
+    <div className={styles.results}>
+      <ol className={styles.placements}>
+        {placements.map((standing, place) => (
+          <li
+            key={standing.seat}
+            className={standing.time === null ? styles.out : undefined}
+          >
+            <span className={styles.place}>{placeNames[place]}</span>
+            <span className={styles.name}>{`Player ${standing.seat + 1}`}</span>
+            <span>{describeStanding(standing)}</span>
+          </li>
+        ))}
+      </ol>
+      {gap !== null && (
+        <p className={styles.gap}>
+          {gap === 0
+            ? "A dead heat, to the tick!"
+            : `Player ${winner.seat + 1} won by ${gap.toFixed(2)}s.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import {
+  courseFraction,
+  speedByDistance,
+  SPEED_TO_MPH,
+  type RunTrace,
+} from "../game/analysis";
+import type { LevelDefinition, SurfacePoint } from "../game/level";
+import styles from "./RunAnalysis.module.css";
+
+interface RunAnalysisProps {
+  level: LevelDefinition;
+  trace: RunTrace;
+}
+
+/** Both charts are drawn in this many SVG units across and scaled to fit. */
+const CHART_WIDTH = 320;
+const MAP_HEIGHT = 96;
+const SPEED_HEIGHT = 72;
+const PADDING = 6;
+/** Stretches of course the speed chart is split into. */
+const SPEED_BUCKETS = 64;
+/** Most path points drawn on the map; longer runs are thinned evenly. */
+const MAX_PATH_POINTS = 600;
+
+interface Bounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+function courseBounds(level: LevelDefinition, trace: RunTrace): Bounds {
+  const xs = [level.start.x, level.finish.x];
+  const ys = [level.start.y];
+  for (const segment of level.terrain) {
+    xs.push(segment.startX, segment.endX);
+    ys.push(segment.startY, segment.endY);
+  }
+  for (const surface of level.surfaces) {
+    for (const point of surface.points) {
+      xs.push(point.x);
+      ys.push(point.y);
+    }
+  }
+  // Jumps can go above the course, but a fall below it is cut off at the edge.
+  let top = Math.min(...ys);
+  for (const point of trace.points) {
+    top = Math.min(top, point.y);
+  }
+  return {
+    left: Math.min(...xs),
+    right: Math.max(...xs),
+    top,
+    bottom: Math.max(...ys),
+  };
+}
+
+/** Maps world points into the map's SVG units, keeping the padding clear. */
+function projector(bounds: Bounds) {
+  const width = Math.max(bounds.right - bounds.left, 1);
+  const height = Math.max(bounds.bottom - bounds.top, 1);
+  return {
+    x: (x: number) =>
+      PADDING + ((x - bounds.left) / width) * (CHART_WIDTH - PADDING * 2),
+    y: (y: number) =>
+      PADDING + ((y - bounds.top) / height) * (MAP_HEIGHT - PADDING * 2),
+  };
+}
+
+function pointList(points: SurfacePoint[], project: ReturnType<typeof projector>) {
+  return points
+    .map((point) => `${project.x(point.x).toFixed(1)},${project.y(point.y).toFixed(1)}`)
+    .join(" ");
+}
+
+/** Solid stretches of the main ground, each filled down to the map's bottom. */
+function groundShapes(level: LevelDefinition, project: ReturnType<typeof projector>) {
+  const shapes: string[] = [];
+  let run: SurfacePoint[] = [];
+  const close = () => {
+    if (run.length > 0) {
+      const first = run[0];
+      const last = run[run.length - 1];
+      const outline = pointList(run, project);
+      shapes.push(
+        `${outline} ${project.x(last.x).toFixed(1)},${MAP_HEIGHT} ${project
+          .x(first.x)
+          .toFixed(1)},${MAP_HEIGHT}`,
+      );
+    }
+    run = [];
+  };
+  for (const segment of level.terrain) {
+    if (segment.gap) {
+      close();
+      continue;
+    }
+    if (run.length === 0) {
+      run.push({ x: segment.startX, y: segment.startY });
+    }
+    run.push({ x: segment.endX, y: segment.endY });
+  }
+  close();
+  return shapes;
+}
+
+function thinPath(trace: RunTrace) {
+  const step = Math.ceil(trace.points.length / MAX_PATH_POINTS);
+  return trace.points.filter(
+    (_point, index) => index % step === 0 || index === trace.points.length - 1,
+  );
+}
+
+/**
+ * The post-run breakdown: a mini-map of the course with the path the rider
+ * took and where they crashed, and their top speed along the course.
+ */
+export default function RunAnalysis({ level, trace }: RunAnalysisProps) {
+  const project = projector(courseBounds(level, trace));
+  const { crash } = trace;
+
+  const speeds = speedByDistance(trace, level, SPEED_BUCKETS).map((speed) =>
+    speed === null ? null : speed * SPEED_TO_MPH,
+  );
+  const topSpeed = Math.max(1, ...speeds.map((speed) => speed ?? 0));
+  const chartX = (fraction: number) =>
+    PADDING + (fraction / 100) * (CHART_WIDTH - PADDING * 2);
+  const chartY = (speed: number) =>
+    SPEED_HEIGHT - PADDING - (speed / topSpeed) * (SPEED_HEIGHT - PADDING * 2);
+  const speedLine = speeds
+    .map((speed, bucket) =>
+      speed === null
+        ? null
+        : `${chartX(((bucket + 0.5) / SPEED_BUCKETS) * 100).toFixed(1)},${chartY(
+            speed,
+          ).toFixed(1)}`,
+    )
+    .filter((point): point is string => point !== null)
+    .join(" ");
+
+  return (
+    <div className={styles.analysis}>
+      <figure>
+        <figcaption>Course map</figcaption>
+        <svg
+          className={styles.chart}
+          viewBox={`0 0 ${CHART_WIDTH} ${MAP_HEIGHT}`}
+          role="img"
+          aria-label="Mini-map of the course with the path of this run"
+        >
+          {groundShapes(level, project).map((shape, index) => (
+            <polygon key={index} className={styles.ground} points={shape} />
+          ))}
+          {level.surfaces.map((surface, index) =>
+            surface.closed ? (
+              <polygon
+                key={index}
+                className={styles.ground}
+                points={pointList(surface.points, project)}
+              />
+            ) : (
+              <polyline
+                key={index}
+                className={styles.surface}
+                points={pointList(surface.points, project)}
+              />
+            ),
+          )}
+          {level.checkpoints.map((checkpoint, index) => (
+            <line
+              key={index}
+              className={styles.checkpoint}
+              x1={project.x(checkpoint.x)}
+              x2={project.x(checkpoint.x)}
+              y1={0}
+              y2={MAP_HEIGHT}
+            />
+          ))}
+          <line
+            className={styles.finish}
+            x1={project.x(level.finish.x)}
+            x2={project.x(level.finish.x)}
+            y1={0}
+            y2={MAP_HEIGHT}
+          />
+          <polyline className={styles.path} points={pointList(thinPath(trace), project)} />
+          {crash && (
+            <g
+              className={styles.crash}
+              transform={`translate(${project.x(crash.x).toFixed(1)} ${project
+                .y(crash.y)
+                .toFixed(1)})`}
+            >
+              <circle r={5} />
+              <path d="M -3 -3 L 3 3 M -3 3 L 3 -3" />
+            </g>
+          )}
+        </svg>
+      </figure>
+      <figure>
+        <figcaption>
+          {`Speed over distance · top ${Math.round(topSpeed)} mph`}
+        </figcaption>
+        <svg
+          className={styles.chart}
+          viewBox={`0 0 ${CHART_WIDTH} ${SPEED_HEIGHT}`}
+          role="img"
+          aria-label="Top speed along the course"
+        >
+          <line
+            className={styles.axis}
+            x1={chartX(0)}
+            x2={chartX(100)}
+            y1={chartY(0)}
+            y2={chartY(0)}
+          />
+          <polyline className={styles.speed} points={speedLine} />
+          {crash && (
+            <line
+              className={styles.crashLine}
+              x1={chartX(courseFraction(level, crash.x))}
+              x2={chartX(courseFraction(level, crash.x))}
+              y1={0}
+              y2={SPEED_HEIGHT}
+            />
+          )}
+        </svg>
+        <div className={styles.scale}>
+          <span>Start</span>
+          <span>Finish</span>
+        </div>
+      </figure>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { isCheckpointBest, type CampaignProgress } from "../game/campaign";
+import type { LevelDefinition } from "../game/level";
+import { describeCrash } from "../game/physics";
+import type { RunHistoryEntry } from "../game/storage";
+import { vehicleIds, vehicles } from "../game/vehicles";
+import styles from "./RunStats.module.css";
+
+interface RunStatsProps {
+  levels: LevelDefinition[];
+  campaign: CampaignProgress;
+  history: RunHistoryEntry[];
+}
+
+const RECENT_RUNS_SHOWN = 8;
+
+function formatDate(iso: string) {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return "—";
+  }
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function RunStats({ levels, campaign, history }: RunStatsProps) {
+  const wins = history.filter((entry) => entry.outcome === "won").length;
+  const showLegend =
+    vehicleIds.some((id) => campaign.records[id].checkpointBests.length > 0) ||
+    history.some((entry) => entry.usedCheckpoints);
+  const levelName = (levelId: string) =>
+    levels.find((level) => level.id === levelId)?.name ?? levelId;
+
+  return (
+    <div className={styles.stats}>
+      <dl className={styles.totals}>
+        <div>
+          <dt>Runs</dt>
+          <dd>{history.length}</dd>
+        </div>
+        <div>
+          <dt>Finishes</dt>
+          <dd>{wins}</dd>
+        </div>
+        <div>
+          <dt>Crashes</dt>
+          <dd>{history.length - wins}</dd>
+        </div>
+      </dl>
+
+      {vehicleIds.map((vehicle) => (
+        <section key={vehicle}>
+          <h2>{`Best times · ${vehicles[vehicle].label}`}</h2>
+          <ul className={styles.list}>
+            {levels.map((level) => {
+              const best = campaign.records[vehicle].bestTimes[level.id];
+              const bestScore = campaign.records[vehicle].bestScores[level.id];
+              return (
+                <li key={level.id}>
+                  <span>{level.name}</span>
+                  <span>
+                    {best !== undefined
+                      ? `${best.toFixed(2)}s${
+                          isCheckpointBest(campaign, vehicle, level.id) ? " ⚑" : ""
+                        }${bestScore !== undefined ? ` · ${bestScore} pts` : ""}`
+                      : "--"}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+
+      <h2>Recent runs</h2>
+      {history.length === 0 ? (
+        <p className={styles.empty}>No runs yet. Go bounce something!</p>
+      ) : (
+        <ul className={styles.list}>
+          {history.slice(0, RECENT_RUNS_SHOWN).map((entry, index) => (
+            <li key={`${entry.date}-${index}`}>
+              <span>
+                {entry.outcome === "won" ? "🏁" : "💥"} {levelName(entry.levelId)}
+                {` · ${vehicles[entry.vehicle].label}`}
+              </span>
+              <span>
+                {entry.outcome === "won"
+                  ? `${entry.time.toFixed(2)}s`
+                  : `${Math.round(entry.maxProgress)}%`}
+                {entry.crash &&
+                  ` · ${describeCrash(entry.crash.cause).toLowerCase()}`}
+                {entry.usedCheckpoints && " ⚑"}
+                {" · "}
+                {formatDate(entry.date)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {showLegend && (
+        <p className={styles.legend}>⚑ respawned at a checkpoint</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, type FormEvent } from "react";
+import type { RunRecording } from "../game/replay";
+import { submitScore } from "../game/scoresApi";
+import styles from "./ScoreSubmit.module.css";
+
+interface ScoreSubmitProps {
+  recording: RunRecording;
+  initialName: string;
+  onSubmitted: (name: string) => void;
+}
+
+type SubmitState =
+  | { phase: "idle" }
+  | { phase: "sending" }
+  | { phase: "accepted"; rank: number }
+  | { phase: "rejected"; error: string };
+
+export default function ScoreSubmit({
+  recording,
+  initialName,
+  onSubmitted,
+}: ScoreSubmitProps) {
+  const [name, setName] = useState(initialName);
+  const [state, setState] = useState<SubmitState>({ phase: "idle" });
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      return;
+    }
+    setState({ phase: "sending" });
+    const result = await submitScore(trimmed, recording);
+    if (result.ok) {
+      setState({ phase: "accepted", rank: result.rank });
+      onSubmitted(trimmed);
+    } else {
+      setState({ phase: "rejected", error: result.error });
+    }
+  };
+
+  if (state.phase === "accepted") {
+    return (
+      <p className={styles.message}>
+        Verified and posted — you&apos;re #{state.rank} on this course.
+      </p>
+    );
+  }
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit}>
+      <input
+        className={styles.input}
+        value={name}
+        maxLength={24}
+        placeholder="Your name"
+        onChange={(event) => setName(event.target.value)}
+        onKeyDown={(event) => event.stopPropagation()}
+      />
+      <button
+        type="submit"
+        className={styles.submit}
+        disabled={state.phase === "sending" || name.trim() === ""}
+      >
+        {state.phase === "sending" ? "Verifying…" : "Submit time"}
+      </button>
+      {state.phase === "rejected" && (
+        <p className={styles.error}>{state.error}</p>
+      )}
+    </form>
+  );
+}
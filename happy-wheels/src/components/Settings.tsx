@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import type { AudioSettings } from "../game/audio";
+import { gamepadPresets } from "../game/gamepad";
+import {
+  bindKey,
+  createKeyBindings,
+  describeKey,
+  keyActionLabels,
+  keyActions,
+  MAX_KEYS_PER_ACTION,
+  reassignKey,
+  unbindKey,
+  type KeyAction,
+  type KeyBindings,
+} from "../game/keybindings";
+import {
+  particleQualities,
+  particleQualityLabels,
+  type ParticleQuality,
+} from "../game/particles";
+import styles from "./Settings.module.css";
+
+interface SettingsProps {
+  bindings: KeyBindings;
+  gamepadMappingId: string;
+  onBindingsChange: (bindings: KeyBindings) => void;
+  onGamepadMappingChange: (id: string) => void;
+  audio: AudioSettings;
+  onAudioChange: (audio: AudioSettings) => void;
+  particleQuality: ParticleQuality;
+  onParticleQualityChange: (quality: ParticleQuality) => void;
+  onClose: () => void;
+}
+
+interface Conflict {
+  action: KeyAction;
+  owner: KeyAction;
+  code: string;
+}
+
+/** The rider needs at least one key for each of these. */
+const requiredActions = new Set<KeyAction>(["left", "right", "jump"]);
+
+export default function Settings({
+  bindings,
+  gamepadMappingId,
+  onBindingsChange,
+  onGamepadMappingChange,
+  audio,
+  onAudioChange,
+  particleQuality,
+  onParticleQualityChange,
+  onClose,
+}: SettingsProps) {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Listen in the capture phase so the game never sees the key being bound.
+    const keyDown = (event: KeyboardEvent) => {
+      if (capturing === null) {
+        if (event.code === "Escape") {
+          // Keep the game from treating the same Escape as "resume".
+          event.preventDefault();
+          event.stopPropagation();
+          onClose();
+        }
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      setCapturing(null);
+      if (event.code === "Escape") {
+        return;
+      }
+      const result = bindKey(bindings, capturing, event.code);
+      if (result.ok) {
+        onBindingsChange(result.bindings);
+      } else if (result.reason === "conflict") {
+        setConflict({
+          action: capturing,
+          owner: result.action,
+          code: event.code,
+        });
+      } else if (result.reason === "reserved") {
+        setNotice(`${describeKey(event.code)} can't be rebound.`);
+      } else {
+        setNotice(
+          `${keyActionLabels[capturing]} already has ${MAX_KEYS_PER_ACTION} keys — remove one first.`,
+        );
+      }
+    };
+    window.addEventListener("keydown", keyDown, true);
+    return () => window.removeEventListener("keydown", keyDown, true);
+  }, [capturing, bindings, onBindingsChange, onClose]);
+
+  const startCapture = (action: KeyAction) => {
+    setConflict(null);
+    setNotice(null);
+    setCapturing(action);
+  };
+
+  const handleRemove = (code: string) => {
+    setConflict(null);
+    setNotice(null);
+    onBindingsChange(unbindKey(bindings, code));
+  };
+
+  // Moving a key must not leave the rider without a way to lean or jump.
+  const canReassign =
+    conflict !== null &&
+    !(
+      requiredActions.has(conflict.owner) &&
+      bindings[conflict.owner].length === 1
+    );
+
+  const handleReassign = () => {
+    if (conflict) {
+      onBindingsChange(reassignKey(bindings, conflict.action, conflict.code));
+      setConflict(null);
+    }
+  };
+
+  const handleReset = () => {
+    setConflict(null);
+    setNotice(null);
+    setCapturing(null);
+    onBindingsChange(createKeyBindings());
+  };
+
+  return (
+    <div className={styles.settings}>
+      <ul className={styles.bindingList}>
+        {keyActions.map((action) => {
+          const keys = bindings[action];
+          const locked = requiredActions.has(action) && keys.length === 1;
+          return (
+            <li key={action} className={styles.bindingRow}>
+              <span className={styles.actionLabel}>
+                {keyActionLabels[action]}
+              </span>
+              <span className={styles.keys}>
+                {keys.map((code) => (
+                  <button
+                    key={code}
+                    type="button"
+                    className={styles.key}
+                    disabled={locked}
+                    title={locked ? "Needs at least one key" : "Remove"}
+                    onClick={() => handleRemove(code)}
+                  >
+                    {describeKey(code)}
+                    {!locked && <span aria-hidden="true"> ×</span>}
+                  </button>
+                ))}
+                {keys.length < MAX_KEYS_PER_ACTION && (
+                  <button
+                    type="button"
+                    className={`${styles.key} ${styles.add} ${
+                      capturing === action ? styles.capturing : ""
+                    }`}
+                    onClick={(event) => {
+                      // Otherwise Space/Enter would re-press this button.
+                      event.currentTarget.blur();
+                      startCapture(action);
+                    }}
+                  >
+                    {capturing === action ? "Press a key…" : "+ Add"}
+                  </button>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {conflict && (
+        <p className={styles.notice}>
+          {`${describeKey(conflict.code)} is already bound to ${
+            keyActionLabels[conflict.owner]
+          }. `}
+          {canReassign && (
+            <>
+              <button
+                type="button"
+                className={styles.inline}
+                onClick={handleReassign}
+              >
+                {`Move it to ${keyActionLabels[conflict.action]}`}
+              </button>
+              {" "}
+            </>
+          )}
+          <button
+            type="button"
+            className={styles.inline}
+            onClick={() => setConflict(null)}
+          >
+            Keep it
+          </button>
+        </p>
+      )}
+      {notice && <p className={styles.notice}>{notice}</p>}
+
+      <label className={styles.gamepadRow}>
+        <span className={styles.actionLabel}>Gamepad layout</span>
+        <select
+          className={styles.select}
+          value={gamepadMappingId}
+          onChange={(event) => onGamepadMappingChange(event.target.value)}
+        >
+          {gamepadPresets.map((mapping) => (
+            <option key={mapping.id} value={mapping.id}>
+              {mapping.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.gamepadRow}>
+        <span className={styles.actionLabel}>Volume</span>
+        <input
+          type="range"
+          className={styles.slider}
+          min={0}
+          max={100}
+          value={Math.round(audio.volume * 100)}
+          disabled={audio.muted}
+          onChange={(event) =>
+            onAudioChange({ ...audio, volume: Number(event.target.value) / 100 })
+          }
+        />
+      </label>
+      <label className={styles.gamepadRow}>
+        <span className={styles.actionLabel}>Mute all sound</span>
+        <input
+          type="checkbox"
+          checked={audio.muted}
+          onChange={(event) =>
+            onAudioChange({ ...audio, muted: event.target.checked })
+          }
+        />
+      </label>
+      <label className={styles.gamepadRow}>
+        <span className={styles.actionLabel}>Effects quality</span>
+        <select
+          className={styles.select}
+          value={particleQuality}
+          onChange={(event) =>
+            onParticleQualityChange(event.target.value as ParticleQuality)
+          }
+        >
+          {particleQualities.map((quality) => (
+            <option key={quality} value={quality}>
+              {particleQualityLabels[quality]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button type="button" className={styles.inline} onClick={handleReset}>
+        Restore default keys
+      </button>
+    </div>
+  );
+}
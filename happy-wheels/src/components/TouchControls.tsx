@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import type { ControlAction } from "../game/controls";
+import styles from "./TouchControls.module.css";
+
+interface TouchControlsProps {
+  onPress: (action: ControlAction) => void;
+  onRelease: (action: ControlAction) => void;
+}
+
+/** Degrees of sideways tilt before the rider starts leaning. */
+const TILT_THRESHOLD = 12;
+
+type OrientationPermission = () => Promise<"granted" | "denied">;
+
+function tiltAngle(event: DeviceOrientationEvent) {
+  const angle = screen.orientation?.angle ?? 0;
+  if (angle === 90) {
+    return event.beta ?? 0;
+  }
+  if (angle === 270 || angle === -90) {
+    return -(event.beta ?? 0);
+  }
+  return event.gamma ?? 0;
+}
+
+export default function TouchControls({
+  onPress,
+  onRelease,
+}: TouchControlsProps) {
+  // Fingers currently holding each button, so two thumbs on one button (or a
+  // finger sliding off) never releases it early.
+  const activePointers = useRef<Record<ControlAction, Set<number>>>({
+    left: new Set(),
+    right: new Set(),
+    jump: new Set(),
+  });
+  const [pressed, setPressed] = useState<Record<ControlAction, boolean>>({
+    left: false,
+    right: false,
+    jump: false,
+  });
+  const [tiltEnabled, setTiltEnabled] = useState(false);
+
+  const down = (action: ControlAction) => (event: PointerEvent) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const pointers = activePointers.current[action];
+    if (pointers.size === 0) {
+      onPress(action);
+      setPressed((prev) => ({ ...prev, [action]: true }));
+    }
+    pointers.add(event.pointerId);
+  };
+
+  const up = (action: ControlAction) => (event: PointerEvent) => {
+    const pointers = activePointers.current[action];
+    if (!pointers.delete(event.pointerId)) {
+      return;
+    }
+    if (pointers.size === 0) {
+      onRelease(action);
+      setPressed((prev) => ({ ...prev, [action]: false }));
+    }
+  };
+
+  useEffect(() => {
+    if (!tiltEnabled) {
+      return;
+    }
+    let leaning: "left" | "right" | null = null;
+    const lean = (next: "left" | "right" | null) => {
+      if (next === leaning) {
+        return;
+      }
+      if (leaning) {
+        onRelease(leaning);
+      }
+      if (next) {
+        onPress(next);
+      }
+      leaning = next;
+    };
+    const orientation = (event: DeviceOrientationEvent) => {
+      const angle = tiltAngle(event);
+      lean(
+        angle < -TILT_THRESHOLD
+          ? "left"
+          : angle > TILT_THRESHOLD
+            ? "right"
+            : null,
+      );
+    };
+    window.addEventListener("deviceorientation", orientation);
+    return () => {
+      window.removeEventListener("deviceorientation", orientation);
+      lean(null);
+    };
+  }, [tiltEnabled, onPress, onRelease]);
+
+  const toggleTilt = async () => {
+    if (tiltEnabled) {
+      setTiltEnabled(false);
+      return;
+    }
+    // iOS only delivers orientation events after an explicit permission
+    // prompt, which must come from a tap.
+    const requestPermission = (
+      DeviceOrientationEvent as unknown as {
+        requestPermission?: OrientationPermission;
+      }
+    ).requestPermission;
+    if (requestPermission && (await requestPermission()) !== "granted") {
+      return;
+    }
+    setTiltEnabled(true);
+  };
+
+  const buttonProps = (action: ControlAction) => ({
+    onPointerDown: down(action),
+    onPointerUp: up(action),
+    onPointerCancel: up(action),
+    onLostPointerCapture: up(action),
+    onContextMenu: (event: { preventDefault: () => void }) =>
+      event.preventDefault(),
+  });
+
+  return (
+    <div className={styles.touchControls}>
+      <div className={styles.leanGroup}>
+        <button
+          type="button"
+          aria-label="Lean back"
+          className={`${styles.control} ${pressed.left ? styles.pressed : ""}`}
+          {...buttonProps("left")}
+        >
+          ◀
+        </button>
+        <button
+          type="button"
+          aria-label="Lean forward"
+          className={`${styles.control} ${pressed.right ? styles.pressed : ""}`}
+          {...buttonProps("right")}
+        >
+          ▶
+        </button>
+      </div>
+      <button
+        type="button"
+        className={`${styles.tilt} ${tiltEnabled ? styles.pressed : ""}`}
+        onClick={toggleTilt}
+      >
+        {tiltEnabled ? "Tilt on" : "Tilt off"}
+      </button>
+      <button
+        type="button"
+        aria-label="Pogo jump"
+        className={`${styles.control} ${styles.jump} ${
+          pressed.jump ? styles.pressed : ""
+        }`}
+        {...buttonProps("jump")}
+      >
+        JUMP
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { vehicleIds, vehicles, type VehicleId } from "../game/vehicles";
+import styles from "./VehicleSelect.module.css";
+
+interface VehicleSelectProps {
+  current: VehicleId;
+  onSelect: (vehicle: VehicleId) => void;
+}
+
+export default function VehicleSelect({ current, onSelect }: VehicleSelectProps) {
+  return (
+    <ul className={styles.vehicleList}>
+      {vehicleIds.map((id) => (
+        <li key={id}>
+          <button
+            type="button"
+            className={`${styles.vehicleButton} ${
+              id === current ? styles.current : ""
+            }`}
+            aria-pressed={id === current}
+            onClick={() => onSelect(id)}
+          >
+            <span className={styles.vehicleName}>{vehicles[id].label}</span>
+            <span className={styles.vehicleMeta}>
+              {vehicles[id].description}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from "react";
+
+const QUERY = "(pointer: coarse)";
+
+function subscribe(onChange: () => void) {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener("change", onChange);
+  return () => media.removeEventListener("change", onChange);
+}
+
+function getSnapshot() {
+  return window.matchMedia(QUERY).matches || navigator.maxTouchPoints > 0;
+}
+
+function getServerSnapshot() {
+  return false;
+}
+
+/** True when the primary input is a finger rather than a mouse. */
+export function useTouchDevice() {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
@@ -0,0 +1,100 @@
+import type { LevelDefinition } from "./level";
+import { clamp, type CrashCause, type Simulation } from "./physics";
+
+/** Ticks between samples of the rider's path: 30 a second is plenty to draw. */
+const TRACE_INTERVAL = 2;
+
+/** Converts rider speed in world units a second to the mph the HUD shows. */
+export const SPEED_TO_MPH = 0.18;
+
+/** Where the rider was, and how fast they were going, at one tick. */
+export interface TracePoint {
+  tick: number;
+  x: number;
+  y: number;
+  speed: number;
+}
+
+/** What ended a run in a crash, and where the rider was when it did. */
+export interface CrashReport {
+  cause: CrashCause;
+  x: number;
+  y: number;
+}
+
+/** A run's path for the post-run analysis, and its crash if it had one. */
+export interface RunTrace {
+  points: TracePoint[];
+  crash: CrashReport | null;
+}
+
+function tracePoint(sim: Simulation): TracePoint {
+  const { player } = sim;
+  return {
+    tick: sim.tick,
+    x: player.x,
+    y: player.y,
+    speed: Math.hypot(player.vx, player.vy),
+  };
+}
+
+/** A trace starting from where the rider is now. */
+export function createRunTrace(sim: Simulation): RunTrace {
+  return { points: [tracePoint(sim)], crash: null };
+}
+
+/** Samples the rider after a tick, every {@link TRACE_INTERVAL} ticks. */
+export function recordTrace(trace: RunTrace, sim: Simulation) {
+  if (sim.tick % TRACE_INTERVAL === 0) {
+    trace.points.push(tracePoint(sim));
+  }
+}
+
+/** Drops everything after `tick`, for a run rewound to a checkpoint. */
+export function rewindTrace(trace: RunTrace, tick: number) {
+  trace.points = trace.points.filter((point) => point.tick <= tick);
+  trace.crash = null;
+}
+
+/**
+ * Ends the trace on the tick the run ended, noting the crash if there was
+ * one. Returns a copy, so a run rewound and ended again is a fresh trace.
+ */
+export function finishTrace(
+  trace: RunTrace,
+  sim: Simulation,
+  cause: CrashCause | null,
+): RunTrace {
+  const last = trace.points[trace.points.length - 1];
+  if (!last || last.tick < sim.tick) {
+    trace.points.push(tracePoint(sim));
+  }
+  trace.crash =
+    cause === null ? null : { cause, x: sim.player.x, y: sim.player.y };
+  return { points: trace.points.slice(), crash: trace.crash };
+}
+
+/** How far along the course `x` is, as a percentage of the way to the finish. */
+export function courseFraction(level: LevelDefinition, x: number) {
+  return clamp((x / level.finish.x) * 100, 0, 100);
+}
+
+/**
+ * The run's top speed within each of `buckets` equal stretches of the
+ * course, from start to finish; null where the rider never got to.
+ */
+export function speedByDistance(
+  trace: RunTrace,
+  level: LevelDefinition,
+  buckets: number,
+) {
+  const speeds: (number | null)[] = new Array<number | null>(buckets).fill(null);
+  for (const point of trace.points) {
+    const bucket = Math.min(
+      Math.floor((courseFraction(level, point.x) / 100) * buckets),
+      buckets - 1,
+    );
+    speeds[bucket] = Math.max(speeds[bucket] ?? 0, point.speed);
+  }
+  return speeds;
+}
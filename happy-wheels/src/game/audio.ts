@@ -0,0 +1,379 @@
+/**
+ * Sound effects and music, all synthesized with Web Audio so there are no
+ * files to load. Nothing is created until {@link unlockAudio} runs from a
+ * user gesture, which keeps the game silent, and within autoplay rules, until
+ * the player has interacted with the page; every call before then is a no-op.
+ */
+
+export interface AudioSettings {
+  /** Master volume, 0 to 1. */
+  volume: number;
+  muted: boolean;
+}
+
+interface MusicState {
+  bus: GainNode;
+  /** Smoothed 0–1 intensity the current bar is played at. */
+  intensity: number;
+  /** Whether notes are being scheduled; false while the game is in a menu. */
+  active: boolean;
+  step: number;
+  /** Audio-clock time the next step is due. */
+  nextTime: number;
+  lastUpdate: number;
+}
+
+interface AudioGraph {
+  context: AudioContext;
+  master: GainNode;
+  effects: GainNode;
+  /** One second of white noise, reused by every noisy sound. */
+  noise: AudioBuffer;
+  music: MusicState;
+}
+
+export interface SoundEngine {
+  settings: AudioSettings;
+  /** Null until the first user gesture. */
+  graph: AudioGraph | null;
+}
+
+interface Envelope {
+  /** Seconds from now. */
+  delay?: number;
+  duration: number;
+  gain: number;
+}
+
+/** Steps scheduled ahead of the audio clock, so frame hiccups never gap the music. */
+const MUSIC_LOOKAHEAD = 0.15;
+const STEPS_PER_BAR = 16;
+/** Bar roots of the four-bar loop: A minor, F, C, G. */
+const PROGRESSION = [110, 87.31, 130.81, 98];
+/** Chord tones above each root, in semitones; only the first bar is minor. */
+const CHORDS = [
+  [0, 3, 7, 12],
+  [0, 4, 7, 12],
+  [0, 4, 7, 12],
+  [0, 4, 7, 12],
+];
+
+export function createAudioSettings(): AudioSettings {
+  return { volume: 0.7, muted: false };
+}
+
+export function sanitizeAudioSettings(raw: unknown): AudioSettings {
+  const settings = createAudioSettings();
+  if (typeof raw !== "object" || raw === null) {
+    return settings;
+  }
+  const { volume, muted } = raw as Record<string, unknown>;
+  if (typeof volume === "number" && Number.isFinite(volume)) {
+    settings.volume = Math.min(Math.max(volume, 0), 1);
+  }
+  if (typeof muted === "boolean") {
+    settings.muted = muted;
+  }
+  return settings;
+}
+
+export function createSoundEngine(settings: AudioSettings): SoundEngine {
+  return { settings, graph: null };
+}
+
+function masterLevel(settings: AudioSettings) {
+  // Squared so the slider feels even across its range.
+  return settings.muted ? 0 : settings.volume * settings.volume;
+}
+
+function createNoise(context: AudioContext) {
+  const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i += 1) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  return buffer;
+}
+
+/**
+ * Starts audio. Call it from a user gesture (a key press or pointer down):
+ * browsers only let an audio context start there. Safe to call repeatedly.
+ */
+export function unlockAudio(engine: SoundEngine) {
+  if (engine.graph) {
+    if (engine.graph.context.state === "suspended") {
+      void engine.graph.context.resume();
+    }
+    return;
+  }
+  if (typeof window === "undefined" || typeof window.AudioContext !== "function") {
+    return;
+  }
+  const context = new window.AudioContext();
+  const master = context.createGain();
+  master.gain.value = masterLevel(engine.settings);
+  master.connect(context.destination);
+  const effects = context.createGain();
+  effects.gain.value = 0.8;
+  effects.connect(master);
+  const bus = context.createGain();
+  bus.gain.value = 0;
+  bus.connect(master);
+  engine.graph = {
+    context,
+    master,
+    effects,
+    noise: createNoise(context),
+    music: {
+      bus,
+      intensity: 0,
+      active: false,
+      step: 0,
+      nextTime: 0,
+      lastUpdate: context.currentTime,
+    },
+  };
+}
+
+export function setAudioSettings(engine: SoundEngine, settings: AudioSettings) {
+  engine.settings = settings;
+  const graph = engine.graph;
+  if (graph) {
+    graph.master.gain.setTargetAtTime(
+      masterLevel(settings),
+      graph.context.currentTime,
+      0.02,
+    );
+  }
+}
+
+export function closeAudio(engine: SoundEngine) {
+  void engine.graph?.context.close();
+  engine.graph = null;
+}
+
+/** A gain node that swells in quickly and decays over the envelope. */
+function envelope(graph: AudioGraph, destination: AudioNode, shape: Envelope) {
+  const { context } = graph;
+  const start = context.currentTime + (shape.delay ?? 0);
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, start);
+  gain.gain.exponentialRampToValueAtTime(shape.gain, start + 0.005);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + shape.duration);
+  gain.connect(destination);
+  return { gain, start, end: start + shape.duration };
+}
+
+function tone(
+  graph: AudioGraph,
+  destination: AudioNode,
+  type: OscillatorType,
+  from: number,
+  to: number,
+  shape: Envelope,
+) {
+  const { gain, start, end } = envelope(graph, destination, shape);
+  const oscillator = graph.context.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(from, start);
+  oscillator.frequency.exponentialRampToValueAtTime(to, end);
+  oscillator.connect(gain);
+  oscillator.start(start);
+  oscillator.stop(end + 0.02);
+}
+
+function noise(
+  graph: AudioGraph,
+  destination: AudioNode,
+  filter: BiquadFilterType,
+  from: number,
+  to: number,
+  shape: Envelope,
+) {
+  const { gain, start, end } = envelope(graph, destination, shape);
+  const biquad = graph.context.createBiquadFilter();
+  biquad.type = filter;
+  biquad.frequency.setValueAtTime(from, start);
+  biquad.frequency.exponentialRampToValueAtTime(to, end);
+  biquad.connect(gain);
+  const source = graph.context.createBufferSource();
+  source.buffer = graph.noise;
+  source.connect(biquad);
+  source.start(start, Math.random() * 0.5);
+  source.stop(end + 0.02);
+}
+
+/** The spring letting go: a rising twang, higher the harder it was squeezed. */
+export function playJump(engine: SoundEngine, springCompression: number) {
+  const graph = engine.graph;
+  if (!graph) {
+    return;
+  }
+  const pitch = 180 + Math.min(springCompression, 120) * 4;
+  tone(graph, graph.effects, "triangle", pitch, pitch * 2.4, {
+    duration: 0.22,
+    gain: 0.35,
+  });
+  tone(graph, graph.effects, "sine", pitch * 1.5, pitch * 3, {
+    duration: 0.12,
+    gain: 0.12,
+  });
+}
+
+/** A thud plus the spring squeezing, both scaled by how fast the rider came down. */
+export function playLanding(engine: SoundEngine, impactSpeed: number) {
+  const graph = engine.graph;
+  if (!graph || impactSpeed < 150) {
+    return;
+  }
+  const strength = Math.min(impactSpeed / 1500, 1);
+  tone(graph, graph.effects, "sine", 140, 45, {
+    duration: 0.16,
+    gain: 0.2 + strength * 0.5,
+  });
+  noise(graph, graph.effects, "lowpass", 900, 200, {
+    duration: 0.1,
+    gain: 0.1 + strength * 0.25,
+  });
+  tone(graph, graph.effects, "triangle", 420, 160, {
+    delay: 0.02,
+    duration: 0.14,
+    gain: 0.08 + strength * 0.12,
+  });
+}
+
+/** Metal on meat: clangy inharmonic partials over a bright hiss. */
+export function playSpikes(engine: SoundEngine) {
+  const graph = engine.graph;
+  if (!graph) {
+    return;
+  }
+  for (const frequency of [523, 1187, 1637, 2213]) {
+    tone(graph, graph.effects, "square", frequency, frequency * 0.94, {
+      duration: 0.3,
+      gain: 0.05,
+    });
+  }
+  noise(graph, graph.effects, "highpass", 3000, 1500, {
+    duration: 0.25,
+    gain: 0.25,
+  });
+}
+
+export function playCrash(engine: SoundEngine) {
+  const graph = engine.graph;
+  if (!graph) {
+    return;
+  }
+  noise(graph, graph.effects, "lowpass", 2400, 160, {
+    duration: 0.6,
+    gain: 0.6,
+  });
+  tone(graph, graph.effects, "sine", 110, 32, {
+    duration: 0.5,
+    gain: 0.6,
+  });
+}
+
+/** A rising major arpeggio. */
+export function playFinish(engine: SoundEngine) {
+  const graph = engine.graph;
+  if (!graph) {
+    return;
+  }
+  [523.25, 659.25, 783.99, 1046.5].forEach((frequency, index) => {
+    tone(graph, graph.effects, "triangle", frequency, frequency, {
+      delay: index * 0.09,
+      duration: index === 3 ? 0.7 : 0.25,
+      gain: 0.3,
+    });
+  });
+}
+
+function semitones(root: number, steps: number) {
+  return root * 2 ** (steps / 12);
+}
+
+/**
+ * Schedules one sixteenth of the loop at `time`. The bass always plays; the
+ * kick, hats, and arpeggio come in as intensity rises.
+ */
+function scheduleStep(graph: AudioGraph, step: number, time: number) {
+  const { music } = graph;
+  const bar = Math.floor(step / STEPS_PER_BAR) % PROGRESSION.length;
+  const beat = step % STEPS_PER_BAR;
+  const root = PROGRESSION[bar];
+  const chord = CHORDS[bar];
+  const delay = time - graph.context.currentTime;
+  const level = music.intensity;
+
+  if (beat % 8 === 0 || beat === 6 || beat === 14) {
+    tone(graph, music.bus, "triangle", root, root, {
+      delay,
+      duration: 0.28,
+      gain: 0.22,
+    });
+  }
+  if (level > 0.25 && beat % 4 === 0) {
+    tone(graph, music.bus, "sine", 150, 40, {
+      delay,
+      duration: 0.14,
+      gain: 0.35 * Math.min(1, (level - 0.25) * 3),
+    });
+  }
+  if (level > 0.1 && (beat % 4 === 2 || (level > 0.65 && beat % 2 === 1))) {
+    noise(graph, music.bus, "highpass", 7000, 6000, {
+      delay,
+      duration: 0.04,
+      gain: 0.05 + level * 0.06,
+    });
+  }
+  if (level > 0.4 && beat % 2 === 0) {
+    const note = chord[(beat / 2) % chord.length];
+    tone(graph, music.bus, "square", semitones(root * 4, note), semitones(root * 4, note), {
+      delay,
+      duration: 0.12,
+      gain: 0.04 * Math.min(1, (level - 0.4) * 2.5),
+    });
+  }
+}
+
+/**
+ * Keeps the music going; call it every frame. `intensity` (0–1, usually from
+ * the rider's speed) sets how busy and how fast the loop is, and null fades
+ * it out, e.g. in menus or after a crash.
+ */
+export function updateMusic(engine: SoundEngine, intensity: number | null) {
+  const graph = engine.graph;
+  if (!graph) {
+    return;
+  }
+  const { context, music } = graph;
+  const now = context.currentTime;
+  const dt = now - music.lastUpdate;
+  music.lastUpdate = now;
+
+  if (intensity === null) {
+    if (music.active) {
+      music.active = false;
+      music.bus.gain.setTargetAtTime(0, now, 0.3);
+    }
+    return;
+  }
+  if (!music.active) {
+    music.active = true;
+    music.bus.gain.setTargetAtTime(0.6, now, 0.3);
+    music.nextTime = now + 0.05;
+  }
+  music.intensity += (intensity - music.intensity) * Math.min(1, dt * 1.5);
+  // After a stall (a hidden tab, say) pick up from now instead of catching up.
+  if (music.nextTime < now) {
+    music.nextTime = now + 0.05;
+  }
+  const stepLength = 60 / (96 + 48 * music.intensity) / 4;
+  while (music.nextTime < now + MUSIC_LOOKAHEAD) {
+    scheduleStep(graph, music.step, music.nextTime);
+    music.step = (music.step + 1) % (STEPS_PER_BAR * PROGRESSION.length);
+    music.nextTime += stepLength;
+  }
+}
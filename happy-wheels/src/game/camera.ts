@@ -0,0 +1,226 @@
+import { getGroundHeight, type LevelDefinition } from "./level";
+import { clamp } from "./physics";
+
+/**
+ * The view onto the course. Everything in the world is drawn in level units
+ * through {@link applyCameraTransform}, so draw code never needs to know
+ * where the camera is, how far it is zoomed, or whether it is shaking.
+ */
+export interface Camera {
+  /** Level coordinates of the top-left corner of the view. */
+  x: number;
+  y: number;
+  /** Screen pixels per level unit; below 1 shows more of the course. */
+  zoom: number;
+  /** How far ahead of the rider the view leans, eased toward a speed-based target. */
+  lead: number;
+  /** Shake strength from 0 to 1; it decays on its own. */
+  trauma: number;
+  /** Seconds the camera has been running, which drives the shake pattern. */
+  time: number;
+}
+
+/** The part of the course on screen, in level units. */
+export interface ViewBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+/** What the camera follows: the rider, or the ragdoll's hip after a crash. */
+export interface CameraFocus {
+  x: number;
+  y: number;
+  vx: number;
+  airborne: boolean;
+}
+
+/** Share of the view width kept behind the rider when standing still. */
+const FOCUS_OFFSET = 0.35;
+/** Seconds of velocity the view looks ahead by, within the limits below. */
+const LEAD_TIME = 0.3;
+const MAX_LEAD = 240;
+const MIN_LEAD = -120;
+/** Furthest the view zooms out, reached at {@link FULL_ZOOM_AIR} above the ground. */
+const MIN_ZOOM = 0.65;
+/** Height above the ground where zooming out starts and where it is complete. */
+const ZOOM_AIR = 180;
+const FULL_ZOOM_AIR = 720;
+/** Largest shake offset in screen pixels, at full trauma. */
+const MAX_SHAKE = 22;
+const SHAKE_DECAY = 1.6;
+/** Landing faster than this (units/s, downward) shakes the view, harder the faster. */
+const HARD_LANDING_SPEED = 900;
+const LANDING_SHAKE_RANGE = 1400;
+/** Trauma added when the rider crashes. */
+export const CRASH_SHAKE = 0.7;
+
+export function createCamera(): Camera {
+  return { x: 0, y: 0, zoom: 1, lead: 0, trauma: 0, time: 0 };
+}
+
+/** The visible area of the course, ignoring shake. */
+export function cameraView(camera: Camera, viewport: Viewport): ViewBounds {
+  return {
+    left: camera.x,
+    top: camera.y,
+    right: camera.x + viewport.width / camera.zoom,
+    bottom: camera.y + viewport.height / camera.zoom,
+  };
+}
+
+/** Converts a point on the canvas (CSS pixels) to level coordinates. */
+export function screenToWorld(camera: Camera, screenX: number, screenY: number) {
+  return {
+    x: camera.x + screenX / camera.zoom,
+    y: camera.y + screenY / camera.zoom,
+  };
+}
+
+/**
+ * Vertical scroll for a camera following `focusY`. The camera holds still
+ * while the rider stays in the middle band of the view, so ordinary hops
+ * don't bob it, and eases after them when they climb or drop out.
+ */
+export function followCameraY(
+  cameraY: number,
+  focusY: number,
+  height: number,
+  dt: number,
+) {
+  const top = cameraY + height * 0.25;
+  const bottom = cameraY + height * 0.7;
+  let target = cameraY;
+  if (focusY < top) {
+    target = focusY - height * 0.25;
+  } else if (focusY > bottom) {
+    target = focusY - height * 0.7;
+  }
+  return cameraY + (target - cameraY) * clamp(dt * 5, 0, 1);
+}
+
+/**
+ * Moves the camera one frame toward `focus`: leading in the direction of
+ * travel, zooming out while the rider is high in the air, and following up
+ * and down. The view never scrolls back past the level's start or further
+ * than needed to show the finish.
+ */
+export function followCamera(
+  camera: Camera,
+  level: LevelDefinition,
+  focus: CameraFocus,
+  viewport: Viewport,
+  dt: number,
+) {
+  camera.time += dt;
+  camera.trauma = Math.max(0, camera.trauma - dt * SHAKE_DECAY);
+
+  const air = focus.airborne ? getGroundHeight(level, focus.x) - focus.y : 0;
+  const zoomOut = clamp((air - ZOOM_AIR) / (FULL_ZOOM_AIR - ZOOM_AIR), 0, 1);
+  const targetZoom = 1 - zoomOut * (1 - MIN_ZOOM);
+  const zoom = camera.zoom + (targetZoom - camera.zoom) * clamp(dt * 2, 0, 1);
+  // Zoom about the rider so they stay put on screen while the view widens.
+  camera.x = focus.x - ((focus.x - camera.x) * camera.zoom) / zoom;
+  camera.y = focus.y - ((focus.y - camera.y) * camera.zoom) / zoom;
+  camera.zoom = zoom;
+
+  const viewWidth = viewport.width / zoom;
+  const targetLead = clamp(focus.vx * LEAD_TIME, MIN_LEAD, MAX_LEAD);
+  camera.lead += (targetLead - camera.lead) * clamp(dt * 2, 0, 1);
+  const targetX = focus.x + camera.lead - viewWidth * FOCUS_OFFSET;
+  camera.x += (targetX - camera.x) * clamp(dt * 7, 0, 1);
+  camera.x = clamp(
+    camera.x,
+    0,
+    Math.max(0, level.finish.x - viewWidth * 0.4),
+  );
+  camera.y = followCameraY(camera.y, focus.y, viewport.height / zoom, dt);
+}
+
+/** Furthest a shared view zooms out to fit riders who have spread apart. */
+const MIN_SHARED_ZOOM = 0.4;
+/** Room kept around the riders in a shared view, in level units. */
+const SHARED_MARGIN_X = 240;
+const SHARED_MARGIN_ABOVE = 260;
+const SHARED_MARGIN_BELOW = 240;
+
+/**
+ * Moves a camera shared by several riders one frame toward framing them all,
+ * zooming out as they spread apart. Once even the widest view cannot hold
+ * everyone it keeps the leader in sight and lets the rest fall off the back.
+ */
+export function frameCamera(
+  camera: Camera,
+  level: LevelDefinition,
+  focuses: CameraFocus[],
+  viewport: Viewport,
+  dt: number,
+) {
+  camera.time += dt;
+  camera.trauma = Math.max(0, camera.trauma - dt * SHAKE_DECAY);
+  if (focuses.length === 0) {
+    return;
+  }
+
+  const xs = focuses.map((focus) => focus.x);
+  const ys = focuses.map((focus) => focus.y);
+  const left = Math.min(...xs) - SHARED_MARGIN_X;
+  const right = Math.max(...xs) + SHARED_MARGIN_X;
+  const top = Math.min(...ys) - SHARED_MARGIN_ABOVE;
+  const bottom = Math.max(...ys) + SHARED_MARGIN_BELOW;
+  const targetZoom = clamp(
+    Math.min(viewport.width / (right - left), viewport.height / (bottom - top)),
+    MIN_SHARED_ZOOM,
+    1,
+  );
+  camera.zoom += (targetZoom - camera.zoom) * clamp(dt * 2, 0, 1);
+
+  const viewWidth = viewport.width / camera.zoom;
+  const viewHeight = viewport.height / camera.zoom;
+  const targetX = Math.max((left + right - viewWidth) / 2, right - viewWidth);
+  camera.x += (targetX - camera.x) * clamp(dt * 5, 0, 1);
+  camera.x = clamp(
+    camera.x,
+    0,
+    Math.max(0, level.finish.x - viewWidth * 0.4),
+  );
+  const targetY = (top + bottom - viewHeight) / 2;
+  camera.y += (targetY - camera.y) * clamp(dt * 4, 0, 1);
+}
+
+/** Adds to the shake, up to full strength. */
+export function shakeCamera(camera: Camera, trauma: number) {
+  camera.trauma = Math.min(1, camera.trauma + trauma);
+}
+
+/** Trauma for touching down at `impactSpeed`; zero for ordinary landings. */
+export function landingShake(impactSpeed: number) {
+  return clamp((impactSpeed - HARD_LANDING_SPEED) / LANDING_SHAKE_RANGE, 0, 0.6);
+}
+
+/**
+ * Sets `ctx` up so that drawing in level coordinates lands in the right place
+ * on screen. Shake is applied here, in screen pixels, so it looks the same at
+ * any zoom. Pair with `ctx.save()` / `ctx.restore()`.
+ */
+export function applyCameraTransform(
+  ctx: CanvasRenderingContext2D,
+  camera: Camera,
+) {
+  const strength = camera.trauma * camera.trauma * MAX_SHAKE;
+  if (strength > 0) {
+    const t = camera.time;
+    ctx.translate(
+      strength * (Math.sin(t * 47) * 0.6 + Math.sin(t * 83 + 1.3) * 0.4),
+      strength * (Math.sin(t * 59 + 2.1) * 0.6 + Math.sin(t * 97) * 0.4),
+    );
+  }
+  ctx.scale(camera.zoom, camera.zoom);
+  ctx.translate(-camera.x, -camera.y);
+}
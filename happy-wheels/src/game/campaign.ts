@@ -0,0 +1,95 @@
+import type { LevelDefinition } from "./level";
+import { vehicleIds, type VehicleId } from "./vehicles";
+
+/** One vehicle's records across the courses, keyed by level id. */
+export interface CourseRecords {
+  bestTimes: Record<string, number>;
+  /** Highest trick score per level, kept apart from the best time. */
+  bestScores: Record<string, number>;
+  /** Ids of levels whose best time was set by respawning at checkpoints. */
+  checkpointBests: string[];
+}
+
+export interface CampaignProgress {
+  /** Number of levels, counted from the first, that may be played. */
+  unlocked: number;
+  /** Clearing a course unlocks the next for every vehicle, but records are per vehicle. */
+  records: Record<VehicleId, CourseRecords>;
+}
+
+export function createCourseRecords(): CourseRecords {
+  return { bestTimes: {}, bestScores: {}, checkpointBests: [] };
+}
+
+export function createCampaignProgress(): CampaignProgress {
+  return {
+    unlocked: 1,
+    records: Object.fromEntries(
+      vehicleIds.map((id) => [id, createCourseRecords()]),
+    ) as Record<VehicleId, CourseRecords>,
+  };
+}
+
+/** True if the level's best time on `vehicle` was set by respawning at checkpoints. */
+export function isCheckpointBest(
+  progress: CampaignProgress,
+  vehicle: VehicleId,
+  levelId: string,
+) {
+  return progress.records[vehicle].checkpointBests.includes(levelId);
+}
+
+export function isLevelUnlocked(progress: CampaignProgress, index: number) {
+  return index >= 0 && index < progress.unlocked;
+}
+
+export function recordLevelWin(
+  progress: CampaignProgress,
+  levels: LevelDefinition[],
+  index: number,
+  vehicle: VehicleId,
+  time: number,
+  score: number,
+  usedCheckpoints = false,
+): CampaignProgress {
+  const level = levels[index];
+  if (!level) {
+    return progress;
+  }
+  const unlocked = Math.min(
+    levels.length,
+    Math.max(progress.unlocked, index + 2),
+  );
+  const records = progress.records[vehicle];
+  const previousScore = records.bestScores[level.id];
+  const bestScores =
+    previousScore === undefined || score > previousScore
+      ? { ...records.bestScores, [level.id]: score }
+      : records.bestScores;
+  const previousBest = records.bestTimes[level.id];
+  // A clean run matching an assisted best takes the record over.
+  const isBest =
+    previousBest === undefined ||
+    time < previousBest ||
+    (time === previousBest &&
+      !usedCheckpoints &&
+      isCheckpointBest(progress, vehicle, level.id));
+  if (!isBest) {
+    return {
+      unlocked,
+      records: { ...progress.records, [vehicle]: { ...records, bestScores } },
+    };
+  }
+  const others = records.checkpointBests.filter((id) => id !== level.id);
+  return {
+    unlocked,
+    records: {
+      ...progress.records,
+      [vehicle]: {
+        bestTimes: { ...records.bestTimes, [level.id]: time },
+        bestScores,
+        checkpointBests: usedCheckpoints ? [...others, level.id] : others,
+      },
+    },
+  };
+}
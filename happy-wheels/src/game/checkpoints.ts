@@ -0,0 +1,79 @@
+import type { HazardState } from "./hazards";
+import type { LevelDefinition } from "./level";
+import {
+  copyPlayer,
+  createInputState,
+  type PlayerState,
+  type Simulation,
+} from "./physics";
+import { copyTrickTracker, type TrickTracker } from "./tricks";
+
+/**
+ * Everything needed to put a run back exactly as it was when the rider passed
+ * a checkpoint, including the clock. Because the state is restored to the
+ * tick, the inputs recorded up to that tick still replay to the same place,
+ * so a respawned run keeps a valid recording.
+ */
+export interface CheckpointSnapshot {
+  /** Index into `level.checkpoints`. */
+  index: number;
+  tick: number;
+  player: PlayerState;
+  onGround: boolean;
+  hazards: HazardState[];
+  /** Trick score and combo as they stood, so points after it are taken back. */
+  tricks: TrickTracker;
+}
+
+/** A run being played: the simulation plus the trick score riding on it. */
+type CheckpointRun = Simulation & { tricks: TrickTracker };
+
+/**
+ * The furthest checkpoint crossed moving from `fromX` to `toX` this tick, or
+ * null. Only forward crossings count.
+ */
+export function crossedCheckpoint(
+  level: LevelDefinition,
+  fromX: number,
+  toX: number,
+) {
+  for (let i = level.checkpoints.length - 1; i >= 0; i -= 1) {
+    const { x } = level.checkpoints[i];
+    if (fromX < x && toX >= x) {
+      return i;
+    }
+  }
+  return null;
+}
+
+export function takeCheckpoint(
+  sim: CheckpointRun,
+  index: number,
+): CheckpointSnapshot {
+  return {
+    index,
+    tick: sim.tick,
+    player: copyPlayer(sim.player),
+    onGround: sim.onGround,
+    hazards: sim.hazards.map((state) => ({ ...state })),
+    tricks: copyTrickTracker(sim.tricks),
+  };
+}
+
+/**
+ * Rewinds `sim` to a snapshot. Held inputs are dropped so the rider starts
+ * from rest on the controls; the snapshot itself is left untouched and can be
+ * restored again.
+ */
+export function restoreCheckpoint(
+  sim: CheckpointRun,
+  snapshot: CheckpointSnapshot,
+) {
+  sim.tick = snapshot.tick;
+  sim.player = copyPlayer(snapshot.player);
+  sim.previousPlayer = copyPlayer(snapshot.player);
+  sim.onGround = snapshot.onGround;
+  sim.hazards = snapshot.hazards.map((state) => ({ ...state }));
+  sim.tricks = copyTrickTracker(snapshot.tricks);
+  Object.assign(sim.input, createInputState());
+}
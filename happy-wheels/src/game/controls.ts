@@ -0,0 +1,35 @@
+import type { InputState } from "./physics";
+
+/** Rider controls shared by every input device (keyboard, touch, …). */
+export type ControlAction = "left" | "right" | "jump";
+
+export function pressAction(input: InputState, action: ControlAction) {
+  switch (action) {
+    case "left":
+      input.left = true;
+      break;
+    case "right":
+      input.right = true;
+      break;
+    case "jump":
+      if (!input.jumpHeld) {
+        input.jumpPressed = true;
+      }
+      input.jumpHeld = true;
+      break;
+  }
+}
+
+export function releaseAction(input: InputState, action: ControlAction) {
+  switch (action) {
+    case "left":
+      input.left = false;
+      break;
+    case "right":
+      input.right = false;
+      break;
+    case "jump":
+      input.jumpHeld = false;
+      break;
+  }
+}
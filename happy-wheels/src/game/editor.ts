@@ -0,0 +1,240 @@
+import { createHazard } from "./hazards";
+import {
+  LevelValidationError,
+  parseLevel,
+  type Hazard,
+  type HazardType,
+  type LevelDefinition,
+  type TerrainSegment,
+} from "./level";
+
+export interface TerrainVertex {
+  x: number;
+  y: number;
+}
+
+export const MIN_SEGMENT_WIDTH = 40;
+
+/**
+ * The terrain as the editor sees it: the shared endpoints of consecutive
+ * segments. Editing vertices instead of segments keeps the course continuous.
+ */
+export function terrainVertices(level: LevelDefinition): TerrainVertex[] {
+  const vertices = level.terrain.map((segment) => ({
+    x: segment.startX,
+    y: segment.startY,
+  }));
+  const last = level.terrain[level.terrain.length - 1];
+  vertices.push({ x: last.endX, y: last.endY });
+  return vertices;
+}
+
+/** Which segments are pits, by index. */
+function terrainGaps(level: LevelDefinition) {
+  return level.terrain.map((segment) => segment.gap === true);
+}
+
+function withVertices(
+  level: LevelDefinition,
+  vertices: TerrainVertex[],
+  gaps = terrainGaps(level),
+): LevelDefinition {
+  const terrain: TerrainSegment[] = [];
+  for (let i = 0; i < vertices.length - 1; i += 1) {
+    terrain.push({
+      startX: vertices[i].x,
+      endX: vertices[i + 1].x,
+      startY: vertices[i].y,
+      endY: vertices[i + 1].y,
+      ...(gaps[i] ? { gap: true } : {}),
+    });
+  }
+  return { ...level, terrain };
+}
+
+export function moveVertex(
+  level: LevelDefinition,
+  index: number,
+  x: number,
+  y: number,
+): LevelDefinition {
+  const vertices = terrainVertices(level);
+  if (!vertices[index]) {
+    return level;
+  }
+  const prev = vertices[index - 1];
+  const next = vertices[index + 1];
+  let nextX = Math.round(x);
+  if (prev) {
+    nextX = Math.max(nextX, prev.x + MIN_SEGMENT_WIDTH);
+  }
+  if (next) {
+    nextX = Math.min(nextX, next.x - MIN_SEGMENT_WIDTH);
+  }
+  vertices[index] = { x: nextX, y: Math.round(y) };
+  return withVertices(level, vertices);
+}
+
+export function splitSegment(
+  level: LevelDefinition,
+  segmentIndex: number,
+): LevelDefinition {
+  const segment = level.terrain[segmentIndex];
+  if (!segment || segment.endX - segment.startX < MIN_SEGMENT_WIDTH * 2) {
+    return level;
+  }
+  const vertices = terrainVertices(level);
+  vertices.splice(segmentIndex + 1, 0, {
+    x: Math.round((segment.startX + segment.endX) / 2),
+    y: Math.round((segment.startY + segment.endY) / 2),
+  });
+  const gaps = terrainGaps(level);
+  gaps.splice(segmentIndex, 0, gaps[segmentIndex]);
+  return withVertices(level, vertices, gaps);
+}
+
+export function removeVertex(
+  level: LevelDefinition,
+  index: number,
+): LevelDefinition {
+  const vertices = terrainVertices(level);
+  if (index <= 0 || index >= vertices.length - 1) {
+    return level;
+  }
+  vertices.splice(index, 1);
+  // The merged segment stays a pit only if both halves were.
+  const gaps = terrainGaps(level);
+  gaps.splice(index - 1, 2, gaps[index - 1] && gaps[index]);
+  return withVertices(level, vertices, gaps);
+}
+
+export function appendSegment(
+  level: LevelDefinition,
+  width = 240,
+): LevelDefinition {
+  const vertices = terrainVertices(level);
+  const last = vertices[vertices.length - 1];
+  vertices.push({ x: last.x + width, y: last.y });
+  return withVertices(level, vertices);
+}
+
+/** Turns a segment into an open pit, or fills a pit back in. */
+export function togglePit(
+  level: LevelDefinition,
+  segmentIndex: number,
+): LevelDefinition {
+  if (!level.terrain[segmentIndex]) {
+    return level;
+  }
+  const gaps = terrainGaps(level);
+  gaps[segmentIndex] = !gaps[segmentIndex];
+  return withVertices(level, terrainVertices(level), gaps);
+}
+
+export function removeLastSegment(level: LevelDefinition): LevelDefinition {
+  if (level.terrain.length <= 1) {
+    return level;
+  }
+  return { ...level, terrain: level.terrain.slice(0, -1) };
+}
+
+export function addHazard(
+  level: LevelDefinition,
+  type: HazardType,
+  centerX: number,
+): LevelDefinition {
+  return { ...level, hazards: [...level.hazards, createHazard(type, centerX)] };
+}
+
+/** Changes numeric fields of a hazard; its type always stays the same. */
+export function updateHazard(
+  level: LevelDefinition,
+  index: number,
+  patch: Record<string, number>,
+): LevelDefinition {
+  const current = level.hazards[index];
+  if (!current) {
+    return level;
+  }
+  const hazards = level.hazards.slice();
+  hazards[index] = { ...current, ...patch, type: current.type } as Hazard;
+  return { ...level, hazards };
+}
+
+export function removeHazard(
+  level: LevelDefinition,
+  index: number,
+): LevelDefinition {
+  return {
+    ...level,
+    hazards: level.hazards.filter((_, hazardIndex) => hazardIndex !== index),
+  };
+}
+
+/** Adds a checkpoint at `x`, keeping them in course order. */
+export function addCheckpoint(level: LevelDefinition, x: number): LevelDefinition {
+  const checkpoints = [...level.checkpoints, { x: Math.round(x) }].sort(
+    (a, b) => a.x - b.x,
+  );
+  return { ...level, checkpoints };
+}
+
+/** Slides a checkpoint, stopping short of its neighbours so the order holds. */
+export function moveCheckpoint(
+  level: LevelDefinition,
+  index: number,
+  x: number,
+): LevelDefinition {
+  if (!level.checkpoints[index]) {
+    return level;
+  }
+  const previous = level.checkpoints[index - 1];
+  const next = level.checkpoints[index + 1];
+  let nextX = Math.round(x);
+  if (previous) {
+    nextX = Math.max(nextX, previous.x + 1);
+  }
+  if (next) {
+    nextX = Math.min(nextX, next.x - 1);
+  }
+  const checkpoints = level.checkpoints.slice();
+  checkpoints[index] = { x: nextX };
+  return { ...level, checkpoints };
+}
+
+export function removeCheckpoint(
+  level: LevelDefinition,
+  index: number,
+): LevelDefinition {
+  return {
+    ...level,
+    checkpoints: level.checkpoints.filter(
+      (_, checkpointIndex) => checkpointIndex !== index,
+    ),
+  };
+}
+
+export function moveFinish(level: LevelDefinition, x: number): LevelDefinition {
+  return { ...level, finish: { x: Math.round(x) } };
+}
+
+export function moveStart(
+  level: LevelDefinition,
+  x: number,
+  y: number,
+): LevelDefinition {
+  return { ...level, start: { x: Math.round(x), y: Math.round(y) } };
+}
+
+/** Runs the level loader over an edited course and returns its complaints. */
+export function levelIssues(level: LevelDefinition) {
+  try {
+    parseLevel(level);
+    return [];
+  } catch (error) {
+    if (error instanceof LevelValidationError) {
+      return error.issues;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Which stick and buttons drive the rider. Button and axis numbers follow the
+ * W3C "standard" gamepad layout that browsers report for common controllers.
+ */
+export interface GamepadMapping {
+  id: string;
+  label: string;
+  leanAxis: number;
+  invertLean: boolean;
+  /** Stick travel (0..1) ignored around the centre. */
+  deadzone: number;
+  jumpButtons: number[];
+  leftButtons: number[];
+  rightButtons: number[];
+  startButtons: number[];
+  restartButtons: number[];
+}
+
+export interface GamepadSnapshot {
+  lean: number;
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  start: boolean;
+  restart: boolean;
+}
+
+export const gamepadPresets: GamepadMapping[] = [
+  {
+    id: "standard",
+    label: "Left stick · A to jump",
+    leanAxis: 0,
+    invertLean: false,
+    deadzone: 0.18,
+    jumpButtons: [0, 7],
+    leftButtons: [14],
+    rightButtons: [15],
+    startButtons: [9],
+    restartButtons: [8, 3],
+  },
+  {
+    id: "southpaw",
+    label: "Right stick · RB to jump",
+    leanAxis: 2,
+    invertLean: false,
+    deadzone: 0.18,
+    jumpButtons: [5, 6],
+    leftButtons: [2],
+    rightButtons: [1],
+    startButtons: [9],
+    restartButtons: [8, 3],
+  },
+];
+
+export const DEFAULT_GAMEPAD_MAPPING = gamepadPresets[0];
+
+export function getGamepadMapping(id: string) {
+  return (
+    gamepadPresets.find((mapping) => mapping.id === id) ??
+    DEFAULT_GAMEPAD_MAPPING
+  );
+}
+
+/** Analog lean is snapped to this many steps per side to keep replays small. */
+const LEAN_STEPS = 32;
+
+export const idleGamepad: GamepadSnapshot = {
+  lean: 0,
+  left: false,
+  right: false,
+  jump: false,
+  start: false,
+  restart: false,
+};
+
+function anyPressed(pad: Gamepad, buttons: number[]) {
+  return buttons.some((index) => pad.buttons[index]?.pressed ?? false);
+}
+
+export function readGamepad(
+  pad: Gamepad,
+  mapping: GamepadMapping,
+): GamepadSnapshot {
+  const raw = pad.axes[mapping.leanAxis] ?? 0;
+  const magnitude = Math.abs(raw);
+  let lean = 0;
+  if (magnitude > mapping.deadzone) {
+    const scaled = Math.min(1, (magnitude - mapping.deadzone) / (1 - mapping.deadzone));
+    lean = (Math.round(scaled * LEAN_STEPS) / LEAN_STEPS) * Math.sign(raw);
+    if (mapping.invertLean) {
+      lean = -lean;
+    }
+  }
+  return {
+    lean,
+    left: anyPressed(pad, mapping.leftButtons),
+    right: anyPressed(pad, mapping.rightButtons),
+    jump: anyPressed(pad, mapping.jumpButtons),
+    start: anyPressed(pad, mapping.startButtons),
+    restart: anyPressed(pad, mapping.restartButtons),
+  };
+}
+
+/**
+ * Returns the connected pad to read this frame, preferring `preferredIndex`.
+ * Browsers hand out fresh Gamepad objects on every poll, so this must be
+ * called each frame rather than cached.
+ */
+export function findGamepad(preferredIndex: number | null) {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) {
+    return null;
+  }
+  const pads = navigator.getGamepads();
+  if (preferredIndex !== null) {
+    const preferred = pads[preferredIndex];
+    if (preferred?.connected) {
+      return preferred;
+    }
+  }
+  for (const pad of pads) {
+    if (pad?.connected) {
+      return pad;
+    }
+  }
+  return null;
+}
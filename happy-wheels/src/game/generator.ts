@@ -0,0 +1,406 @@
+import {
+  getGroundHeight,
+  parseLevel,
+  type Checkpoint,
+  type Hazard,
+  type LevelDefinition,
+  type TerrainSegment,
+} from "./level";
+import { clamp, GRAVITY } from "./physics";
+import { createRandom, type Random } from "./random";
+import { pogoSpring } from "./vehicles";
+
+export type Difficulty = "easy" | "normal" | "hard";
+
+/** What a generated course is made of; each difficulty is one set of these. */
+export interface GeneratorSettings {
+  /** Distance from the start line to the finish. */
+  length: number;
+  /** Steepness of each slope, as rise over run, picked from this range either way. */
+  slope: { min: number; max: number };
+  /** Hazards per 1000 units of course. */
+  hazardDensity: number;
+  /** Chance that each stretch of ground past the start is an open pit instead. */
+  gapFrequency: number;
+}
+
+export const difficultySettings: Record<Difficulty, GeneratorSettings> = {
+  easy: {
+    length: 2400,
+    slope: { min: 0, max: 0.15 },
+    hazardDensity: 0.8,
+    gapFrequency: 0.08,
+  },
+  normal: {
+    length: 3200,
+    slope: { min: 0.05, max: 0.3 },
+    hazardDensity: 1.4,
+    gapFrequency: 0.15,
+  },
+  hard: {
+    length: 4000,
+    slope: { min: 0.1, max: 0.45 },
+    hazardDensity: 2.2,
+    gapFrequency: 0.24,
+  },
+};
+
+export const difficulties = Object.keys(difficultySettings) as Difficulty[];
+
+export interface GeneratedCourse {
+  seed: string;
+  difficulty: Difficulty;
+  level: LevelDefinition;
+}
+
+/**
+ * Spring compression a comfortable, repeatable jump builds up. Bigger
+ * compressions launch higher but take timing no course should demand.
+ */
+const REACH_COMPRESSION = 40;
+/** Forward speed, in units/s, a rider carries into a jump at a steady lean. */
+const REACH_SPEED = 360;
+/** Share of the reach computed below that an obstacle may ask for. */
+const REACH_MARGIN = 0.75;
+/** Ground needed between two obstacles to land and bounce again. */
+const LANDING_RUNWAY = 140;
+
+const START_X = 120;
+/** Flat ground before the first slope, pit, or hazard. */
+const START_RUNWAY = 480;
+/** Ground carried on past the finish line. */
+const FINISH_RUNOUT = 400;
+const BASE_GROUND = 560;
+/** Generated ground stays between these heights. */
+const GROUND_TOP = 360;
+const GROUND_BOTTOM = 800;
+const SEGMENT_WIDTH = { min: 180, max: 360 };
+const MIN_GAP = 70;
+const CHECKPOINT_SPACING = 1200;
+/** Layouts tried per seed before falling back to one without pits or hazards. */
+const MAX_ATTEMPTS = 24;
+const SEED_PATTERN = /^[a-z0-9-]{1,24}$/;
+
+/**
+ * Take-off speed of a pogo jump from {@link REACH_COMPRESSION} of spring.
+ * Courses are laid out for the pogo, the longest-jumping vehicle.
+ */
+export function jumpSpeed() {
+  return (
+    pogoSpring.jumpBaseImpulse +
+    REACH_COMPRESSION * pogoSpring.jumpCompressionScale
+  );
+}
+
+/** How high above the take-off point a jump peaks. */
+export function jumpHeight() {
+  const speed = jumpSpeed();
+  return (speed * speed) / (2 * GRAVITY);
+}
+
+/**
+ * How far a jump carries when it lands `rise` units above where it took off
+ * (negative for a drop); zero when it cannot get that high.
+ */
+export function jumpReach(rise: number) {
+  const speed = jumpSpeed();
+  const discriminant = speed * speed - 2 * GRAVITY * rise;
+  if (discriminant < 0) {
+    return 0;
+  }
+  return (REACH_SPEED * (speed + Math.sqrt(discriminant))) / GRAVITY;
+}
+
+interface Obstacle {
+  left: number;
+  right: number;
+  paths: string[];
+}
+
+/**
+ * Everything on the course a rider could not get past with the jump above,
+ * as messages in the style of `parseLevel`'s. Pits and spike fields, plus any
+ * that sit too close together to land between, must be cleared in one jump;
+ * saws are timed and the other hazards can be ridden through, so they are not
+ * checked. Free-standing surfaces are ignored too: generated courses have
+ * none, and a hand-built course that bridges a pit with one may be reported.
+ */
+export function reachabilityIssues(level: LevelDefinition) {
+  const issues: string[] = [];
+  const maxHeight = jumpHeight() * REACH_MARGIN;
+  const maxSlope = (jumpSpeed() / REACH_SPEED) * REACH_MARGIN;
+
+  const obstacles: Obstacle[] = [];
+  level.terrain.forEach((segment, index) => {
+    const path = `level.terrain[${index}]`;
+    if (segment.gap) {
+      obstacles.push({ left: segment.startX, right: segment.endX, paths: [path] });
+      if (level.finish.x >= segment.startX && level.finish.x <= segment.endX) {
+        issues.push(`level.finish.x (${level.finish.x}) is over the pit at ${path}`);
+      }
+      return;
+    }
+    const slope = (segment.startY - segment.endY) / (segment.endX - segment.startX);
+    if (slope > maxSlope) {
+      issues.push(
+        `${path} climbs too steeply to hop up (${slope.toFixed(2)}, at most ${maxSlope.toFixed(2)})`,
+      );
+    }
+  });
+  level.hazards.forEach((hazard, index) => {
+    if (hazard.type !== "spikes") {
+      return;
+    }
+    const path = `level.hazards[${index}]`;
+    if (hazard.height > maxHeight) {
+      issues.push(
+        `${path} is taller (${hazard.height}) than a jump clears (${Math.round(maxHeight)})`,
+      );
+    }
+    obstacles.push({ left: hazard.x, right: hazard.x + hazard.width, paths: [path] });
+  });
+
+  obstacles.sort((a, b) => a.left - b.left);
+  const merged: Obstacle[] = [];
+  for (const obstacle of obstacles) {
+    const last = merged[merged.length - 1];
+    if (last && obstacle.left - last.right < LANDING_RUNWAY) {
+      last.right = Math.max(last.right, obstacle.right);
+      last.paths.push(...obstacle.paths);
+    } else {
+      merged.push({ ...obstacle, paths: [...obstacle.paths] });
+    }
+  }
+  for (const { left, right, paths } of merged) {
+    const rise = getGroundHeight(level, left) - getGroundHeight(level, right);
+    const reach = jumpReach(rise) * REACH_MARGIN;
+    if (right - left > reach) {
+      issues.push(
+        `${paths.join(" + ")} span ${Math.round(right - left)} units but a jump only reaches ${Math.round(reach)} there`,
+      );
+    }
+  }
+  return issues;
+}
+
+function buildTerrain(random: Random, settings: GeneratorSettings, finishX: number) {
+  const end = finishX + FINISH_RUNOUT;
+  const segments: TerrainSegment[] = [
+    { startX: 0, endX: START_RUNWAY, startY: BASE_GROUND, endY: BASE_GROUND },
+  ];
+  let x = START_RUNWAY;
+  let y = BASE_GROUND;
+  while (x < end) {
+    const previous = segments[segments.length - 1];
+    if (
+      !previous.gap &&
+      x < finishX - LANDING_RUNWAY * 3 &&
+      random.chance(settings.gapFrequency)
+    ) {
+      // Land level with the take-off or a little either way.
+      const landingY = Math.round(
+        clamp(y + random.range(-40, 80), GROUND_TOP, GROUND_BOTTOM),
+      );
+      const widest = Math.min(
+        jumpReach(y - landingY) * REACH_MARGIN,
+        finishX - LANDING_RUNWAY * 2 - x,
+      );
+      if (widest >= MIN_GAP) {
+        const width = Math.floor(random.range(MIN_GAP, widest));
+        segments.push({ startX: x, endX: x + width, startY: y, endY: landingY, gap: true });
+        x += width;
+        y = landingY;
+        continue;
+      }
+    }
+
+    let width = Math.round(random.range(SEGMENT_WIDTH.min, SEGMENT_WIDTH.max));
+    if (end - (x + width) < SEGMENT_WIDTH.min) {
+      width = end - x;
+    }
+    const steepness = random.range(settings.slope.min, settings.slope.max);
+    let climb = random.chance(0.5) ? 1 : -1;
+    const nextY = (direction: number) => Math.round(y - direction * steepness * width);
+    if (nextY(climb) < GROUND_TOP || nextY(climb) > GROUND_BOTTOM) {
+      climb = -climb;
+    }
+    const endY = Math.round(clamp(nextY(climb), GROUND_TOP, GROUND_BOTTOM));
+    segments.push({ startX: x, endX: x + width, startY: y, endY });
+    x += width;
+    y = endY;
+  }
+  return segments;
+}
+
+function placeHazards(
+  random: Random,
+  settings: GeneratorSettings,
+  terrain: TerrainSegment[],
+  finishX: number,
+) {
+  // Pits, padded by a runway either side, are off limits from the start.
+  const taken = terrain
+    .filter((segment) => segment.gap)
+    .map((segment) => ({ left: segment.startX, right: segment.endX }));
+  const isClear = (left: number, right: number) =>
+    taken.every(
+      (area) => right + LANDING_RUNWAY <= area.left || left - LANDING_RUNWAY >= area.right,
+    );
+
+  const hazards: Hazard[] = [];
+  const count = Math.round((settings.hazardDensity * (finishX - START_RUNWAY)) / 1000);
+  for (let i = 0; i < count; i += 1) {
+    for (let attempt = 0; attempt < 12; attempt += 1) {
+      const hazard = randomHazard(random);
+      const x = Math.round(
+        random.range(START_RUNWAY, finishX - LANDING_RUNWAY - hazard.width),
+      );
+      if (isClear(x, x + hazard.width)) {
+        hazards.push({ ...hazard, x });
+        taken.push({ left: x, right: x + hazard.width });
+        break;
+      }
+    }
+  }
+  return hazards.sort((a, b) => a.x - b.x);
+}
+
+function randomHazard(random: Random): Hazard {
+  const roll = random.next();
+  if (roll < 0.6) {
+    return {
+      type: "spikes",
+      x: 0,
+      width: Math.round(random.range(60, 140)),
+      height: random.int(30, 60),
+    };
+  }
+  if (roll < 0.8) {
+    return {
+      type: "crate",
+      x: 0,
+      width: random.int(50, 70),
+      breakSpeed: random.pick([360, 420, 480]),
+    };
+  }
+  return {
+    type: "bouncePad",
+    x: 0,
+    width: random.int(80, 100),
+    strength: random.pick([1200, 1400]),
+  };
+}
+
+function placeCheckpoints(finishX: number) {
+  const checkpoints: Checkpoint[] = [];
+  for (
+    let x = START_RUNWAY + CHECKPOINT_SPACING;
+    x < finishX - CHECKPOINT_SPACING / 2;
+    x += CHECKPOINT_SPACING
+  ) {
+    checkpoints.push({ x });
+  }
+  return checkpoints;
+}
+
+function buildLevel(
+  random: Random,
+  seed: string,
+  difficulty: Difficulty,
+  settings: GeneratorSettings,
+) {
+  const finishX = START_RUNWAY + settings.length;
+  const terrain = buildTerrain(random, settings, finishX);
+  return parseLevel({
+    version: 2,
+    id: generatedLevelId(seed, difficulty),
+    name: `Generated: ${seed}`,
+    metadata: {
+      author: "Course generator",
+      description: `A ${difficulty} course grown from seed "${seed}".`,
+    },
+    start: { x: START_X, y: BASE_GROUND - 140 },
+    finish: { x: finishX },
+    checkpoints: placeCheckpoints(finishX),
+    terrain,
+    hazards: placeHazards(random, settings, terrain, finishX),
+  });
+}
+
+/**
+ * Builds the course for `seed` at `difficulty`. The same pair always gives the
+ * same course. Layouts that fail {@link reachabilityIssues} are thrown away
+ * and retried from a derived seed, so every course returned can be finished.
+ */
+export function generateCourse(seed: string, difficulty: Difficulty): GeneratedCourse {
+  const settings = difficultySettings[difficulty];
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt += 1) {
+    const random = createRandom(`${difficulty}:${seed}:${attempt}`);
+    const level = buildLevel(random, seed, difficulty, settings);
+    if (reachabilityIssues(level).length === 0) {
+      return { seed, difficulty, level };
+    }
+  }
+  // Rolling hills alone are always passable.
+  const level = buildLevel(createRandom(`${difficulty}:${seed}`), seed, difficulty, {
+    ...settings,
+    hazardDensity: 0,
+    gapFrequency: 0,
+  });
+  return { seed, difficulty, level };
+}
+
+/** Lower-cases a typed or linked seed; null if it cannot be used as one. */
+export function normalizeSeed(raw: string) {
+  const seed = raw.trim().toLowerCase();
+  return SEED_PATTERN.test(seed) ? seed : null;
+}
+
+/** A fresh six-character seed. Only the seed is random; the course is not. */
+export function randomSeed() {
+  return Math.floor(Math.random() * 36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
+}
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return difficulties.includes(value as Difficulty);
+}
+
+export function generatedLevelId(seed: string, difficulty: Difficulty) {
+  return `generated-${difficulty}-${seed}`;
+}
+
+/**
+ * Rebuilds a generated course from its level id, so a recording of one can be
+ * checked without the course having been stored anywhere.
+ */
+export function courseFromId(levelId: string) {
+  const match = /^generated-([a-z]+)-(.+)$/.exec(levelId);
+  if (!match || !isDifficulty(match[1])) {
+    return null;
+  }
+  const seed = normalizeSeed(match[2]);
+  return seed === null ? null : generateCourse(seed, match[1]);
+}
+
+/** The level of {@link courseFromId}, for callers that only need the layout. */
+export function generatedLevelFromId(levelId: string) {
+  return courseFromId(levelId)?.level ?? null;
+}
+
+/** The query string (`?seed=…&difficulty=…`) that shares a generated course. */
+export function courseQuery(seed: string, difficulty: Difficulty) {
+  return `?${new URLSearchParams({ seed, difficulty }).toString()}`;
+}
+
+/** The course a shared link points at, or null when it names none. */
+export function courseFromQuery(search: string) {
+  const params = new URLSearchParams(search);
+  const seed = normalizeSeed(params.get("seed") ?? "");
+  if (seed === null) {
+    return null;
+  }
+  const difficulty = params.get("difficulty");
+  return generateCourse(seed, isDifficulty(difficulty) ? difficulty : "normal");
+}
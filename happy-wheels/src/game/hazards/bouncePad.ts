@@ -0,0 +1,68 @@
+import {
+  getGroundHeight,
+  type BouncePadHazard,
+  type LevelDefinition,
+} from "../level";
+import { createHazardState, type HazardBehavior } from "./types";
+
+const PAD_THICKNESS = 10;
+/** Seconds before a pad can fire again, so one landing gives one launch. */
+const PAD_COOLDOWN = 0.25;
+
+function padTop(level: LevelDefinition, pad: BouncePadHazard) {
+  return getGroundHeight(level, pad.x + pad.width / 2) - PAD_THICKNESS;
+}
+
+export const bouncePad: HazardBehavior<BouncePadHazard> = {
+  label: "Bounce pad",
+  fields: [
+    { key: "width", label: "Width", min: 30, step: 10 },
+    { key: "strength", label: "Strength", min: 100, step: 50 },
+  ],
+  create: (centerX) => ({
+    type: "bouncePad",
+    x: Math.round(centerX - 45),
+    width: 90,
+    strength: 1400,
+  }),
+  createState: (pad) => createHazardState(pad.x, 0),
+  bounds: (pad, _state, level) => {
+    const top = padTop(level, pad);
+    return {
+      left: pad.x,
+      top: top - 8,
+      right: pad.x + pad.width,
+      bottom: top + PAD_THICKNESS + 4,
+    };
+  },
+  update: (_pad, state, context) => {
+    state.timer = Math.max(0, state.timer - context.dt);
+  },
+  contact: (pad, state, { level, player, rider }) => {
+    const { foot } = rider;
+    if (
+      state.timer > 0 ||
+      foot.x < pad.x ||
+      foot.x > pad.x + pad.width ||
+      foot.y < padTop(level, pad) ||
+      player.vy < -pad.strength * 0.5
+    ) {
+      return false;
+    }
+    player.vy = Math.min(player.vy, 0) - pad.strength;
+    state.timer = PAD_COOLDOWN;
+    return false;
+  },
+  draw: (ctx, pad, state, level) => {
+    const top = padTop(level, pad);
+    // Squash briefly right after firing.
+    const squash = state.timer > 0 ? 4 * (state.timer / PAD_COOLDOWN) : 0;
+    ctx.save();
+    ctx.translate(pad.x, top + squash);
+    ctx.fillStyle = "#2b9f6e";
+    ctx.fillRect(0, 0, pad.width, PAD_THICKNESS - squash);
+    ctx.fillStyle = "#7df0b8";
+    ctx.fillRect(6, 2, pad.width - 12, 3);
+    ctx.restore();
+  },
+};
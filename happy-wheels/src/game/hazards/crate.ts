@@ -0,0 +1,115 @@
+import { getGroundHeight, type CrateHazard, type LevelDefinition } from "../level";
+import { createHazardState, type HazardBehavior, type Point } from "./types";
+
+/** How far into the box top something may sink and still be set back on it. */
+const LANDING_TOLERANCE = 30;
+
+function crateBox(level: LevelDefinition, crate: CrateHazard) {
+  const bottom = getGroundHeight(level, crate.x + crate.width / 2);
+  return {
+    left: crate.x,
+    right: crate.x + crate.width,
+    top: bottom - crate.width,
+    bottom,
+  };
+}
+
+function inside(box: ReturnType<typeof crateBox>, point: Point) {
+  return (
+    point.x > box.left &&
+    point.x < box.right &&
+    point.y > box.top + 6 &&
+    point.y < box.bottom
+  );
+}
+
+export const crate: HazardBehavior<CrateHazard> = {
+  label: "Crate",
+  fields: [
+    { key: "width", label: "Size", min: 30, step: 10 },
+    { key: "breakSpeed", label: "Break speed", min: 50, step: 50 },
+  ],
+  create: (centerX) => ({
+    type: "crate",
+    x: Math.round(centerX - 35),
+    width: 70,
+    breakSpeed: 420,
+  }),
+  createState: (box) => createHazardState(box.x, 0),
+  bounds: (box, _state, level) => crateBox(level, box),
+  update: (_box, state, context) => {
+    if (!state.intact) {
+      state.brokenFor += context.dt;
+    }
+  },
+  surfaceAt: (box, state, level, x, y) => {
+    const area = crateBox(level, box);
+    if (
+      !state.intact ||
+      x < area.left ||
+      x > area.right ||
+      y > area.top + LANDING_TOLERANCE
+    ) {
+      return null;
+    }
+    return area.top;
+  },
+  contact: (box, state, { level, player, rider }) => {
+    if (!state.intact) {
+      return false;
+    }
+    const area = crateBox(level, box);
+    const hit = [rider.body, rider.foot, rider.head].find((point) =>
+      inside(area, point),
+    );
+    if (!hit) {
+      return false;
+    }
+    if (Math.abs(player.vx) >= box.breakSpeed) {
+      state.intact = false;
+      player.vx *= 0.75;
+      return false;
+    }
+    // Too slow to smash it: get shoved back out of the side that was hit.
+    const fromLeft = hit.x < (area.left + area.right) / 2;
+    player.x += fromLeft ? area.left - hit.x - 1 : area.right - hit.x + 1;
+    player.vx = (fromLeft ? -1 : 1) * Math.abs(player.vx) * 0.3;
+    return false;
+  },
+  draw: (ctx, box, state, level) => {
+    const area = crateBox(level, box);
+    const size = box.width;
+    ctx.save();
+    ctx.translate(area.left, area.top);
+    if (!state.intact) {
+      // Four planks flying apart and fading out.
+      const t = state.brokenFor;
+      ctx.globalAlpha = Math.max(0, 1 - t * 1.2);
+      ctx.fillStyle = "#9a6a3c";
+      for (let i = 0; i < 4; i += 1) {
+        const side = i % 2 === 0 ? -1 : 1;
+        const dx = side * (60 + i * 25) * t;
+        const dy = -220 * t + 900 * t * t + (i < 2 ? 0 : size / 2);
+        ctx.save();
+        ctx.translate(size / 2 + dx, dy);
+        ctx.rotate(side * t * (4 + i));
+        ctx.fillRect(-size / 2, -6, size, 12);
+        ctx.restore();
+      }
+      ctx.restore();
+      return;
+    }
+    ctx.fillStyle = "#9a6a3c";
+    ctx.fillRect(0, 0, size, size);
+    ctx.strokeStyle = "#5e3d20";
+    ctx.lineWidth = 4;
+    ctx.strokeRect(2, 2, size - 4, size - 4);
+    ctx.beginPath();
+    ctx.moveTo(4, 4);
+    ctx.lineTo(size - 4, size - 4);
+    ctx.moveTo(size - 4, 4);
+    ctx.lineTo(4, size - 4);
+    ctx.stroke();
+    ctx.restore();
+  },
+};
@@ -0,0 +1,136 @@
+import type { Hazard, HazardType, LevelDefinition } from "../level";
+import type { PlayerState } from "../physics";
+import { bouncePad } from "./bouncePad";
+import { crate } from "./crate";
+import { platform } from "./platform";
+import { saw } from "./saw";
+import { spikes } from "./spikes";
+import type {
+  HazardBehavior,
+  HazardContext,
+  HazardField,
+  HazardState,
+  RiderProbe,
+} from "./types";
+import { wind } from "./wind";
+
+export { spikeBase, touchesSpikes } from "./spikes";
+export type {
+  HazardBehavior,
+  HazardBounds,
+  HazardContext,
+  HazardField,
+  HazardState,
+  RiderProbe,
+} from "./types";
+
+/**
+ * Every hazard type the game knows. A new type needs its fields declared in
+ * `level.ts` and a behaviour registered here.
+ */
+export const hazardBehaviors: {
+  [T in HazardType]: HazardBehavior<Extract<Hazard, { type: T }>>;
+} = {
+  spikes,
+  saw,
+  bouncePad,
+  crate,
+  platform,
+  wind,
+};
+
+export function behaviorFor(hazard: Hazard) {
+  return hazardBehaviors[hazard.type] as HazardBehavior<Hazard>;
+}
+
+/** The value `hazard` has for one of the fields its behaviour lists. */
+export function hazardFieldValue<H extends Hazard>(
+  hazard: H,
+  field: HazardField<H>,
+) {
+  return hazard[field.key];
+}
+
+export function createHazardStates(level: LevelDefinition): HazardState[] {
+  return level.hazards.map((hazard) =>
+    behaviorFor(hazard).createState(hazard, level),
+  );
+}
+
+export function createHazard(type: HazardType, centerX: number): Hazard {
+  return hazardBehaviors[type].create(centerX);
+}
+
+/** World-space points on the rider, using the same geometry as the physics. */
+export function riderProbe(player: PlayerState): RiderProbe {
+  const sin = Math.sin(player.angle);
+  const cos = Math.cos(player.angle);
+  return {
+    head: {
+      x: player.x - sin * player.headOffset,
+      y: player.y - cos * player.headOffset,
+    },
+    headRadius: player.headRadius,
+    body: { x: player.x, y: player.y },
+    foot: {
+      x: player.x + sin * player.legLength,
+      y: player.y + cos * player.legLength,
+    },
+  };
+}
+
+export function updateHazards(
+  level: LevelDefinition,
+  states: HazardState[],
+  context: HazardContext,
+) {
+  level.hazards.forEach((hazard, index) => {
+    behaviorFor(hazard).update?.(hazard, states[index], context);
+  });
+}
+
+/**
+ * Top of the highest crate, platform, or other hazard surface the rider's
+ * foot lands on at `x` when it is at height `y`, or null if there is none.
+ */
+export function hazardSurfaceHeight(
+  level: LevelDefinition,
+  states: HazardState[],
+  x: number,
+  y: number,
+) {
+  let height: number | null = null;
+  for (let i = 0; i < level.hazards.length; i += 1) {
+    const hazard = level.hazards[i];
+    const surface = behaviorFor(hazard).surfaceAt?.(
+      hazard,
+      states[i],
+      level,
+      x,
+      y,
+    );
+    if (surface !== undefined && surface !== null) {
+      height = height === null ? surface : Math.min(height, surface);
+    }
+  }
+  return height;
+}
+
+/**
+ * Lets every hazard act on the rider; returns the first one whose touch was
+ * fatal, or null if the rider survived them all.
+ */
+export function applyHazardContacts(
+  level: LevelDefinition,
+  states: HazardState[],
+  context: HazardContext,
+) {
+  let fatal: Hazard | null = null;
+  for (let i = 0; i < level.hazards.length; i += 1) {
+    const hazard = level.hazards[i];
+    if (behaviorFor(hazard).contact(hazard, states[i], context)) {
+      fatal ??= hazard;
+    }
+  }
+  return fatal;
+}
@@ -0,0 +1,100 @@
+import {
+  getGroundHeight,
+  type LevelDefinition,
+  type PlatformHazard,
+} from "../level";
+import { createHazardState, type HazardBehavior } from "./types";
+
+const THICKNESS = 16;
+/** How far into the slab the foot may sink and still be set back on top. */
+const LANDING_TOLERANCE = 30;
+
+function platformTop(level: LevelDefinition, platform: PlatformHazard) {
+  return getGroundHeight(level, platform.x + platform.width / 2) - platform.height;
+}
+
+export const platform: HazardBehavior<PlatformHazard> = {
+  label: "Crumbling platform",
+  fields: [
+    { key: "width", label: "Width", min: 40, step: 10 },
+    { key: "height", label: "Height", min: 20, step: 10 },
+    { key: "crumbleTime", label: "Crumble (s)", min: 0.1, step: 0.1 },
+  ],
+  create: (centerX) => ({
+    type: "platform",
+    x: Math.round(centerX - 80),
+    width: 160,
+    height: 140,
+    crumbleTime: 0.6,
+  }),
+  createState: (ledge) => createHazardState(ledge.x, 0),
+  bounds: (ledge, _state, level) => {
+    const top = platformTop(level, ledge);
+    return {
+      left: ledge.x,
+      top,
+      right: ledge.x + ledge.width,
+      bottom: top + THICKNESS,
+    };
+  },
+  update: (ledge, state, { level, rider, onGround, dt }) => {
+    if (!state.intact) {
+      state.brokenFor += dt;
+      return;
+    }
+    const top = platformTop(level, ledge);
+    const standing =
+      onGround &&
+      rider.foot.x >= ledge.x &&
+      rider.foot.x <= ledge.x + ledge.width &&
+      Math.abs(rider.foot.y - top) < 4;
+    if (standing) {
+      state.timer += dt;
+      if (state.timer >= ledge.crumbleTime) {
+        state.intact = false;
+      }
+    }
+  },
+  surfaceAt: (ledge, state, level, x, y) => {
+    const top = platformTop(level, ledge);
+    if (
+      !state.intact ||
+      x < ledge.x ||
+      x > ledge.x + ledge.width ||
+      y > top + LANDING_TOLERANCE
+    ) {
+      return null;
+    }
+    return top;
+  },
+  contact: () => false,
+  draw: (ctx, ledge, state, level) => {
+    const fall = 0.5 * 2400 * state.brokenFor * state.brokenFor;
+    const alpha = state.intact ? 1 : Math.max(0, 1 - state.brokenFor * 1.5);
+    if (alpha <= 0) {
+      return;
+    }
+    // Cracks open up the longer it is stood on.
+    const wear = Math.min(1, state.timer / ledge.crumbleTime);
+    const shake = state.intact && wear > 0 ? Math.sin(state.timer * 80) * 2 * wear : 0;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.translate(ledge.x + shake, platformTop(level, ledge) + fall);
+    ctx.fillStyle = "#6f6a86";
+    ctx.fillRect(0, 0, ledge.width, THICKNESS);
+    ctx.fillStyle = "#9d98b8";
+    ctx.fillRect(0, 0, ledge.width, 4);
+    ctx.strokeStyle = "#2c2838";
+    ctx.lineWidth = 2;
+    const cracks = Math.round(wear * 5);
+    for (let i = 1; i <= cracks; i += 1) {
+      const cx = (ledge.width * i) / (cracks + 1);
+      ctx.beginPath();
+      ctx.moveTo(cx, 0);
+      ctx.lineTo(cx + 6, THICKNESS / 2);
+      ctx.lineTo(cx - 2, THICKNESS);
+      ctx.stroke();
+    }
+    ctx.restore();
+  },
+};
@@ -0,0 +1,95 @@
+import { getGroundHeight, type LevelDefinition, type SawHazard } from "../level";
+import {
+  createHazardState,
+  distanceToSegment,
+  type HazardBehavior,
+} from "./types";
+
+/** Where the hub sits `elapsed` seconds into the run. */
+function sawPosition(level: LevelDefinition, saw: SawHazard, elapsed: number) {
+  const travel = Math.max(0, saw.width - saw.radius * 2);
+  // Triangle wave: 0 → 1 → 0 over one period.
+  const phase = (elapsed / saw.period) % 1;
+  const along = phase < 0.5 ? phase * 2 : 2 - phase * 2;
+  const x = saw.x + saw.width / 2 - travel / 2 + travel * along;
+  return { x, y: getGroundHeight(level, x) - saw.height };
+}
+
+export const saw: HazardBehavior<SawHazard> = {
+  label: "Moving saw",
+  fields: [
+    { key: "width", label: "Track", min: 40, step: 20 },
+    { key: "height", label: "Height", min: 0, step: 10 },
+    { key: "radius", label: "Radius", min: 10, step: 5 },
+    { key: "period", label: "Period (s)", min: 0.5, step: 0.5 },
+  ],
+  create: (centerX) => ({
+    type: "saw",
+    x: Math.round(centerX - 120),
+    width: 240,
+    height: 70,
+    radius: 36,
+    period: 3,
+  }),
+  createState: (blade, level) => {
+    const { x, y } = sawPosition(level, blade, 0);
+    return createHazardState(x, y);
+  },
+  bounds: (blade, _state, level) => {
+    const ground = getGroundHeight(level, blade.x + blade.width / 2);
+    return {
+      left: blade.x,
+      top: ground - blade.height - blade.radius,
+      right: blade.x + blade.width,
+      bottom: ground - blade.height + blade.radius,
+    };
+  },
+  update: (blade, state, context) => {
+    // `timer` doubles as the run clock so the blade's path is tick-exact.
+    state.timer += context.dt;
+    const { x, y } = sawPosition(context.level, blade, state.timer);
+    state.x = x;
+    state.y = y;
+  },
+  contact: (blade, state, { rider }) => {
+    const hub = { x: state.x, y: state.y };
+    return (
+      Math.hypot(rider.head.x - hub.x, rider.head.y - hub.y) <
+        rider.headRadius + blade.radius * 0.85 ||
+      distanceToSegment(hub, rider.body, rider.foot) < blade.radius * 0.85 + 6
+    );
+  },
+  draw: (ctx, blade, state) => {
+    const teeth = 14;
+    ctx.save();
+    ctx.translate(state.x, state.y);
+
+    // mounting arm back down to the ground
+    ctx.strokeStyle = "rgba(30, 34, 52, 0.9)";
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(0, blade.height);
+    ctx.stroke();
+
+    ctx.rotate(state.timer * 9);
+    ctx.fillStyle = "#b9c0d4";
+    ctx.beginPath();
+    for (let i = 0; i < teeth; i += 1) {
+      const a = (i / teeth) * Math.PI * 2;
+      const b = ((i + 0.5) / teeth) * Math.PI * 2;
+      ctx.lineTo(Math.cos(a) * blade.radius, Math.sin(a) * blade.radius);
+      ctx.lineTo(
+        Math.cos(b) * blade.radius * 0.78,
+        Math.sin(b) * blade.radius * 0.78,
+      );
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.fillStyle = "#5a5e6d";
+    ctx.beginPath();
+    ctx.arc(0, 0, blade.radius * 0.28, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  },
+};
@@ -0,0 +1,86 @@
+import {
+  getGroundHeight,
+  type LevelDefinition,
+  type SpikeHazard,
+} from "../level";
+import {
+  createHazardState,
+  type HazardBehavior,
+  type RiderProbe,
+} from "./types";
+
+/** Ground height the field stands on; its tips are `field.height` above. */
+export function spikeBase(level: LevelDefinition, field: SpikeHazard) {
+  return getGroundHeight(level, field.x + field.width / 2);
+}
+
+/**
+ * True if the rider's head, body, or whatever they ride on has come down onto
+ * the spike tips. Rolling a wheel or planting the pogo's foot between them
+ * counts as much as falling on them.
+ */
+export function touchesSpikes(
+  level: LevelDefinition,
+  field: SpikeHazard,
+  rider: RiderProbe,
+) {
+  const top = spikeBase(level, field) - field.height;
+  const { head, body, foot } = rider;
+  const withinHead = head.x > field.x - 12 && head.x < field.x + field.width + 12;
+  if (withinHead && head.y > top + 4) {
+    return true;
+  }
+  const withinFoot = foot.x > field.x && foot.x < field.x + field.width;
+  if (withinFoot && foot.y > top) {
+    return true;
+  }
+  const withinBody = body.x > field.x - 14 && body.x < field.x + field.width + 14;
+  return withinBody && body.y + 28 > top + 12;
+}
+
+export const spikes: HazardBehavior<SpikeHazard> = {
+  label: "Spikes",
+  fields: [
+    { key: "width", label: "Width", min: 20, step: 10 },
+    { key: "height", label: "Height", min: 10, step: 5 },
+  ],
+  create: (centerX) => ({
+    type: "spikes",
+    x: Math.round(centerX - 50),
+    width: 100,
+    height: 60,
+  }),
+  createState: (field) => createHazardState(field.x, 0),
+  bounds: (field, _state, level) => {
+    const base = spikeBase(level, field);
+    return {
+      left: field.x,
+      top: base - field.height,
+      right: field.x + field.width,
+      bottom: base + 8,
+    };
+  },
+  contact: (field, _state, context) =>
+    touchesSpikes(context.level, field, context.rider),
+  draw: (ctx, field, _state, level) => {
+    const spikeCount = Math.max(3, Math.floor(field.width / 18));
+    const cellWidth = field.width / spikeCount;
+    ctx.save();
+    ctx.translate(field.x, spikeBase(level, field));
+    ctx.fillStyle = "#431822";
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.18)";
+    ctx.lineWidth = 1.5;
+    for (let i = 0; i < spikeCount; i += 1) {
+      const baseX = i * cellWidth;
+      const topY = -field.height;
+      ctx.beginPath();
+      ctx.moveTo(baseX, -6);
+      ctx.lineTo(baseX + cellWidth / 2, topY);
+      ctx.lineTo(baseX + cellWidth, -6);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+    ctx.restore();
+  },
+};
@@ -0,0 +1,110 @@
+import type { Hazard, LevelDefinition } from "../level";
+import type { PlayerState } from "../physics";
+
+/**
+ * The mutable side of a hazard during a run. Level data stays untouched, so
+ * restarting a run (or racing a ghost) just means creating fresh states.
+ */
+export interface HazardState {
+  /** False once a crate is smashed or a platform has given way. */
+  intact: boolean;
+  /** Free-running per-type timer: time stood on a platform, a pad's cooldown, wind gusts. */
+  timer: number;
+  /** Seconds since the hazard broke, for debris and falling animations. */
+  brokenFor: number;
+  /** Current centre of a hazard that moves. */
+  x: number;
+  y: number;
+}
+
+export interface HazardBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** The parts of the rider hazards test against, in world space. */
+export interface RiderProbe {
+  head: Point;
+  headRadius: number;
+  /** The saddle, where the rider's weight sits. */
+  body: Point;
+  /** Where the vehicle meets the ground: the pogo's foot, the bottom of a wheel. */
+  foot: Point;
+}
+
+export interface HazardContext {
+  level: LevelDefinition;
+  player: PlayerState;
+  rider: RiderProbe;
+  onGround: boolean;
+  dt: number;
+}
+
+/** A numeric property of `H` the level editor lets you tweak. */
+export interface HazardField<H extends Hazard = Hazard> {
+  key: Exclude<keyof H, "type"> & string;
+  label: string;
+  min?: number;
+  step: number;
+}
+
+/**
+ * Everything the game needs to know about one kind of hazard. Each built-in
+ * type implements this in its own module and is registered in `./index`.
+ */
+export interface HazardBehavior<H extends Hazard> {
+  label: string;
+  fields: HazardField<H>[];
+  /** A sensible default centred on `centerX`, for the editor's Add button. */
+  create(centerX: number): H;
+  createState(hazard: H, level: LevelDefinition): HazardState;
+  /** World-space box the hazard currently covers; used for culling and picking. */
+  bounds(hazard: H, state: HazardState, level: LevelDefinition): HazardBounds;
+  /** Advances the hazard's own motion or timers by one tick. */
+  update?(hazard: H, state: HazardState, context: HazardContext): void;
+  /**
+   * Top of a solid surface the hazard offers at `x` to something at height
+   * `y`, or null. Surfaces are one-way: only things at or above them land.
+   */
+  surfaceAt?(
+    hazard: H,
+    state: HazardState,
+    level: LevelDefinition,
+    x: number,
+    y: number,
+  ): number | null;
+  /** Applies the hazard's effect to a touching rider; returns true if the touch is fatal. */
+  contact(hazard: H, state: HazardState, context: HazardContext): boolean;
+  draw(
+    ctx: CanvasRenderingContext2D,
+    hazard: H,
+    state: HazardState,
+    level: LevelDefinition,
+  ): void;
+}
+
+export function createHazardState(x: number, y: number): HazardState {
+  return { intact: true, timer: 0, brokenFor: 0, x, y };
+}
+
+/** Shortest distance from `point` to the segment `a`–`b`. */
+export function distanceToSegment(point: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.min(
+          1,
+          Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq),
+        );
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t));
+}
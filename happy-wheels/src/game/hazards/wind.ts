@@ -0,0 +1,61 @@
+import type { WindHazard } from "../level";
+import { createHazardState, type HazardBehavior } from "./types";
+
+/** Wind zones reach this far above and below the level's origin. */
+const ZONE_HEIGHT = 2000;
+
+export const wind: HazardBehavior<WindHazard> = {
+  label: "Wind zone",
+  fields: [
+    { key: "width", label: "Width", min: 40, step: 20 },
+    { key: "force", label: "Force", step: 50 },
+  ],
+  create: (centerX) => ({
+    type: "wind",
+    x: Math.round(centerX - 150),
+    width: 300,
+    force: 600,
+  }),
+  createState: (zone) => createHazardState(zone.x, 0),
+  bounds: (zone) => ({
+    left: zone.x,
+    top: -ZONE_HEIGHT,
+    right: zone.x + zone.width,
+    bottom: ZONE_HEIGHT,
+  }),
+  update: (_zone, state, context) => {
+    state.timer += context.dt;
+  },
+  contact: (zone, _state, { player, dt }) => {
+    if (player.x >= zone.x && player.x <= zone.x + zone.width) {
+      player.vx += zone.force * dt;
+    }
+    return false;
+  },
+  draw: (ctx, zone, state) => {
+    const direction = Math.sign(zone.force) || 1;
+    const height = ZONE_HEIGHT * 2;
+    ctx.save();
+    ctx.translate(zone.x, -ZONE_HEIGHT);
+    ctx.fillStyle = "rgba(150, 200, 255, 0.06)";
+    ctx.fillRect(0, 0, zone.width, height);
+    ctx.beginPath();
+    ctx.rect(0, 0, zone.width, height);
+    ctx.clip();
+    // Streaks drift with the wind; faster wind, faster streaks.
+    ctx.strokeStyle = "rgba(200, 225, 255, 0.35)";
+    ctx.lineWidth = 2;
+    const speed = 60 + Math.abs(zone.force) * 0.25;
+    const rows = Math.max(4, Math.floor(height / 70));
+    for (let row = 0; row < rows; row += 1) {
+      const offset = (state.timer * speed + row * 97) % (zone.width + 80);
+      const x = direction > 0 ? offset - 40 : zone.width + 40 - offset;
+      const y = 40 + row * 70 + (row % 2) * 20;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x - direction * 36, y);
+      ctx.stroke();
+    }
+    ctx.restore();
+  },
+};
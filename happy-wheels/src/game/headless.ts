@@ -0,0 +1,128 @@
+import type { LevelDefinition } from "./level";
+import {
+  createSimulation,
+  FIXED_STEP,
+  stepSimulation,
+  type CrashCause,
+  type Simulation,
+} from "./physics";
+import {
+  applyRecordedInput,
+  createReplayCursor,
+  type RunOutcome,
+  type RunRecording,
+} from "./replay";
+
+/** Where the rider was after one tick of a headless run. */
+export interface TrajectorySample {
+  tick: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  angle: number;
+  onGround: boolean;
+}
+
+export interface HeadlessRun {
+  /** Null if the run was still going at the tick limit. */
+  outcome: RunOutcome | null;
+  ticks: number;
+  crash: CrashCause | null;
+  /** The start position, then one sample per tick. */
+  trajectory: TrajectorySample[];
+}
+
+/** How a golden replay fared against the current physics. */
+export interface GoldenCheck {
+  recording: RunRecording;
+  run: HeadlessRun;
+  passed: boolean;
+}
+
+function sample(sim: Simulation): TrajectorySample {
+  const { player } = sim;
+  return {
+    tick: sim.tick,
+    x: player.x,
+    y: player.y,
+    vx: player.vx,
+    vy: player.vy,
+    angle: player.angle,
+    onGround: sim.onGround,
+  };
+}
+
+/**
+ * Replays a recording on `level` with the same fixed-step physics as the
+ * game, keeping the rider's path. Unlike {@link simulateRun} it also notes
+ * why a crash happened, which is what balancing a course needs.
+ */
+export function runHeadless(
+  level: LevelDefinition,
+  recording: RunRecording,
+  maxTicks: number,
+): HeadlessRun {
+  let outcome: RunOutcome | null = null;
+  let crash: CrashCause | null = null;
+  const sim = createSimulation(
+    level,
+    {
+      handleWin: () => {
+        outcome ??= "won";
+      },
+      handleCrash: (cause) => {
+        if (outcome === null) {
+          outcome = "crashed";
+          crash = cause;
+        }
+      },
+    },
+    recording.vehicle,
+  );
+  const cursor = createReplayCursor(recording);
+  const trajectory = [sample(sim)];
+  while (outcome === null && sim.tick < maxTicks) {
+    applyRecordedInput(cursor, sim.tick, sim.input);
+    stepSimulation(sim);
+    trajectory.push(sample(sim));
+  }
+  return { outcome, ticks: sim.tick, crash, trajectory };
+}
+
+/**
+ * Replays a known-good recording and checks it still ends the way it was
+ * recorded, on the same tick. A physics change that fails this has changed
+ * how existing runs play out, ghosts and leaderboard entries included.
+ */
+export function checkGolden(
+  level: LevelDefinition,
+  recording: RunRecording,
+): GoldenCheck {
+  const run = runHeadless(level, recording, recording.ticks + 1);
+  return {
+    recording,
+    run,
+    passed: run.outcome === recording.outcome && run.ticks === recording.ticks,
+  };
+}
+
+/** The trajectory as CSV with a header row, one line per tick. */
+export function trajectoryCsv(trajectory: TrajectorySample[]) {
+  const lines = ["tick,time,x,y,vx,vy,angle,onGround"];
+  for (const point of trajectory) {
+    lines.push(
+      [
+        point.tick,
+        (point.tick * FIXED_STEP).toFixed(4),
+        point.x.toFixed(3),
+        point.y.toFixed(3),
+        point.vx.toFixed(3),
+        point.vy.toFixed(3),
+        point.angle.toFixed(5),
+        point.onGround ? 1 : 0,
+      ].join(","),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
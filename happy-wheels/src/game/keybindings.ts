@@ -0,0 +1,185 @@
+import type { ControlAction } from "./controls";
+
+/** Everything the keyboard can trigger: the rider controls plus menu actions. */
+export type KeyAction = ControlAction | "start" | "restart" | "pause";
+
+/** `KeyboardEvent.code` values bound to each action, in display order. */
+export type KeyBindings = Record<KeyAction, string[]>;
+
+export const keyActions: KeyAction[] = [
+  "left",
+  "right",
+  "jump",
+  "start",
+  "restart",
+  "pause",
+];
+
+export const keyActionLabels: Record<KeyAction, string> = {
+  left: "Lean back",
+  right: "Lean forward",
+  jump: "Pogo jump",
+  start: "Start run",
+  restart: "Restart",
+  pause: "Pause",
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ["ArrowLeft", "KeyA"],
+  right: ["ArrowRight", "KeyD"],
+  jump: ["ArrowUp", "KeyW", "Space"],
+  start: ["Enter"],
+  restart: ["KeyR"],
+  pause: ["KeyP"],
+};
+
+/** Keys that always keep their built-in meaning (pausing, closing menus, leaving playtest). */
+export const RESERVED_KEYS = new Set(["Escape", "Tab"]);
+
+export const MAX_KEYS_PER_ACTION = 3;
+
+export function createKeyBindings(): KeyBindings {
+  return {
+    left: DEFAULT_KEY_BINDINGS.left.slice(),
+    right: DEFAULT_KEY_BINDINGS.right.slice(),
+    jump: DEFAULT_KEY_BINDINGS.jump.slice(),
+    start: DEFAULT_KEY_BINDINGS.start.slice(),
+    restart: DEFAULT_KEY_BINDINGS.restart.slice(),
+    pause: DEFAULT_KEY_BINDINGS.pause.slice(),
+  };
+}
+
+export function actionForKey(
+  bindings: KeyBindings,
+  code: string,
+): KeyAction | null {
+  return keyActions.find((action) => bindings[action].includes(code)) ?? null;
+}
+
+export type BindResult =
+  | { ok: true; bindings: KeyBindings }
+  | { ok: false; reason: "reserved" | "full" }
+  | { ok: false; reason: "conflict"; action: KeyAction };
+
+/**
+ * Adds `code` to `action`. A key can only drive one action, so a key already
+ * bound elsewhere is reported as a conflict instead of being silently moved.
+ */
+export function bindKey(
+  bindings: KeyBindings,
+  action: KeyAction,
+  code: string,
+): BindResult {
+  if (RESERVED_KEYS.has(code)) {
+    return { ok: false, reason: "reserved" };
+  }
+  const owner = actionForKey(bindings, code);
+  if (owner === action) {
+    return { ok: true, bindings };
+  }
+  if (owner !== null) {
+    return { ok: false, reason: "conflict", action: owner };
+  }
+  if (bindings[action].length >= MAX_KEYS_PER_ACTION) {
+    return { ok: false, reason: "full" };
+  }
+  return {
+    ok: true,
+    bindings: { ...bindings, [action]: [...bindings[action], code] },
+  };
+}
+
+/** Moves `code` from whichever action holds it onto `action`. */
+export function reassignKey(
+  bindings: KeyBindings,
+  action: KeyAction,
+  code: string,
+): KeyBindings {
+  const freed = unbindKey(bindings, code);
+  const keys = freed[action].slice(0, MAX_KEYS_PER_ACTION - 1);
+  return { ...freed, [action]: [...keys, code] };
+}
+
+export function unbindKey(bindings: KeyBindings, code: string): KeyBindings {
+  const next = createKeyBindings();
+  for (const action of keyActions) {
+    next[action] = bindings[action].filter((bound) => bound !== code);
+  }
+  return next;
+}
+
+const keyNames: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Space: "Space",
+  Enter: "Enter",
+  ShiftLeft: "Left Shift",
+  ShiftRight: "Right Shift",
+  ControlLeft: "Left Ctrl",
+  ControlRight: "Right Ctrl",
+  AltLeft: "Left Alt",
+  AltRight: "Right Alt",
+};
+
+/** Short human-readable name for a `KeyboardEvent.code`. */
+export function describeKey(code: string) {
+  if (keyNames[code]) {
+    return keyNames[code];
+  }
+  if (code.startsWith("Key")) {
+    return code.slice(3);
+  }
+  if (code.startsWith("Digit")) {
+    return code.slice(5);
+  }
+  if (code.startsWith("Numpad")) {
+    return `Num ${code.slice(6)}`;
+  }
+  return code;
+}
+
+export function describeBinding(bindings: KeyBindings, action: KeyAction) {
+  const keys = bindings[action];
+  return keys.length === 0 ? "unbound" : keys.map(describeKey).join(" / ");
+}
+
+/**
+ * Reads bindings from a save. Unknown actions and non-string entries are
+ * dropped, a key claimed twice stays with the first action that lists it, and
+ * actions missing from the save get whichever of their defaults are still free.
+ */
+export function sanitizeKeyBindings(raw: unknown): KeyBindings {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return createKeyBindings();
+  }
+  const source = raw as Record<string, unknown>;
+  const bindings = createKeyBindings();
+  const seen = new Set<string>();
+  const missing: KeyAction[] = [];
+  for (const action of keyActions) {
+    const keys = source[action];
+    if (!Array.isArray(keys)) {
+      missing.push(action);
+      continue;
+    }
+    bindings[action] = [];
+    for (const code of keys) {
+      if (
+        typeof code === "string" &&
+        !RESERVED_KEYS.has(code) &&
+        !seen.has(code) &&
+        bindings[action].length < MAX_KEYS_PER_ACTION
+      ) {
+        seen.add(code);
+        bindings[action].push(code);
+      }
+    }
+  }
+  for (const action of missing) {
+    bindings[action] = bindings[action].filter((code) => !seen.has(code));
+    bindings[action].forEach((code) => seen.add(code));
+  }
+  return bindings;
+}
@@ -0,0 +1,584 @@
+export const LEVEL_SCHEMA_VERSION = 2;
+/** Older files that still load as-is: version 1 predates pits and surfaces. */
+const READABLE_VERSIONS = [1, LEVEL_SCHEMA_VERSION];
+
+/**
+ * One stretch of the main ground, which runs left to right and is solid all
+ * the way down beneath it.
+ */
+export interface TerrainSegment {
+  startX: number;
+  endX: number;
+  startY: number;
+  endY: number;
+  /** An open pit instead of ground; the rider falls straight through. */
+  gap?: boolean;
+}
+
+export interface SurfacePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A free-standing line of terrain: a ledge, ceiling, overhang, or loop. Each
+ * edge is solid only on its right-hand side as you walk from one point to the
+ * next (so left-to-right is a floor and right-to-left a ceiling); closed
+ * surfaces also join the last point back to the first and are filled.
+ */
+export interface TerrainSurface {
+  points: SurfacePoint[];
+  closed?: boolean;
+}
+
+/**
+ * Every hazard occupies the horizontal span `x`..`x + width`; the remaining
+ * fields depend on its type. Heights are measured up from the ground.
+ */
+export interface SpikeHazard {
+  type: "spikes";
+  x: number;
+  width: number;
+  height: number;
+}
+
+/** A spinning blade that sweeps back and forth across its span. */
+export interface SawHazard {
+  type: "saw";
+  x: number;
+  width: number;
+  /** Height of the blade's hub above the ground. */
+  height: number;
+  radius: number;
+  /** Seconds for one full trip there and back. */
+  period: number;
+}
+
+export interface BouncePadHazard {
+  type: "bouncePad";
+  x: number;
+  width: number;
+  /** Upward speed the pad launches the rider with. */
+  strength: number;
+}
+
+/** A box sitting on the ground; hit it fast enough and it smashes. */
+export interface CrateHazard {
+  type: "crate";
+  x: number;
+  /** Crates are square, so this is also their height. */
+  width: number;
+  /** Horizontal speed needed to break through instead of bouncing off. */
+  breakSpeed: number;
+}
+
+/** A ledge that gives way after the rider has stood on it for a while. */
+export interface PlatformHazard {
+  type: "platform";
+  x: number;
+  width: number;
+  height: number;
+  /** Seconds of standing before it collapses. */
+  crumbleTime: number;
+}
+
+export interface WindHazard {
+  type: "wind";
+  x: number;
+  width: number;
+  /** Horizontal acceleration; negative values blow back toward the start. */
+  force: number;
+}
+
+export type Hazard =
+  | SpikeHazard
+  | SawHazard
+  | BouncePadHazard
+  | CrateHazard
+  | PlatformHazard
+  | WindHazard;
+
+export type HazardType = Hazard["type"];
+
+type HazardOf<T extends HazardType> = Extract<Hazard, { type: T }>;
+
+/** The type-specific fields of a hazard, i.e. everything but type, x and width. */
+export type HazardParams<T extends HazardType> = Omit<
+  HazardOf<T>,
+  "type" | "x" | "width"
+>;
+
+type FieldRule = "positive" | "any";
+
+/**
+ * What the loader checks for each hazard type besides `x` and a positive
+ * `width`. Adding a hazard type starts here, then gets a case in
+ * `readHazard`.
+ */
+const hazardFieldRules: {
+  [T in HazardType]: Record<keyof HazardParams<T>, FieldRule>;
+} = {
+  spikes: { height: "positive" },
+  saw: { height: "positive", radius: "positive", period: "positive" },
+  bouncePad: { strength: "positive" },
+  crate: { breakSpeed: "positive" },
+  platform: { height: "positive", crumbleTime: "positive" },
+  wind: { force: "any" },
+};
+
+export const hazardTypes = Object.keys(hazardFieldRules) as HazardType[];
+
+function isHazardType(value: unknown): value is HazardType {
+  return hazardTypes.includes(value as HazardType);
+}
+
+/** A flag the rider can respawn at after crashing further along. */
+export interface Checkpoint {
+  x: number;
+}
+
+export interface LevelMetadata {
+  author?: string;
+  description?: string;
+}
+
+export interface LevelDefinition {
+  version: typeof LEVEL_SCHEMA_VERSION;
+  id: string;
+  name: string;
+  metadata: LevelMetadata;
+  start: { x: number; y: number };
+  finish: { x: number };
+  /** Respawn points between start and finish, in course order. */
+  checkpoints: Checkpoint[];
+  terrain: TerrainSegment[];
+  surfaces: TerrainSurface[];
+  hazards: Hazard[];
+}
+
+export class LevelValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid level file:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "LevelValidationError";
+    this.issues = issues;
+  }
+}
+
+type Issues = string[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readNumber(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+) {
+  const value = source[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push(`${path}.${key} must be a finite number`);
+    return 0;
+  }
+  return value;
+}
+
+function readString(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+) {
+  const value = source[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    issues.push(`${path}.${key} must be a non-empty string`);
+    return "";
+  }
+  return value;
+}
+
+function readOptionalString(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+) {
+  const value = source[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    issues.push(`${path}.${key} must be a string when present`);
+    return undefined;
+  }
+  return value;
+}
+
+function parseTerrain(raw: unknown, issues: Issues) {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    issues.push("level.terrain must be a non-empty array of segments");
+    return [];
+  }
+  const segments: TerrainSegment[] = [];
+  raw.forEach((entry, index) => {
+    const path = `level.terrain[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    const segment: TerrainSegment = {
+      startX: readNumber(entry, "startX", path, issues),
+      endX: readNumber(entry, "endX", path, issues),
+      startY: readNumber(entry, "startY", path, issues),
+      endY: readNumber(entry, "endY", path, issues),
+    };
+    if (entry.gap !== undefined) {
+      if (typeof entry.gap === "boolean") {
+        if (entry.gap) {
+          segment.gap = true;
+        }
+      } else {
+        issues.push(`${path}.gap must be a boolean when present`);
+      }
+    }
+    if (segment.endX <= segment.startX) {
+      issues.push(
+        `${path}.endX (${segment.endX}) must be greater than startX (${segment.startX})`,
+      );
+    }
+    const previous = segments[segments.length - 1];
+    if (previous) {
+      if (previous.endX !== segment.startX) {
+        issues.push(
+          `${path}.startX (${segment.startX}) must continue from the previous segment's endX (${previous.endX})`,
+        );
+      }
+      if (previous.endY !== segment.startY) {
+        issues.push(
+          `${path}.startY (${segment.startY}) must continue from the previous segment's endY (${previous.endY})`,
+        );
+      }
+    }
+    segments.push(segment);
+  });
+  return segments;
+}
+
+function parseSurfaces(raw: unknown, issues: Issues) {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    issues.push("level.surfaces must be an array when present");
+    return [];
+  }
+  const surfaces: TerrainSurface[] = [];
+  raw.forEach((entry, index) => {
+    const path = `level.surfaces[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    let closed = false;
+    if (entry.closed !== undefined) {
+      if (typeof entry.closed === "boolean") {
+        closed = entry.closed;
+      } else {
+        issues.push(`${path}.closed must be a boolean when present`);
+      }
+    }
+    const minPoints = closed ? 3 : 2;
+    if (!Array.isArray(entry.points) || entry.points.length < minPoints) {
+      issues.push(`${path}.points must be an array of at least ${minPoints} points`);
+      return;
+    }
+    const points: SurfacePoint[] = [];
+    entry.points.forEach((point: unknown, pointIndex: number) => {
+      const pointPath = `${path}.points[${pointIndex}]`;
+      if (!isRecord(point)) {
+        issues.push(`${pointPath} must be an object with x and y`);
+        return;
+      }
+      const next = {
+        x: readNumber(point, "x", pointPath, issues),
+        y: readNumber(point, "y", pointPath, issues),
+      };
+      const previous = points[points.length - 1];
+      if (previous && previous.x === next.x && previous.y === next.y) {
+        issues.push(`${pointPath} repeats the previous point`);
+      }
+      points.push(next);
+    });
+    surfaces.push(closed ? { points, closed } : { points });
+  });
+  return surfaces;
+}
+
+function parseCheckpoints(raw: unknown, issues: Issues) {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    issues.push("level.checkpoints must be an array when present");
+    return [];
+  }
+  const checkpoints: Checkpoint[] = [];
+  raw.forEach((entry, index) => {
+    const path = `level.checkpoints[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${path} must be an object with x`);
+      return;
+    }
+    const checkpoint = { x: readNumber(entry, "x", path, issues) };
+    const previous = checkpoints[checkpoints.length - 1];
+    if (previous && checkpoint.x <= previous.x) {
+      issues.push(
+        `${path}.x (${checkpoint.x}) must be further along than the previous checkpoint (${previous.x})`,
+      );
+    }
+    checkpoints.push(checkpoint);
+  });
+  return checkpoints;
+}
+
+/**
+ * Reads the fields a hazard of `type` has beyond `x` and `width`, checking
+ * each against its rule in {@link hazardFieldRules}.
+ */
+function hazardFieldReader<T extends HazardType>(
+  type: T,
+  entry: Record<string, unknown>,
+  path: string,
+  issues: Issues,
+) {
+  const rules: Record<keyof HazardParams<T>, FieldRule> = hazardFieldRules[type];
+  return (key: keyof HazardParams<T> & string) => {
+    const before = issues.length;
+    const value = readNumber(entry, key, path, issues);
+    if (rules[key] === "positive" && issues.length === before && value <= 0) {
+      issues.push(`${path}.${key} must be positive`);
+    }
+    return value;
+  };
+}
+
+/** Builds a typed hazard of `type` from an entry whose type has been checked. */
+function readHazard(
+  type: HazardType,
+  x: number,
+  width: number,
+  entry: Record<string, unknown>,
+  path: string,
+  issues: Issues,
+): Hazard {
+  switch (type) {
+    case "spikes": {
+      const field = hazardFieldReader(type, entry, path, issues);
+      return { type, x, width, height: field("height") };
+    }
+    case "saw": {
+      const field = hazardFieldReader(type, entry, path, issues);
+      return {
+        type,
+        x,
+        width,
+        height: field("height"),
+        radius: field("radius"),
+        period: field("period"),
+      };
+    }
+    case "bouncePad": {
+      const field = hazardFieldReader(type, entry, path, issues);
+      return { type, x, width, strength: field("strength") };
+    }
+    case "crate": {
+      const field = hazardFieldReader(type, entry, path, issues);
+      return { type, x, width, breakSpeed: field("breakSpeed") };
+    }
+    case "platform": {
+      const field = hazardFieldReader(type, entry, path, issues);
+      return {
+        type,
+        x,
+        width,
+        height: field("height"),
+        crumbleTime: field("crumbleTime"),
+      };
+    }
+    case "wind": {
+      const field = hazardFieldReader(type, entry, path, issues);
+      return { type, x, width, force: field("force") };
+    }
+  }
+}
+
+function parseHazards(raw: unknown, issues: Issues) {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    issues.push("level.hazards must be an array when present");
+    return [];
+  }
+  const hazards: Hazard[] = [];
+  raw.forEach((entry, index) => {
+    const path = `level.hazards[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    if (!isHazardType(entry.type)) {
+      issues.push(`${path}.type "${String(entry.type)}" is not a known hazard type`);
+      return;
+    }
+    const x = readNumber(entry, "x", path, issues);
+    const width = readNumber(entry, "width", path, issues);
+    if (width <= 0) {
+      issues.push(`${path}.width must be positive`);
+    }
+    hazards.push(readHazard(entry.type, x, width, entry, path, issues));
+  });
+  return hazards;
+}
+
+/**
+ * Validates an untrusted level document (usually parsed JSON) and returns a
+ * typed level. Every problem found is collected so a broken file can be fixed
+ * in one pass; a {@link LevelValidationError} is thrown if there are any.
+ */
+export function parseLevel(raw: unknown): LevelDefinition {
+  const issues: Issues = [];
+  if (!isRecord(raw)) {
+    throw new LevelValidationError(["level must be a JSON object"]);
+  }
+  if (!READABLE_VERSIONS.includes(raw.version as number)) {
+    throw new LevelValidationError([
+      `level.version ${String(raw.version)} is not supported (expected ${READABLE_VERSIONS.join(" or ")})`,
+    ]);
+  }
+
+  const id = readString(raw, "id", "level", issues);
+  const name = readString(raw, "name", "level", issues);
+
+  const metadata: LevelMetadata = {};
+  if (raw.metadata !== undefined) {
+    if (isRecord(raw.metadata)) {
+      metadata.author = readOptionalString(
+        raw.metadata,
+        "author",
+        "level.metadata",
+        issues,
+      );
+      metadata.description = readOptionalString(
+        raw.metadata,
+        "description",
+        "level.metadata",
+        issues,
+      );
+    } else {
+      issues.push("level.metadata must be an object when present");
+    }
+  }
+
+  const start = { x: 0, y: 0 };
+  if (isRecord(raw.start)) {
+    start.x = readNumber(raw.start, "x", "level.start", issues);
+    start.y = readNumber(raw.start, "y", "level.start", issues);
+  } else {
+    issues.push("level.start must be an object with x and y");
+  }
+
+  const finish = { x: 0 };
+  if (isRecord(raw.finish)) {
+    finish.x = readNumber(raw.finish, "x", "level.finish", issues);
+  } else {
+    issues.push("level.finish must be an object with x");
+  }
+
+  const checkpoints = parseCheckpoints(raw.checkpoints, issues);
+  const terrain = parseTerrain(raw.terrain, issues);
+  const surfaces = parseSurfaces(raw.surfaces, issues);
+  const hazards = parseHazards(raw.hazards, issues);
+
+  if (terrain.length > 0) {
+    const minX = terrain[0].startX;
+    const maxX = terrain[terrain.length - 1].endX;
+    if (start.x < minX || start.x > maxX) {
+      issues.push(`level.start.x (${start.x}) must lie within the terrain (${minX}..${maxX})`);
+    }
+    if (finish.x <= start.x || finish.x > maxX) {
+      issues.push(
+        `level.finish.x (${finish.x}) must lie after the start and within the terrain (..${maxX})`,
+      );
+    }
+    checkpoints.forEach((checkpoint, index) => {
+      if (checkpoint.x <= start.x || checkpoint.x >= finish.x) {
+        issues.push(
+          `level.checkpoints[${index}].x (${checkpoint.x}) must lie between the start and the finish`,
+        );
+      }
+    });
+    hazards.forEach((hazard, index) => {
+      if (hazard.x < minX || hazard.x + hazard.width > maxX) {
+        issues.push(`level.hazards[${index}] must lie within the terrain (${minX}..${maxX})`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new LevelValidationError(issues);
+  }
+
+  return {
+    version: LEVEL_SCHEMA_VERSION,
+    id,
+    name,
+    metadata,
+    start,
+    finish,
+    checkpoints,
+    terrain,
+    surfaces,
+    hazards,
+  };
+}
+
+/** Parses level file text, reporting malformed JSON the same way as schema problems. */
+export function parseLevelJson(text: string) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new LevelValidationError([`level file is not valid JSON: ${reason}`]);
+  }
+  return parseLevel(raw);
+}
+
+export function serializeLevel(level: LevelDefinition) {
+  return `${JSON.stringify(level, null, 2)}\n`;
+}
+
+/**
+ * Height of the main ground line at `x`, for standing things on it: across a
+ * pit it bridges the two rims, and past either end it carries on level.
+ * Collision goes through `terrain.ts`, which knows about pits and surfaces.
+ */
+export function getGroundHeight(level: LevelDefinition, x: number) {
+  const segments = level.terrain;
+  if (x <= segments[0].startX) {
+    return segments[0].startY;
+  }
+  for (let i = 0; i < segments.length; i += 1) {
+    const segment = segments[i];
+    if (x >= segment.startX && x <= segment.endX) {
+      const span = segment.endX - segment.startX;
+      const t = span === 0 ? 0 : (x - segment.startX) / span;
+      return segment.startY + (segment.endY - segment.startY) * t;
+    }
+  }
+  return segments[segments.length - 1].endY;
+}
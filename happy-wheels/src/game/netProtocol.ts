@@ -0,0 +1,278 @@
+import type { PlayerState } from "./physics";
+import type { RunOutcome } from "./replay";
+import { isVehicleId } from "./vehicles";
+
+/**
+ * Messages between the game and the LAN race relay (`scripts/relay.ts`).
+ * Everything is JSON text. The relay only passes riders' snapshots along
+ * and keeps the finishing order; each game simulates its own rider.
+ */
+
+/** Port the relay listens on unless told otherwise. */
+export const RELAY_PORT = 3001;
+/** Seconds counted down before an online race starts, on every machine at once. */
+export const COUNTDOWN_SECONDS = 3;
+export const MAX_RIDER_NAME_LENGTH = 24;
+/** Letters used in room codes; look-alikes such as O/0 and I/1 are left out. */
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+export const ROOM_CODE_LENGTH = 4;
+
+export interface NetRider {
+  id: string;
+  name: string;
+}
+
+/** Where a rider ended up, in finishing order. */
+export interface NetStanding {
+  rider: string;
+  name: string;
+  outcome: RunOutcome;
+  /** Ticks the run lasted, so lag can't change who finished first. */
+  ticks: number;
+  /** Percent of the course covered; orders riders who crashed. */
+  progress: number;
+}
+
+export type ClientMessage =
+  | { type: "create"; name: string }
+  | { type: "join"; room: string; name: string }
+  | { type: "leave" }
+  /** Host only: count everyone down into a race on `levelId`. */
+  | { type: "start"; levelId: string }
+  | { type: "state"; tick: number; player: PlayerState }
+  | { type: "finish"; outcome: RunOutcome; ticks: number; progress: number };
+
+export type ServerMessage =
+  /** The room as it now stands, sent to everyone in it whenever it changes. */
+  | { type: "room"; room: string; you: string; host: string; riders: NetRider[] }
+  | { type: "countdown"; levelId: string; seconds: number }
+  | { type: "state"; rider: string; tick: number; player: PlayerState }
+  | { type: "standings"; standings: NetStanding[]; complete: boolean }
+  | { type: "error"; message: string };
+
+/** Upper-cases a typed room code and drops anything that can't be in one. */
+export function normalizeRoomCode(raw: string) {
+  const code = raw
+    .toUpperCase()
+    .split("")
+    .filter((letter) => ROOM_CODE_ALPHABET.includes(letter))
+    .join("");
+  return code.length === ROOM_CODE_LENGTH ? code : null;
+}
+
+export function normalizeRiderName(raw: unknown) {
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const name = raw.trim().slice(0, MAX_RIDER_NAME_LENGTH);
+  return name === "" ? null : name;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/** The numbers a rider's snapshot is made of, besides its vehicle. */
+const PLAYER_STATE_FIELDS = [
+  "x",
+  "y",
+  "vx",
+  "vy",
+  "angle",
+  "angularVelocity",
+  "legLength",
+  "headRadius",
+  "headOffset",
+] as const;
+
+/**
+ * A fresh snapshot built from just the checked fields of `value`, or null if
+ * any of them is missing or not a finite number. Anything else sent along
+ * with it is left behind.
+ */
+function parsePlayerState(value: unknown): PlayerState | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  if (!isVehicleId(raw.vehicle)) {
+    return null;
+  }
+  const player: PlayerState = {
+    vehicle: raw.vehicle,
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    angle: 0,
+    angularVelocity: 0,
+    legLength: 0,
+    headRadius: 0,
+    headOffset: 0,
+  };
+  for (const key of PLAYER_STATE_FIELDS) {
+    const field = raw[key];
+    if (!isFiniteNumber(field)) {
+      return null;
+    }
+    player[key] = field;
+  }
+  return player;
+}
+
+function isOutcome(value: unknown): value is RunOutcome {
+  return value === "won" || value === "crashed";
+}
+
+function parseJson(text: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Checks a message from a game before the relay acts on it. */
+export function parseClientMessage(text: string): ClientMessage | null {
+  const raw = parseJson(text);
+  switch (raw?.type) {
+    case "create": {
+      const name = normalizeRiderName(raw.name);
+      return name === null ? null : { type: "create", name };
+    }
+    case "join": {
+      const name = normalizeRiderName(raw.name);
+      const room =
+        typeof raw.room === "string" ? normalizeRoomCode(raw.room) : null;
+      return name === null || room === null
+        ? null
+        : { type: "join", room, name };
+    }
+    case "leave":
+      return { type: "leave" };
+    case "start":
+      return typeof raw.levelId === "string" && raw.levelId !== ""
+        ? { type: "start", levelId: raw.levelId }
+        : null;
+    case "state": {
+      const player = parsePlayerState(raw.player);
+      return Number.isInteger(raw.tick) && player !== null
+        ? { type: "state", tick: raw.tick as number, player }
+        : null;
+    }
+    case "finish":
+      return isOutcome(raw.outcome) &&
+        Number.isInteger(raw.ticks) &&
+        isFiniteNumber(raw.progress)
+        ? {
+            type: "finish",
+            outcome: raw.outcome,
+            ticks: raw.ticks as number,
+            progress: raw.progress,
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function parseRider(value: unknown): NetRider | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { id, name } = value as Record<string, unknown>;
+  return typeof id === "string" && typeof name === "string"
+    ? { id, name }
+    : null;
+}
+
+function parseStanding(value: unknown): NetStanding | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { rider, name, outcome, ticks, progress } = value as Record<
+    string,
+    unknown
+  >;
+  return typeof rider === "string" &&
+    typeof name === "string" &&
+    isOutcome(outcome) &&
+    Number.isInteger(ticks) &&
+    isFiniteNumber(progress)
+    ? { rider, name, outcome, ticks: ticks as number, progress }
+    : null;
+}
+
+/** Every entry of `raw` through `parse`, or null if any of them fails. */
+function parseList<T>(raw: unknown, parse: (value: unknown) => T | null) {
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+  const list: T[] = [];
+  for (const value of raw) {
+    const parsed = parse(value);
+    if (parsed === null) {
+      return null;
+    }
+    list.push(parsed);
+  }
+  return list;
+}
+
+/**
+ * Reads a message from the relay. Every field is checked before anything
+ * acts on it, so a relay that is out of date or misbehaving can't send
+ * something that breaks the page later on.
+ */
+export function parseServerMessage(text: string): ServerMessage | null {
+  const raw = parseJson(text);
+  switch (raw?.type) {
+    case "room": {
+      const riders = parseList(raw.riders, parseRider);
+      return typeof raw.room === "string" &&
+        typeof raw.you === "string" &&
+        typeof raw.host === "string" &&
+        riders !== null
+        ? { type: "room", room: raw.room, you: raw.you, host: raw.host, riders }
+        : null;
+    }
+    case "countdown":
+      return typeof raw.levelId === "string" &&
+        raw.levelId !== "" &&
+        isFiniteNumber(raw.seconds) &&
+        raw.seconds >= 0
+        ? { type: "countdown", levelId: raw.levelId, seconds: raw.seconds }
+        : null;
+    case "state": {
+      const player = parsePlayerState(raw.player);
+      return typeof raw.rider === "string" &&
+        Number.isInteger(raw.tick) &&
+        player !== null
+        ? { type: "state", rider: raw.rider, tick: raw.tick as number, player }
+        : null;
+    }
+    case "standings": {
+      const standings = parseList(raw.standings, parseStanding);
+      return standings !== null && typeof raw.complete === "boolean"
+        ? { type: "standings", standings, complete: raw.complete }
+        : null;
+    }
+    case "error":
+      return typeof raw.message === "string"
+        ? { type: "error", message: raw.message }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/** Finishers by time, then riders who crashed by how far they got. */
+export function standingOrder(a: NetStanding, b: NetStanding) {
+  if (a.outcome !== b.outcome) {
+    return a.outcome === "won" ? -1 : 1;
+  }
+  return a.outcome === "won" ? a.ticks - b.ticks : b.progress - a.progress;
+}
@@ -0,0 +1,247 @@
+import {
+  parseServerMessage,
+  RELAY_PORT,
+  type ClientMessage,
+  type NetRider,
+  type NetStanding,
+  type ServerMessage,
+} from "./netProtocol";
+import { FIXED_STEP, interpolatePlayer, type PlayerState } from "./physics";
+
+/** Ticks between snapshots sent to the relay: 20 a second. */
+export const SNAPSHOT_INTERVAL = 3;
+/**
+ * How far behind their latest snapshot remote riders are drawn, in ticks.
+ * It gives the next snapshot time to arrive, so ghosts glide between
+ * snapshots instead of stopping and jumping.
+ */
+const INTERPOLATION_DELAY = SNAPSHOT_INTERVAL * 2;
+/** Snapshots kept per remote rider; older ones are no longer drawn. */
+const MAX_SNAPSHOTS = 30;
+
+export interface Snapshot {
+  tick: number;
+  player: PlayerState;
+}
+
+/** Another machine's rider, drawn as a ghost from their snapshots. */
+export interface RemoteRider {
+  name: string;
+  /** Oldest first. */
+  snapshots: Snapshot[];
+}
+
+export type NetStatus = "connecting" | "open" | "closed";
+
+export interface NetRace {
+  socket: WebSocket;
+  status: NetStatus;
+  /** Room code, once the relay has put us in one. */
+  room: string | null;
+  /** Our rider id in the room, and the host's. */
+  you: string | null;
+  host: string | null;
+  riders: NetRider[];
+  remotes: Map<string, RemoteRider>;
+  standings: NetStanding[];
+  /** True once every rider in the last race has finished or crashed. */
+  standingsComplete: boolean;
+  /** `performance.now()` the current race started at, or null between races. */
+  startedAt: number | null;
+  /** Last error the relay reported, cleared by the next room update. */
+  error: string | null;
+}
+
+/** The parts of {@link NetRace} the page's menus show. */
+export type NetView = Pick<
+  NetRace,
+  | "status"
+  | "room"
+  | "you"
+  | "host"
+  | "riders"
+  | "standings"
+  | "standingsComplete"
+  | "error"
+>;
+
+export interface NetHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: NetStatus) => void;
+}
+
+/**
+ * Where the relay is: `NEXT_PUBLIC_RELAY_URL` if the build sets one,
+ * otherwise the default port on whichever machine served the page, so
+ * everyone on the LAN who opens the same address finds the same relay.
+ */
+export function relayUrl() {
+  return (
+    process.env.NEXT_PUBLIC_RELAY_URL ??
+    `ws://${window.location.hostname}:${RELAY_PORT}`
+  );
+}
+
+export function connectNetRace(url: string, handlers: NetHandlers): NetRace {
+  const net: NetRace = {
+    socket: new WebSocket(url),
+    status: "connecting",
+    room: null,
+    you: null,
+    host: null,
+    riders: [],
+    remotes: new Map(),
+    standings: [],
+    standingsComplete: false,
+    startedAt: null,
+    error: null,
+  };
+  const setStatus = (status: NetStatus) => {
+    net.status = status;
+    handlers.onStatus(status);
+  };
+  net.socket.addEventListener("open", () => setStatus("open"));
+  net.socket.addEventListener("close", () => {
+    net.room = null;
+    net.startedAt = null;
+    setStatus("closed");
+  });
+  net.socket.addEventListener("message", (event) => {
+    if (typeof event.data !== "string") {
+      return;
+    }
+    const message = parseServerMessage(event.data);
+    if (message) {
+      receiveMessage(net, message);
+      handlers.onMessage(message);
+    }
+  });
+  return net;
+}
+
+export function sendNetMessage(net: NetRace, message: ClientMessage) {
+  if (net.socket.readyState === WebSocket.OPEN) {
+    net.socket.send(JSON.stringify(message));
+  }
+}
+
+export function disconnectNetRace(net: NetRace) {
+  net.socket.close();
+}
+
+/** Leaves the room; the relay doesn't answer, so our side is cleared here. */
+export function leaveNetRoom(net: NetRace) {
+  sendNetMessage(net, { type: "leave" });
+  net.room = null;
+  net.you = null;
+  net.host = null;
+  net.riders = [];
+  net.remotes.clear();
+  net.standings = [];
+  net.standingsComplete = false;
+  net.startedAt = null;
+}
+
+export function isHost(net: NetRace) {
+  return net.you !== null && net.you === net.host;
+}
+
+export function netView(net: NetRace): NetView {
+  return {
+    status: net.status,
+    room: net.room,
+    you: net.you,
+    host: net.host,
+    riders: net.riders,
+    standings: net.standings,
+    standingsComplete: net.standingsComplete,
+    error: net.error,
+  };
+}
+
+/** Keeps the room, remote riders and standings in step with the relay. */
+function receiveMessage(net: NetRace, message: ServerMessage) {
+  switch (message.type) {
+    case "room":
+      net.room = message.room;
+      net.you = message.you;
+      net.host = message.host;
+      net.riders = message.riders;
+      net.error = null;
+      for (const id of net.remotes.keys()) {
+        if (!message.riders.some((rider) => rider.id === id)) {
+          net.remotes.delete(id);
+        }
+      }
+      break;
+    case "countdown":
+      net.remotes.clear();
+      net.standings = [];
+      net.standingsComplete = false;
+      net.startedAt = null;
+      break;
+    case "state": {
+      // Anything still in flight from the last race is dropped until ours starts.
+      if (net.startedAt === null) {
+        break;
+      }
+      const name =
+        net.riders.find((rider) => rider.id === message.rider)?.name ?? "?";
+      const remote = net.remotes.get(message.rider) ?? { name, snapshots: [] };
+      net.remotes.set(message.rider, remote);
+      const last = remote.snapshots[remote.snapshots.length - 1];
+      if (!last || message.tick > last.tick) {
+        remote.snapshots.push({ tick: message.tick, player: message.player });
+        if (remote.snapshots.length > MAX_SNAPSHOTS) {
+          remote.snapshots.shift();
+        }
+      }
+      break;
+    }
+    case "standings":
+      net.standings = message.standings;
+      net.standingsComplete = message.complete;
+      break;
+    case "error":
+      net.error = message.message;
+      break;
+  }
+}
+
+/** Ticks since the race started on this machine, in fractions of a tick. */
+export function raceClock(net: NetRace, now: number) {
+  return net.startedAt === null
+    ? 0
+    : (now - net.startedAt) / 1000 / FIXED_STEP;
+}
+
+/**
+ * Where to draw a remote rider at race time `tick`: between the two
+ * snapshots either side of it, or at the newest one if they have stopped
+ * sending (finished, crashed, or lagging).
+ */
+export function remotePlayerAt(
+  remote: RemoteRider,
+  tick: number,
+): PlayerState | null {
+  const { snapshots } = remote;
+  if (snapshots.length === 0) {
+    return null;
+  }
+  const target = tick - INTERPOLATION_DELAY;
+  for (let i = snapshots.length - 1; i > 0; i -= 1) {
+    const after = snapshots[i];
+    const before = snapshots[i - 1];
+    if (before.tick <= target && target <= after.tick) {
+      const span = after.tick - before.tick;
+      return interpolatePlayer(
+        before.player,
+        after.player,
+        span === 0 ? 1 : (target - before.tick) / span,
+      );
+    }
+  }
+  return target < snapshots[0].tick
+    ? snapshots[0].player
+    : snapshots[snapshots.length - 1].player;
+}
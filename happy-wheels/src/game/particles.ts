@@ -0,0 +1,356 @@
+import type { ViewBounds } from "./camera";
+
+/**
+ * How many particles effects spawn. "auto" starts at full and steps down on
+ * its own while frames are running slow.
+ */
+export type ParticleQuality = "auto" | "high" | "medium" | "low" | "off";
+
+export const particleQualities: ParticleQuality[] = [
+  "auto",
+  "high",
+  "medium",
+  "low",
+  "off",
+];
+
+export const particleQualityLabels: Record<ParticleQuality, string> = {
+  auto: "Auto",
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+  off: "Off",
+};
+
+type FixedQuality = Exclude<ParticleQuality, "auto">;
+
+/** Share of each effect's full particle count spawned at each quality. */
+const QUALITY_SCALE: Record<FixedQuality, number> = {
+  high: 1,
+  medium: 0.5,
+  low: 0.2,
+  off: 0,
+};
+/** What "auto" falls back through, one step at a time. */
+const AUTO_STEPS: FixedQuality[] = ["high", "medium", "low"];
+/** Smoothed frame time above which "auto" steps down, and how long it waits. */
+const SLOW_FRAME = 1 / 45;
+const SLOW_FRAME_GRACE = 2;
+
+const POOL_SIZE = 600;
+/** Rider speed (units/s) where speed lines start, and where they are thickest. */
+const SPEED_LINE_START = 700;
+const SPEED_LINE_FULL = 1400;
+
+type ParticleKind = "dust" | "spark" | "confetti" | "speedLine";
+
+interface Particle {
+  active: boolean;
+  kind: ParticleKind;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  /** Seconds left, counting down to 0. */
+  life: number;
+  maxLife: number;
+  size: number;
+  color: string;
+  angle: number;
+  spin: number;
+  gravity: number;
+  /** Share of velocity kept per second. */
+  drag: number;
+}
+
+/**
+ * A fixed pool of particles reused round-robin, so effects never allocate
+ * while a run is going. When it is full the oldest particle is recycled.
+ */
+export interface ParticleSystem {
+  pool: Particle[];
+  next: number;
+  quality: ParticleQuality;
+  /** The level "auto" is currently running at. */
+  autoStep: number;
+  frameTime: number;
+  slowFor: number;
+  /** Fractional speed lines carried between frames. */
+  speedLineDebt: number;
+}
+
+const CONFETTI_COLORS = ["#f3c25b", "#e8535a", "#4673ff", "#52d273", "#f4f7ff"];
+const SPARK_COLORS = ["#fff3b0", "#ffd166", "#ff9b4a"];
+
+function createParticle(): Particle {
+  return {
+    active: false,
+    kind: "dust",
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    life: 0,
+    maxLife: 1,
+    size: 1,
+    color: "#fff",
+    angle: 0,
+    spin: 0,
+    gravity: 0,
+    drag: 1,
+  };
+}
+
+export function createParticleSystem(quality: ParticleQuality): ParticleSystem {
+  return {
+    pool: Array.from({ length: POOL_SIZE }, createParticle),
+    next: 0,
+    quality,
+    autoStep: 0,
+    frameTime: 1 / 60,
+    slowFor: 0,
+    speedLineDebt: 0,
+  };
+}
+
+export function setParticleQuality(system: ParticleSystem, quality: ParticleQuality) {
+  system.quality = quality;
+  system.autoStep = 0;
+  system.slowFor = 0;
+}
+
+export function isParticleQuality(value: unknown): value is ParticleQuality {
+  return particleQualities.includes(value as ParticleQuality);
+}
+
+function qualityScale(system: ParticleSystem) {
+  const quality =
+    system.quality === "auto" ? AUTO_STEPS[system.autoStep] : system.quality;
+  return QUALITY_SCALE[quality];
+}
+
+/** How many of an effect's `full` particles to spawn at the current quality. */
+function scaledCount(system: ParticleSystem, full: number) {
+  return Math.round(full * qualityScale(system));
+}
+
+function spawn(system: ParticleSystem, kind: ParticleKind, x: number, y: number) {
+  const particle = system.pool[system.next];
+  system.next = (system.next + 1) % system.pool.length;
+  particle.active = true;
+  particle.kind = kind;
+  particle.x = x;
+  particle.y = y;
+  particle.angle = 0;
+  particle.spin = 0;
+  particle.gravity = 0;
+  particle.drag = 1;
+  return particle;
+}
+
+function random(min: number, max: number) {
+  return min + Math.random() * (max - min);
+}
+
+function setLife(particle: Particle, seconds: number) {
+  particle.life = seconds;
+  particle.maxLife = seconds;
+}
+
+/** A puff kicked up either side of where the pogo foot hit, bigger for harder landings. */
+export function emitDust(system: ParticleSystem, x: number, y: number, impactSpeed: number) {
+  const strength = Math.min(Math.max((impactSpeed - 200) / 1200, 0), 1);
+  const count = scaledCount(system, 6 + strength * 18);
+  for (let i = 0; i < count; i += 1) {
+    const side = i % 2 === 0 ? 1 : -1;
+    const particle = spawn(system, "dust", x + random(-6, 6), y - 2);
+    particle.vx = side * random(40, 160 + strength * 200);
+    particle.vy = -random(20, 80 + strength * 120);
+    particle.gravity = 200;
+    particle.drag = 0.08;
+    particle.size = random(4, 9 + strength * 6);
+    particle.color = "rgba(190, 160, 120, 1)";
+    setLife(particle, random(0.35, 0.7));
+  }
+}
+
+/** Bright streaks flying off the spike tips. */
+export function emitSparks(system: ParticleSystem, x: number, y: number) {
+  const count = scaledCount(system, 40);
+  for (let i = 0; i < count; i += 1) {
+    const particle = spawn(system, "spark", x + random(-10, 10), y + random(-10, 10));
+    const angle = random(-Math.PI * 0.95, -Math.PI * 0.05);
+    const speed = random(250, 700);
+    particle.vx = Math.cos(angle) * speed;
+    particle.vy = Math.sin(angle) * speed;
+    particle.gravity = 1400;
+    particle.drag = 0.3;
+    particle.size = random(1.5, 3);
+    particle.color = SPARK_COLORS[i % SPARK_COLORS.length];
+    setLife(particle, random(0.25, 0.6));
+  }
+}
+
+/** A burst of tumbling paper from the top of the finish flag. */
+export function emitConfetti(system: ParticleSystem, x: number, y: number) {
+  const count = scaledCount(system, 140);
+  for (let i = 0; i < count; i += 1) {
+    const particle = spawn(system, "confetti", x + random(-20, 20), y + random(-10, 10));
+    const angle = random(-Math.PI * 0.85, -Math.PI * 0.15);
+    const speed = random(200, 650);
+    particle.vx = Math.cos(angle) * speed;
+    particle.vy = Math.sin(angle) * speed;
+    particle.gravity = 500;
+    particle.drag = 0.15;
+    particle.size = random(5, 9);
+    particle.angle = random(0, Math.PI * 2);
+    particle.spin = random(-12, 12);
+    particle.color = CONFETTI_COLORS[i % CONFETTI_COLORS.length];
+    setLife(particle, random(1.6, 2.8));
+  }
+}
+
+/**
+ * Streaks rushing past the rider at high speed; call every frame with the
+ * rider's position and velocity. More and longer lines the faster they go.
+ */
+export function emitSpeedLines(
+  system: ParticleSystem,
+  x: number,
+  y: number,
+  vx: number,
+  vy: number,
+  dt: number,
+) {
+  const speed = Math.hypot(vx, vy);
+  if (speed < SPEED_LINE_START) {
+    system.speedLineDebt = 0;
+    return;
+  }
+  const strength = Math.min((speed - SPEED_LINE_START) / (SPEED_LINE_FULL - SPEED_LINE_START), 1);
+  system.speedLineDebt += (20 + strength * 60) * qualityScale(system) * dt;
+  while (system.speedLineDebt >= 1) {
+    system.speedLineDebt -= 1;
+    // Start ahead of the rider and sweep back past them.
+    const ahead = random(120, 320);
+    const across = random(-160, 160);
+    const ux = vx / speed;
+    const uy = vy / speed;
+    const particle = spawn(
+      system,
+      "speedLine",
+      x + ux * ahead - uy * across,
+      y + uy * ahead + ux * across,
+    );
+    particle.vx = -ux * speed * 0.6;
+    particle.vy = -uy * speed * 0.6;
+    particle.size = 40 + strength * 80;
+    particle.color = "rgba(220, 232, 255, 1)";
+    setLife(particle, random(0.15, 0.3));
+  }
+}
+
+/** Moves every live particle on by `dt` seconds. */
+export function updateParticles(system: ParticleSystem, dt: number) {
+  for (const particle of system.pool) {
+    if (!particle.active) {
+      continue;
+    }
+    particle.life -= dt;
+    if (particle.life <= 0) {
+      particle.active = false;
+      continue;
+    }
+    const keep = particle.drag ** dt;
+    particle.vx *= keep;
+    particle.vy = particle.vy * keep + particle.gravity * dt;
+    particle.x += particle.vx * dt;
+    particle.y += particle.vy * dt;
+    particle.angle += particle.spin * dt;
+  }
+}
+
+/** Feeds "auto" quality a frame's length; it steps down after a stretch of slow frames. */
+export function trackFrameTime(system: ParticleSystem, frameSeconds: number) {
+  system.frameTime += (frameSeconds - system.frameTime) * 0.05;
+  if (system.quality !== "auto" || system.autoStep >= AUTO_STEPS.length - 1) {
+    return;
+  }
+  system.slowFor = system.frameTime > SLOW_FRAME ? system.slowFor + frameSeconds : 0;
+  if (system.slowFor > SLOW_FRAME_GRACE) {
+    system.autoStep += 1;
+    system.slowFor = 0;
+  }
+}
+
+export function clearParticles(system: ParticleSystem) {
+  for (const particle of system.pool) {
+    particle.active = false;
+  }
+  system.speedLineDebt = 0;
+}
+
+/** Draws live particles in level coordinates; call inside the camera transform. */
+export function drawParticles(
+  ctx: CanvasRenderingContext2D,
+  system: ParticleSystem,
+  view: ViewBounds,
+) {
+  ctx.save();
+  ctx.lineCap = "round";
+  for (const particle of system.pool) {
+    if (
+      !particle.active ||
+      particle.x < view.left - 200 ||
+      particle.x > view.right + 200 ||
+      particle.y < view.top - 200 ||
+      particle.y > view.bottom + 200
+    ) {
+      continue;
+    }
+    const fade = particle.life / particle.maxLife;
+    ctx.fillStyle = particle.color;
+    ctx.strokeStyle = particle.color;
+    switch (particle.kind) {
+      case "dust":
+        ctx.globalAlpha = 0.45 * fade;
+        ctx.beginPath();
+        ctx.arc(particle.x, particle.y, particle.size * (1.6 - fade * 0.6), 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case "spark": {
+        ctx.globalAlpha = fade;
+        ctx.lineWidth = particle.size;
+        ctx.beginPath();
+        ctx.moveTo(particle.x, particle.y);
+        ctx.lineTo(particle.x - particle.vx * 0.03, particle.y - particle.vy * 0.03);
+        ctx.stroke();
+        break;
+      }
+      case "confetti":
+        ctx.globalAlpha = Math.min(1, fade * 3);
+        ctx.save();
+        ctx.translate(particle.x, particle.y);
+        ctx.rotate(particle.angle);
+        // Squash with the spin so the paper looks like it is flipping over.
+        ctx.scale(1, Math.cos(particle.angle * 1.7));
+        ctx.fillRect(-particle.size / 2, -particle.size / 4, particle.size, particle.size / 2);
+        ctx.restore();
+        break;
+      case "speedLine": {
+        const speed = Math.hypot(particle.vx, particle.vy) || 1;
+        ctx.globalAlpha = 0.35 * Math.sin(fade * Math.PI);
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(particle.x, particle.y);
+        ctx.lineTo(
+          particle.x - (particle.vx / speed) * particle.size,
+          particle.y - (particle.vy / speed) * particle.size,
+        );
+        ctx.stroke();
+        break;
+      }
+    }
+  }
+  ctx.restore();
+}
@@ -0,0 +1,453 @@
+import {
+  applyHazardContacts,
+  createHazardStates,
+  hazardBehaviors,
+  hazardSurfaceHeight,
+  riderProbe,
+  updateHazards,
+  type HazardContext,
+  type HazardState,
+  type RiderProbe,
+} from "./hazards";
+import { hazardTypes, type HazardType, type LevelDefinition } from "./level";
+import { circleContact, fallLine, footPenetration } from "./terrain";
+import {
+  DEFAULT_VEHICLE,
+  vehicleFor,
+  type SpringContact,
+  type VehicleId,
+  type WheelContact,
+} from "./vehicles";
+
+export interface PlayerState {
+  vehicle: VehicleId;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  angle: number;
+  angularVelocity: number;
+  legLength: number;
+  headRadius: number;
+  headOffset: number;
+}
+
+export interface InputState {
+  left: boolean;
+  right: boolean;
+  /**
+   * Proportional lean from an analog stick, -1 (back) to 1 (forward). Added
+   * to the digital left/right intent and clamped.
+   */
+  analogLean: number;
+  jumpHeld: boolean;
+  jumpPressed: boolean;
+}
+
+/**
+ * Why a run ended in a crash: the type of hazard that was fatal, the head or
+ * body hitting the ground, or falling below the course.
+ */
+export type CrashCause = HazardType | "head" | "body" | "fall";
+
+/**
+ * The slice of game state the physics step reads and writes. The page's
+ * runtime and the editor's playtest both satisfy it, and nothing in here
+ * touches the DOM, so the same simulation runs in Node.
+ */
+export interface Simulation {
+  level: LevelDefinition;
+  player: PlayerState;
+  /** Player state before the latest tick, kept for render interpolation. */
+  previousPlayer: PlayerState;
+  input: InputState;
+  onGround: boolean;
+  /** Run-time state of each of `level.hazards`, in the same order. */
+  hazards: HazardState[];
+  /** Fixed-step ticks simulated since the run started. */
+  tick: number;
+  handleWin: () => void;
+  handleCrash: (cause: CrashCause) => void;
+  /** Called when the rider pogos off, with how far the spring was squeezed. */
+  handleJump?: (springCompression: number) => void;
+}
+
+export interface FixedStepClock {
+  accumulator: number;
+}
+
+export const GRAVITY = 2400;
+
+/**
+ * Length of one physics tick in seconds. Gravity and the vehicles' tuning
+ * were dialled in at 60fps, so the simulation always advances at that rate
+ * and faster or slower displays only change how often it is drawn.
+ */
+export const FIXED_STEP = 1 / 60;
+/** Longest frame the clock will catch up on, so a stalled tab cannot spiral. */
+const MAX_FRAME_TIME = 0.25;
+/** Reach of the rider's torso around the saddle; touching terrain with it is a crash. */
+const BODY_RADIUS = 18;
+
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function normalizeAngle(angle: number) {
+  let result = angle;
+  while (result > Math.PI) {
+    result -= Math.PI * 2;
+  }
+  while (result < -Math.PI) {
+    result += Math.PI * 2;
+  }
+  return result;
+}
+
+export function createPlayer(
+  level: LevelDefinition,
+  vehicleId: VehicleId = DEFAULT_VEHICLE,
+): PlayerState {
+  const vehicle = vehicleFor(vehicleId);
+  return {
+    vehicle: vehicleId,
+    x: level.start.x,
+    y: level.start.y,
+    vx: 0,
+    vy: 0,
+    angle: 0,
+    angularVelocity: 0,
+    legLength: vehicle.legLength,
+    headRadius: vehicle.headRadius,
+    headOffset: vehicle.headOffset,
+  };
+}
+
+function hazardContext(sim: Simulation, dt: number): HazardContext {
+  return {
+    level: sim.level,
+    player: sim.player,
+    rider: riderProbe(sim.player),
+    onGround: sim.onGround,
+    dt,
+  };
+}
+
+/**
+ * How far the rider must slide back up the stick to stand on whatever is
+ * under the foot: a hazard's top if the foot is on one, else the terrain.
+ */
+function footSupport(
+  sim: Simulation,
+  before: RiderProbe,
+  foot: { x: number; y: number },
+  sin: number,
+  cos: number,
+) {
+  const surface = hazardSurfaceHeight(sim.level, sim.hazards, foot.x, foot.y);
+  if (surface !== null && foot.y >= surface && cos > 0) {
+    return (foot.y - surface) / cos;
+  }
+  return footPenetration(sim.level, before.foot, foot, { x: sin, y: cos });
+}
+
+/**
+ * Pogo ground contact: the foot is set back on whatever is under it and the
+ * spring pushes back along the stick. Returns whether the foot is down.
+ */
+function springSupport(
+  sim: Simulation,
+  before: RiderProbe,
+  spring: SpringContact,
+  dt: number,
+) {
+  const { player, input } = sim;
+  const sin = Math.sin(player.angle);
+  const cos = Math.cos(player.angle);
+  const penetration = footSupport(
+    sim,
+    before,
+    {
+      x: player.x + sin * player.legLength,
+      y: player.y + cos * player.legLength,
+    },
+    sin,
+    cos,
+  );
+  if (penetration === null) {
+    return false;
+  }
+  player.x -= sin * penetration;
+  player.y -= cos * penetration;
+
+  const normalVelocity = player.vx * sin + player.vy * cos;
+  const springCompression = clamp(penetration, 0, 120);
+  const springForce =
+    springCompression * spring.stiffness - normalVelocity * spring.damping;
+  player.vx -= sin * springForce * dt;
+  player.vy -= cos * springForce * dt;
+
+  const tangentX = cos;
+  const tangentY = -sin;
+  const tangentVelocity =
+    player.vx * tangentX + player.vy * tangentY + player.angularVelocity * player.legLength;
+  const frictionForce = -tangentVelocity * spring.friction;
+  player.vx += tangentX * frictionForce * dt;
+  player.vy += tangentY * frictionForce * dt;
+  player.angularVelocity += frictionForce * dt * 0.026;
+
+  if (input.jumpPressed) {
+    const jumpImpulse =
+      spring.jumpBaseImpulse + springCompression * spring.jumpCompressionScale;
+    player.vx -= sin * jumpImpulse * 0.7;
+    player.vy -= cos * jumpImpulse;
+    player.angularVelocity -= tangentVelocity * 0.015;
+    sim.handleJump?.(springCompression);
+  }
+  return true;
+}
+
+/**
+ * The edge a wheel centred on `hub` is resting on, as an outward normal and
+ * how deep the wheel sits in it; a hazard's top counts as flat ground.
+ */
+function wheelContact(
+  sim: Simulation,
+  hubBefore: { x: number; y: number },
+  hub: { x: number; y: number },
+  radius: number,
+) {
+  const bottom = hub.y + radius;
+  const surface = hazardSurfaceHeight(sim.level, sim.hazards, hub.x, bottom);
+  if (surface !== null && bottom >= surface && hub.y < surface) {
+    return { nx: 0, ny: -1, depth: bottom - surface };
+  }
+  const contact = circleContact(sim.level, hubBefore, hub, radius);
+  if (!contact) {
+    return null;
+  }
+  return { nx: contact.collider.nx, ny: contact.collider.ny, depth: contact.depth };
+}
+
+/**
+ * Wheel ground contact: the wheel is pushed out of the edge it touches and
+ * rolls along it, pedalling with the lean while the rider balances the frame
+ * towards the lean they hold. Returns whether the wheel is down.
+ */
+function wheelSupport(
+  sim: Simulation,
+  before: RiderProbe,
+  wheel: WheelContact,
+  controlIntent: number,
+  dt: number,
+) {
+  const { player, input } = sim;
+  const reach = (player.legLength - wheel.radius) / player.legLength;
+  const hubBefore = {
+    x: before.body.x + (before.foot.x - before.body.x) * reach,
+    y: before.body.y + (before.foot.y - before.body.y) * reach,
+  };
+  const hub = {
+    x: player.x + Math.sin(player.angle) * (player.legLength - wheel.radius),
+    y: player.y + Math.cos(player.angle) * (player.legLength - wheel.radius),
+  };
+  const contact = wheelContact(sim, hubBefore, hub, wheel.radius);
+  if (!contact) {
+    return false;
+  }
+  const { nx, ny, depth } = contact;
+  player.x += nx * depth;
+  player.y += ny * depth;
+
+  const normalVelocity = player.vx * nx + player.vy * ny;
+  if (normalVelocity < 0) {
+    player.vx -= nx * normalVelocity * (1 + wheel.bounce);
+    player.vy -= ny * normalVelocity * (1 + wheel.bounce);
+  }
+
+  // Along the edge, facing the way the course runs.
+  const tangentX = -ny;
+  const tangentY = nx;
+  player.vx += tangentX * wheel.driveForce * controlIntent * dt;
+  player.vy += tangentY * wheel.driveForce * controlIntent * dt;
+  const rolling = player.vx * tangentX + player.vy * tangentY;
+  player.vx -= tangentX * rolling * wheel.rollingResistance * dt;
+  player.vy -= tangentY * rolling * wheel.rollingResistance * dt;
+
+  // A critically damped pull towards the held lean keeps the frame steady.
+  const lean = normalizeAngle(controlIntent * wheel.maxLean - player.angle);
+  player.angularVelocity +=
+    (lean * wheel.balance - player.angularVelocity * 2 * Math.sqrt(wheel.balance)) * dt;
+
+  if (input.jumpPressed) {
+    player.vx += nx * wheel.hopImpulse;
+    player.vy += ny * wheel.hopImpulse;
+    sim.handleJump?.(depth);
+  }
+  return true;
+}
+
+export function stepPhysics(sim: Simulation, dt: number) {
+  const { level, player, input } = sim;
+  const vehicle = vehicleFor(player.vehicle);
+  const before = riderProbe(player);
+  updateHazards(level, sim.hazards, hazardContext(sim, dt));
+
+  const controlIntent = clamp(
+    (input.right ? 1 : 0) - (input.left ? 1 : 0) + input.analogLean,
+    -1,
+    1,
+  );
+
+  player.vx += vehicle.controlForce * controlIntent * dt;
+  player.angularVelocity += vehicle.controlTorque * controlIntent * dt;
+
+  player.vy += GRAVITY * dt;
+  player.vx *= 0.998;
+  player.vy *= 0.999;
+  player.angularVelocity *= 0.992;
+
+  player.x += player.vx * dt;
+  player.y += player.vy * dt;
+  player.angle = normalizeAngle(player.angle + player.angularVelocity * dt);
+
+  const { contact } = vehicle;
+  const onGround =
+    contact.type === "spring"
+      ? springSupport(sim, before, contact, dt)
+      : wheelSupport(sim, before, contact, controlIntent, dt);
+  if (!onGround) {
+    player.angularVelocity += vehicle.airTorque * controlIntent * dt;
+  }
+
+  sim.onGround = onGround;
+  input.jumpPressed = false;
+
+  const fatalHazard = applyHazardContacts(
+    level,
+    sim.hazards,
+    hazardContext(sim, dt),
+  );
+  const rider = riderProbe(player);
+  let crash: CrashCause | null = null;
+  if (fatalHazard) {
+    crash = fatalHazard.type;
+  } else if (circleContact(level, before.head, rider.head, player.headRadius)) {
+    crash = "head";
+  } else if (circleContact(level, before.body, rider.body, BODY_RADIUS)) {
+    crash = "body";
+  } else if (player.y > fallLine(level)) {
+    crash = "fall";
+  }
+  if (crash) {
+    sim.handleCrash(crash);
+  }
+
+  if (player.x >= level.finish.x) {
+    sim.handleWin();
+  }
+}
+
+export function isCrashCause(value: unknown): value is CrashCause {
+  return (
+    value === "head" ||
+    value === "body" ||
+    value === "fall" ||
+    (hazardTypes as unknown[]).includes(value)
+  );
+}
+
+export function describeCrash(cause: CrashCause) {
+  switch (cause) {
+    case "head":
+      return "Head hit the ground";
+    case "body":
+      return "Body hit the ground";
+    case "fall":
+      return "Fell off the course";
+    default:
+      return `Hit the ${hazardBehaviors[cause].label.toLowerCase()}`;
+  }
+}
+
+export function createInputState(): InputState {
+  return {
+    left: false,
+    right: false,
+    analogLean: 0,
+    jumpHeld: false,
+    jumpPressed: false,
+  };
+}
+
+export function copyPlayer(player: PlayerState): PlayerState {
+  return { ...player };
+}
+
+export function createSimulation(
+  level: LevelDefinition,
+  handlers: Pick<Simulation, "handleWin" | "handleCrash">,
+  vehicle: VehicleId = DEFAULT_VEHICLE,
+): Simulation {
+  const player = createPlayer(level, vehicle);
+  return {
+    level,
+    player,
+    previousPlayer: copyPlayer(player),
+    input: createInputState(),
+    onGround: false,
+    hazards: createHazardStates(level),
+    tick: 0,
+    handleWin: handlers.handleWin,
+    handleCrash: handlers.handleCrash,
+  };
+}
+
+/**
+ * Advances the simulation by exactly one {@link FIXED_STEP} tick. The tick is
+ * counted before it is simulated, so a win or crash settled during it sees
+ * the run's full length: the count a recording saves is the count a replay
+ * of it ends on.
+ */
+export function stepSimulation(sim: Simulation) {
+  Object.assign(sim.previousPlayer, sim.player);
+  sim.tick += 1;
+  stepPhysics(sim, FIXED_STEP);
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return { accumulator: 0 };
+}
+
+/**
+ * Feeds a frame's worth of real time into the clock and runs `step` once per
+ * whole tick that fits. Returns how far (0..1) the frame sits between the last
+ * tick and the next one, which is the blend factor for
+ * {@link interpolatePlayer}.
+ */
+export function advanceFixedStep(
+  clock: FixedStepClock,
+  frameSeconds: number,
+  step: () => void,
+) {
+  clock.accumulator += clamp(frameSeconds, 0, MAX_FRAME_TIME);
+  while (clock.accumulator >= FIXED_STEP) {
+    step();
+    clock.accumulator -= FIXED_STEP;
+  }
+  return clock.accumulator / FIXED_STEP;
+}
+
+export function interpolatePlayer(
+  previous: PlayerState,
+  current: PlayerState,
+  alpha: number,
+): PlayerState {
+  const t = clamp(alpha, 0, 1);
+  return {
+    ...current,
+    x: previous.x + (current.x - previous.x) * t,
+    y: previous.y + (current.y - previous.y) * t,
+    angle: previous.angle + normalizeAngle(current.angle - previous.angle) * t,
+  };
+}
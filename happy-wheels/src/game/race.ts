@@ -0,0 +1,158 @@
+import { courseFraction } from "./analysis";
+import type { ControlAction } from "./controls";
+import type { LevelDefinition } from "./level";
+import {
+  createInputState,
+  FIXED_STEP,
+  type Simulation,
+} from "./physics";
+import type { Ragdoll } from "./ragdoll";
+import type { RunOutcome } from "./replay";
+
+/** Seconds the rest of the field gets to finish once the winner is in. */
+export const RACE_FINISH_GRACE = 15;
+
+/**
+ * Keys for each seat of a local race, in seat order. They are fixed rather
+ * than following the rebindable layout, whose defaults put the arrows and
+ * WASD on the same rider.
+ */
+export const racerKeys: Record<ControlAction, string>[] = [
+  { left: "KeyA", right: "KeyD", jump: "KeyW" },
+  { left: "ArrowLeft", right: "ArrowRight", jump: "ArrowUp" },
+];
+
+/**
+ * One rider in a race. Every racer steps through the same course with its
+ * own simulation, so each also has its own copy of the hazards: a crate one
+ * rider knocks over is still standing for the other.
+ */
+export interface Racer {
+  sim: Simulation;
+  /** Set once the racer finishes or crashes; they are no longer simulated after. */
+  outcome: RunOutcome | null;
+  /** The racer's tick count when the outcome was decided. */
+  endTick: number;
+  ragdoll: Ragdoll | null;
+}
+
+export interface LocalRace {
+  racers: Racer[];
+  /** Ticks since the start, still counting after some racers are done. */
+  tick: number;
+}
+
+/** Where a racer stands, by seat during the race and by place after it. */
+export interface RaceStanding {
+  seat: number;
+  /** Null while still racing, or when time ran out before they finished. */
+  outcome: RunOutcome | null;
+  /** Finishing time in seconds, for racers that crossed the line. */
+  time: number | null;
+  /** Percent of the course covered. */
+  progress: number;
+}
+
+export function createLocalRace(sims: Simulation[]): LocalRace {
+  return {
+    racers: sims.map((sim) => ({
+      sim,
+      outcome: null,
+      endTick: 0,
+      ragdoll: null,
+    })),
+    tick: 0,
+  };
+}
+
+/** Seat and action for a race key, or null if no seat uses it. */
+export function racerForKey(code: string) {
+  for (let seat = 0; seat < racerKeys.length; seat += 1) {
+    const keys = racerKeys[seat];
+    const action = (Object.keys(keys) as ControlAction[]).find(
+      (candidate) => keys[candidate] === code,
+    );
+    if (action) {
+      return { seat, action };
+    }
+  }
+  return null;
+}
+
+/** Records how a racer's run ended; only the first outcome counts. */
+export function settleRacer(racer: Racer, outcome: RunOutcome) {
+  if (racer.outcome !== null) {
+    return false;
+  }
+  racer.outcome = outcome;
+  racer.endTick = racer.sim.tick;
+  return true;
+}
+
+/** Lets go of every racer's controls, e.g. when the race is paused. */
+export function releaseRacers(race: LocalRace) {
+  for (const racer of race.racers) {
+    Object.assign(racer.sim.input, createInputState());
+  }
+}
+
+/**
+ * True once every racer has finished or crashed, or the grace period after
+ * the first finish has run out on whoever is still going.
+ */
+export function isRaceOver(race: LocalRace) {
+  if (race.racers.every((racer) => racer.outcome !== null)) {
+    return true;
+  }
+  const finishes = race.racers
+    .filter((racer) => racer.outcome === "won")
+    .map((racer) => racer.endTick);
+  return (
+    finishes.length > 0 &&
+    (race.tick - Math.min(...finishes)) * FIXED_STEP >= RACE_FINISH_GRACE
+  );
+}
+
+/** Each racer's standing, in seat order. */
+export function raceStandings(
+  race: LocalRace,
+  level: LevelDefinition,
+): RaceStanding[] {
+  return race.racers.map((racer, seat) => ({
+    seat,
+    outcome: racer.outcome,
+    time: racer.outcome === "won" ? racer.endTick * FIXED_STEP : null,
+    progress:
+      racer.outcome === "won"
+        ? 100
+        : courseFraction(level, racer.sim.player.x),
+  }));
+}
+
+/**
+ * Standings in finishing order: finishers by time, then everyone else by how
+ * far along the course they got.
+ */
+export function racePlacements(
+  race: LocalRace,
+  level: LevelDefinition,
+): RaceStanding[] {
+  return raceStandings(race, level).sort((a, b) => {
+    if (a.time !== null && b.time !== null) {
+      return a.time - b.time;
+    }
+    if (a.time !== null || b.time !== null) {
+      return a.time !== null ? -1 : 1;
+    }
+    return b.progress - a.progress;
+  });
+}
+
+/** Seconds between the first two finishers, or null unless both finished. */
+export function winningGap(placements: RaceStanding[]) {
+  const [first, second] = placements;
+  if (first?.time == null || second?.time == null) {
+    return null;
+  }
+  return second.time - first.time;
+}
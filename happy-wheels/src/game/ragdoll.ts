@@ -0,0 +1,257 @@
+import type { LevelDefinition } from "./level";
+import { clamp, GRAVITY, type PlayerState } from "./physics";
+import { circleContact, fallLine, type Collider } from "./terrain";
+import type { VehicleId } from "./vehicles";
+
+export type RagdollPart =
+  | "head"
+  | "neck"
+  | "hip"
+  | "elbowL"
+  | "handL"
+  | "elbowR"
+  | "handR"
+  | "stickTop"
+  | "stickFoot";
+
+export interface RagdollPoint {
+  x: number;
+  y: number;
+  /** Position before the latest step, for render interpolation. */
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  radius: number;
+}
+
+interface RagdollLink {
+  a: RagdollPart;
+  b: RagdollPart;
+  length: number;
+}
+
+export interface Ragdoll {
+  /** What the rider was on; it tumbles as the stick part. */
+  vehicle: VehicleId;
+  points: Record<RagdollPart, RagdollPoint>;
+  links: RagdollLink[];
+}
+
+export interface RagdollLaunch {
+  /** The crash came from a spike field, so the body is thrown clear of it. */
+  spiked: boolean;
+}
+
+/**
+ * Where each part sits in the rider's own frame, matching the pose
+ * `drawPlayer` paints: origin at the saddle, +y down the pogo stick.
+ */
+function restPose(player: PlayerState): Record<RagdollPart, [number, number]> {
+  return {
+    head: [0, -player.headOffset],
+    neck: [0, -46],
+    hip: [0, -12],
+    elbowL: [-28, -26],
+    handL: [-10, -8],
+    elbowR: [28, -28],
+    handR: [10, -4],
+    stickTop: [0, -8],
+    stickFoot: [0, player.legLength],
+  };
+}
+
+const partRadius: Record<RagdollPart, (player: PlayerState) => number> = {
+  head: (player) => player.headRadius,
+  neck: () => 12,
+  hip: () => 16,
+  elbowL: () => 5,
+  handL: () => 5,
+  elbowR: () => 5,
+  handR: () => 5,
+  stickTop: () => 5,
+  stickFoot: () => 10,
+};
+
+/** Pairs held at their starting distance. The stick is its own body. */
+const linkedParts: [RagdollPart, RagdollPart][] = [
+  ["head", "neck"],
+  ["neck", "hip"],
+  ["head", "hip"],
+  ["neck", "elbowL"],
+  ["elbowL", "handL"],
+  ["neck", "elbowR"],
+  ["elbowR", "handR"],
+  ["stickTop", "stickFoot"],
+];
+
+const bodyParts: RagdollPart[] = [
+  "head",
+  "neck",
+  "hip",
+  "elbowL",
+  "handL",
+  "elbowR",
+  "handR",
+];
+
+const SOLVER_ITERATIONS = 6;
+const GROUND_FRICTION = 0.18;
+const GROUND_BOUNCE = 0.25;
+/** Slower landings just settle, so a resting body doesn't jitter. */
+const BOUNCE_MIN_SPEED = 240;
+const AIR_DRAG = 0.998;
+
+/**
+ * Breaks the rider into a ragdoll that carries on with the speed and spin it
+ * had at the moment of the crash.
+ */
+export function createRagdoll(
+  player: PlayerState,
+  launch: RagdollLaunch,
+): Ragdoll {
+  const sin = Math.sin(player.angle);
+  const cos = Math.cos(player.angle);
+  const pose = restPose(player);
+  const points = {} as Record<RagdollPart, RagdollPoint>;
+  for (const part of Object.keys(pose) as RagdollPart[]) {
+    const [localX, localY] = pose[part];
+    const x = player.x + localX * cos - localY * sin;
+    const y = player.y + localX * sin + localY * cos;
+    // Rigid-body velocity: the rider's linear velocity plus its spin.
+    const vx = player.vx + player.angularVelocity * -(localX * sin + localY * cos);
+    const vy = player.vy + player.angularVelocity * (localX * cos - localY * sin);
+    points[part] = {
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      vx,
+      vy,
+      radius: partRadius[part](player),
+    };
+  }
+
+  if (launch.spiked) {
+    // Spikes throw the body back up in proportion to how hard it came in.
+    const impact = Math.hypot(player.vx, player.vy);
+    const lift = 380 + impact * 0.65;
+    for (const part of bodyParts) {
+      const point = points[part];
+      point.vy = -lift - Math.max(0, point.vy) * 0.3;
+      point.vx = point.vx * 0.7 + (part === "head" ? 90 : 0);
+    }
+    points.stickTop.vy -= lift * 0.4;
+    points.stickFoot.vy -= lift * 0.25;
+  }
+
+  const links = linkedParts.map(([a, b]) => ({
+    a,
+    b,
+    length: Math.hypot(points[a].x - points[b].x, points[a].y - points[b].y),
+  }));
+  return { vehicle: player.vehicle, points, links };
+}
+
+function solveLink(ragdoll: Ragdoll, link: RagdollLink) {
+  const a = ragdoll.points[link.a];
+  const b = ragdoll.points[link.b];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance === 0) {
+    return;
+  }
+  const correction = (distance - link.length) / distance / 2;
+  a.x += dx * correction;
+  a.y += dy * correction;
+  b.x -= dx * correction;
+  b.y -= dy * correction;
+}
+
+/** Pushes a point out of the terrain; returns the edge it was touching. */
+function collideTerrain(level: LevelDefinition, point: RagdollPoint) {
+  const contact = circleContact(
+    level,
+    { x: point.prevX, y: point.prevY },
+    point,
+    point.radius,
+  );
+  if (!contact) {
+    return null;
+  }
+  point.x += contact.collider.nx * contact.depth;
+  point.y += contact.collider.ny * contact.depth;
+  return contact.collider;
+}
+
+/**
+ * Advances the ragdoll by `dt` using position-based dynamics: integrate,
+ * then repeatedly pull linked parts back to their lengths and out of the
+ * terrain, then derive velocities from how far each part actually moved.
+ */
+export function stepRagdoll(
+  ragdoll: Ragdoll,
+  level: LevelDefinition,
+  dt: number,
+) {
+  const points = Object.values(ragdoll.points);
+  // A body that has dropped out of the world comes to rest there, so the
+  // camera following it stops too.
+  const lost = ragdoll.points.hip.y > fallLine(level);
+  for (const point of points) {
+    point.prevX = point.x;
+    point.prevY = point.y;
+  }
+  if (lost) {
+    return;
+  }
+  for (const point of points) {
+    point.vy += GRAVITY * dt;
+    point.vx *= AIR_DRAG;
+    point.vy *= AIR_DRAG;
+    point.x += point.vx * dt;
+    point.y += point.vy * dt;
+  }
+
+  const grounded = new Map<RagdollPoint, Collider>();
+  for (let i = 0; i < SOLVER_ITERATIONS; i += 1) {
+    for (const link of ragdoll.links) {
+      solveLink(ragdoll, link);
+    }
+    for (const point of points) {
+      const collider = collideTerrain(level, point);
+      if (collider) {
+        grounded.set(point, collider);
+      }
+    }
+  }
+
+  for (const point of points) {
+    const { nx, ny } = grounded.get(point) ?? { nx: 0, ny: 0 };
+    const incomingSpeed = -(point.vx * nx + point.vy * ny);
+    point.vx = (point.x - point.prevX) / dt;
+    point.vy = (point.y - point.prevY) / dt;
+    if (grounded.has(point)) {
+      // Friction slows sliding along the edge; hard landings bounce off it.
+      const normalSpeed = point.vx * nx + point.vy * ny;
+      const tangentX = point.vx - nx * normalSpeed;
+      const tangentY = point.vy - ny * normalSpeed;
+      let bouncedSpeed = normalSpeed;
+      if (incomingSpeed > BOUNCE_MIN_SPEED) {
+        bouncedSpeed = Math.max(normalSpeed, incomingSpeed * GROUND_BOUNCE);
+      }
+      point.vx = tangentX * (1 - GROUND_FRICTION) + nx * bouncedSpeed;
+      point.vy = tangentY * (1 - GROUND_FRICTION) + ny * bouncedSpeed;
+    }
+  }
+}
+
+/** A part's position blended between the last two steps. */
+export function ragdollPointAt(point: RagdollPoint, alpha: number) {
+  const t = clamp(alpha, 0, 1);
+  return {
+    x: point.prevX + (point.x - point.prevX) * t,
+    y: point.prevY + (point.y - point.prevY) * t,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * A small seeded random number generator. The same seed always yields the
+ * same sequence on every machine, which is what lets a generated course be
+ * shared by its seed alone.
+ */
+export interface Random {
+  /** Uniform in [0, 1). */
+  next: () => number;
+  /** Uniform in [min, max). */
+  range: (min: number, max: number) => number;
+  /** Uniform integer in [min, max]. */
+  int: (min: number, max: number) => number;
+  /** True with probability `p`. */
+  chance: (p: number) => boolean;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+/** FNV-1a, folding any string seed into 32 bits. */
+export function hashSeed(seed: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Mulberry32: fast, tiny, and plenty random for laying out a course. */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const range = (min: number, max: number) => min + (max - min) * next();
+  return {
+    next,
+    range,
+    int: (min, max) => Math.floor(range(min, max + 1)),
+    chance: (p) => next() < p,
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
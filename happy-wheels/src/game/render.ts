@@ -0,0 +1,478 @@
+import type { ViewBounds } from "./camera";
+import {
+  behaviorFor,
+  createHazardStates,
+  type HazardState,
+} from "./hazards";
+import { getGroundHeight, type LevelDefinition } from "./level";
+import type { PlayerState } from "./physics";
+import { ragdollPointAt, type Ragdoll, type RagdollPart } from "./ragdoll";
+import { roundedRectPath } from "./shapes";
+import { fallLine } from "./terrain";
+import { TRICK_POPUP_LIFE, type TrickPopup } from "./tricks";
+import { vehicleFor } from "./vehicles";
+
+export type PlayerPose = "riding" | "crashed" | "won";
+
+const FINISH_POLE_HEIGHT = 200;
+
+export function drawFinishFlag(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  groundY: number,
+) {
+  const poleHeight = FINISH_POLE_HEIGHT;
+  ctx.save();
+  ctx.translate(x, groundY);
+  ctx.fillStyle = "#d9ddec";
+  ctx.fillRect(-4, -poleHeight, 8, poleHeight);
+  const flagWidth = 60;
+  const flagHeight = 80;
+  const cellSize = 12;
+  for (let y = 0; y < flagHeight; y += cellSize) {
+    for (let x = 0; x < flagWidth; x += cellSize) {
+      const isBlack =
+        ((x / cellSize) | 0) % 2 === ((y / cellSize) | 0) % 2;
+      ctx.fillStyle = isBlack ? "#1c1f33" : "#f4f7ff";
+      ctx.fillRect(8 + x, -poleHeight + 20 + y, cellSize, cellSize);
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * A shorter pole with a pennant, styled after {@link drawFinishFlag}. It
+ * lights up once the rider has passed it this run.
+ */
+export function drawCheckpointFlag(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  groundY: number,
+  reached: boolean,
+) {
+  const poleHeight = 150;
+  ctx.save();
+  ctx.translate(x, groundY);
+  ctx.fillStyle = "#d9ddec";
+  ctx.fillRect(-3, -poleHeight, 6, poleHeight);
+  ctx.fillStyle = reached ? "#52d273" : "#6c7391";
+  ctx.beginPath();
+  ctx.moveTo(6, -poleHeight + 8);
+  ctx.lineTo(62, -poleHeight + 30);
+  ctx.lineTo(6, -poleHeight + 52);
+  ctx.closePath();
+  ctx.fill();
+  ctx.fillStyle = reached ? "#f4f7ff" : "#1c1f33";
+  ctx.beginPath();
+  ctx.arc(22, -poleHeight + 30, 6, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+/** Draws the level's checkpoints in view, lighting those up to `reached`. */
+export function drawCheckpoints(
+  ctx: CanvasRenderingContext2D,
+  level: LevelDefinition,
+  reached: number | null,
+  view: ViewBounds,
+) {
+  level.checkpoints.forEach((checkpoint, index) => {
+    if (checkpoint.x > view.left - 80 && checkpoint.x < view.right + 80) {
+      drawCheckpointFlag(
+        ctx,
+        checkpoint.x,
+        getGroundHeight(level, checkpoint.x),
+        reached !== null && index <= reached,
+      );
+    }
+  });
+}
+
+/** Where the top of the finish pole stands, in level coordinates. */
+export function finishFlagTop(level: LevelDefinition) {
+  const { x } = level.finish;
+  return { x, y: getGroundHeight(level, x) - FINISH_POLE_HEIGHT };
+}
+
+/** Draws the finish flag when it is in view. */
+export function drawFinish(
+  ctx: CanvasRenderingContext2D,
+  level: LevelDefinition,
+  view: ViewBounds,
+) {
+  const { x } = level.finish;
+  if (x > view.left - 80 && x < view.right + 120) {
+    drawFinishFlag(ctx, x, getGroundHeight(level, x));
+  }
+}
+
+/**
+ * Draws every hazard on the course whose bounds overlap the view. Without
+ * run states (e.g. in the editor) hazards are drawn as they start out.
+ */
+export function drawHazards(
+  ctx: CanvasRenderingContext2D,
+  level: LevelDefinition,
+  states: HazardState[] | null,
+  view: ViewBounds,
+) {
+  const resolved = states ?? createHazardStates(level);
+  level.hazards.forEach((hazard, index) => {
+    const behavior = behaviorFor(hazard);
+    const state = resolved[index];
+    const bounds = behavior.bounds(hazard, state, level);
+    if (bounds.right > view.left - 80 && bounds.left < view.right + 80) {
+      behavior.draw(ctx, hazard, state, level);
+    }
+  });
+}
+
+export function drawPlayer(
+  ctx: CanvasRenderingContext2D,
+  player: PlayerState,
+  pose: PlayerPose,
+) {
+  ctx.save();
+  ctx.translate(player.x, player.y);
+  ctx.rotate(player.angle);
+
+  const isCrashed = pose === "crashed";
+  const isVictory = pose === "won";
+
+  ctx.shadowBlur = isVictory ? 26 : 0;
+  ctx.shadowColor = isVictory ? "rgba(255, 240, 180, 0.55)" : "transparent";
+  ctx.lineCap = "round";
+
+  vehicleFor(player.vehicle).draw(ctx, player, isCrashed);
+
+  // torso
+  ctx.fillStyle = isCrashed ? "#4f5568" : "#e8535a";
+  roundedRectPath(ctx, -18, -72, 36, 64, 18);
+  ctx.fill();
+
+  // shoulder band
+  ctx.fillStyle = isCrashed ? "#32394a" : "#1f2a4b";
+  roundedRectPath(ctx, -20, -48, 40, 12, 6);
+  ctx.fill();
+
+  // arms
+  ctx.strokeStyle = isCrashed ? "#353b48" : "#ffd9a8";
+  ctx.lineWidth = 9;
+  ctx.beginPath();
+  ctx.moveTo(-16, -50);
+  ctx.quadraticCurveTo(-34, -20, -10, -8);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(16, -50);
+  ctx.quadraticCurveTo(34, -24, 10, -4);
+  ctx.stroke();
+
+  // head
+  ctx.fillStyle = isCrashed ? "#c1c6d6" : "#ffe8c6";
+  ctx.beginPath();
+  ctx.arc(0, -player.headOffset, player.headRadius, 0, Math.PI * 2);
+  ctx.fill();
+
+  // helmet
+  ctx.fillStyle = isCrashed ? "#4d5465" : "#4673ff";
+  ctx.beginPath();
+  ctx.arc(
+    0,
+    -player.headOffset - 6,
+    player.headRadius * 0.9,
+    Math.PI,
+    0,
+    false,
+  );
+  ctx.fill();
+
+  // goggles
+  ctx.fillStyle = "#0c0f1c";
+  roundedRectPath(ctx, -18, -player.headOffset - 6, 36, 18, 8);
+  ctx.fill();
+  ctx.fillStyle = "rgba(180, 211, 255, 0.45)";
+  roundedRectPath(ctx, -16, -player.headOffset - 4, 32, 14, 7);
+  ctx.fill();
+
+  ctx.restore();
+}
+
+/**
+ * Draws the rider after a crash, one limb at a time along the ragdoll's
+ * joints, using the same shapes and colours as {@link drawPlayer}.
+ */
+export function drawRagdoll(
+  ctx: CanvasRenderingContext2D,
+  ragdoll: Ragdoll,
+  alpha: number,
+) {
+  const at = (part: RagdollPart) => ragdollPointAt(ragdoll.points[part], alpha);
+  const stickTop = at("stickTop");
+  const stickFoot = at("stickFoot");
+  const hip = at("hip");
+  const neck = at("neck");
+  const head = at("head");
+
+  ctx.save();
+  ctx.lineCap = "round";
+
+  // the vehicle, tumbling on its own
+  const stickLength = Math.hypot(stickFoot.x - stickTop.x, stickFoot.y - stickTop.y);
+  ctx.save();
+  ctx.translate(stickTop.x, stickTop.y);
+  ctx.rotate(Math.atan2(-(stickFoot.x - stickTop.x), stickFoot.y - stickTop.y));
+  // Its frame starts at the saddle, just above where the stick part sits.
+  ctx.translate(0, 8);
+  vehicleFor(ragdoll.vehicle).draw(
+    ctx,
+    { x: stickTop.x, legLength: stickLength - 8 },
+    false,
+  );
+  ctx.restore();
+
+  // torso, from the hip up to the neck
+  ctx.save();
+  ctx.translate(hip.x, hip.y);
+  ctx.rotate(Math.atan2(neck.x - hip.x, -(neck.y - hip.y)));
+  ctx.fillStyle = "#e8535a";
+  roundedRectPath(ctx, -18, -60, 36, 64, 18);
+  ctx.fill();
+  ctx.fillStyle = "#1f2a4b";
+  roundedRectPath(ctx, -20, -36, 40, 12, 6);
+  ctx.fill();
+  ctx.restore();
+
+  // arms
+  ctx.strokeStyle = "#ffd9a8";
+  ctx.lineWidth = 9;
+  for (const [elbowPart, handPart] of [
+    ["elbowL", "handL"],
+    ["elbowR", "handR"],
+  ] as const) {
+    const elbow = at(elbowPart);
+    const hand = at(handPart);
+    ctx.beginPath();
+    ctx.moveTo(neck.x, neck.y);
+    ctx.lineTo(elbow.x, elbow.y);
+    ctx.lineTo(hand.x, hand.y);
+    ctx.stroke();
+  }
+
+  // head, facing away from the neck
+  const headRadius = ragdoll.points.head.radius;
+  ctx.translate(head.x, head.y);
+  ctx.rotate(Math.atan2(head.x - neck.x, -(head.y - neck.y)));
+  ctx.fillStyle = "#ffe8c6";
+  ctx.beginPath();
+  ctx.arc(0, 0, headRadius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#4673ff";
+  ctx.beginPath();
+  ctx.arc(0, -6, headRadius * 0.9, Math.PI, 0, false);
+  ctx.fill();
+  ctx.fillStyle = "#0c0f1c";
+  roundedRectPath(ctx, -18, -6, 36, 18, 8);
+  ctx.fill();
+  ctx.fillStyle = "rgba(180, 211, 255, 0.45)";
+  roundedRectPath(ctx, -16, -4, 32, 14, 7);
+  ctx.fill();
+
+  ctx.restore();
+}
+
+/** Draws a recorded rider as a translucent ghost racing alongside the player. */
+export function drawGhostPlayer(
+  ctx: CanvasRenderingContext2D,
+  player: PlayerState,
+) {
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  drawPlayer(ctx, player, "riding");
+  ctx.restore();
+}
+
+/** A name tag floating above a rider, so racers sharing a course can tell who is who. */
+export function drawRiderTag(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  label: string,
+  color: string,
+) {
+  ctx.save();
+  ctx.font = "bold 18px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  const width = ctx.measureText(label).width + 18;
+  ctx.fillStyle = color;
+  roundedRectPath(ctx, x - width / 2, y - 14, width, 28, 10);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(x - 7, y + 13);
+  ctx.lineTo(x + 7, y + 13);
+  ctx.lineTo(x, y + 22);
+  ctx.closePath();
+  ctx.fill();
+  ctx.fillStyle = "#0c0f1c";
+  ctx.fillText(label, x, y + 1);
+  ctx.restore();
+}
+
+/** Trick awards rising and fading above where they were scored. */
+export function drawTrickPopups(
+  ctx: CanvasRenderingContext2D,
+  popups: TrickPopup[],
+) {
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = "rgba(18, 12, 24, 0.8)";
+  for (const popup of popups) {
+    const t = popup.age / TRICK_POPUP_LIFE;
+    const y = popup.y - popup.age * 50;
+    ctx.globalAlpha = Math.min(1, (1 - t) * 3);
+    ctx.font = "bold 22px sans-serif";
+    ctx.fillStyle = "#f3c25b";
+    ctx.strokeText(popup.label, popup.x, y);
+    ctx.fillText(popup.label, popup.x, y);
+    ctx.font = "bold 16px sans-serif";
+    ctx.fillStyle = "#f4f7ff";
+    ctx.strokeText(`+${popup.points}`, popup.x, y + 20);
+    ctx.fillText(`+${popup.points}`, popup.x, y + 20);
+  }
+  ctx.restore();
+}
+
+export function drawBackdrop(
+  ctx: CanvasRenderingContext2D,
+  cameraX: number,
+  width: number,
+  height: number,
+) {
+  const horizon = Math.floor(height * 0.42);
+  const gradientSky = ctx.createLinearGradient(0, 0, 0, horizon);
+  gradientSky.addColorStop(0, "#2b3b66");
+  gradientSky.addColorStop(1, "#1f294b");
+  ctx.fillStyle = gradientSky;
+  ctx.fillRect(0, 0, width, horizon);
+
+  const gradientGround = ctx.createLinearGradient(0, horizon, 0, height);
+  gradientGround.addColorStop(0, "#1d1624");
+  gradientGround.addColorStop(1, "#120c18");
+  ctx.fillStyle = gradientGround;
+  ctx.fillRect(0, horizon, width, height - horizon);
+
+  ctx.save();
+  ctx.translate(-cameraX * 0.2, 0);
+  ctx.fillStyle = "rgba(64, 78, 120, 0.55)";
+  ctx.beginPath();
+  ctx.moveTo(-width, horizon + 60);
+  ctx.lineTo(-width / 2, horizon - 50);
+  ctx.lineTo(width * 0.1, horizon + 40);
+  ctx.lineTo(width * 0.6, horizon - 30);
+  ctx.lineTo(width * 1.4, horizon + 60);
+  ctx.lineTo(width * 1.4, height);
+  ctx.lineTo(-width, height);
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.fillStyle = "rgba(48, 60, 102, 0.65)";
+  ctx.beginPath();
+  ctx.moveTo(-width, horizon + 130);
+  ctx.lineTo(-width * 0.2, horizon + 20);
+  ctx.lineTo(width * 0.3, horizon + 80);
+  ctx.lineTo(width, horizon - 10);
+  ctx.lineTo(width * 1.5, horizon + 120);
+  ctx.lineTo(width * 1.5, height);
+  ctx.lineTo(-width, height);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+const GROUND_FILL = "#4a3b31";
+const GROUND_EDGE = "rgba(25, 18, 12, 0.9)";
+const GROUND_HIGHLIGHT = "rgba(226, 187, 136, 0.4)";
+
+/**
+ * Draws the main ground, leaving its pits open, and every free-standing
+ * surface in view. Closed surfaces are filled like the ground; open ones
+ * are drawn as a thick ledge.
+ */
+export function drawGround(
+  ctx: CanvasRenderingContext2D,
+  level: LevelDefinition,
+  view: ViewBounds,
+) {
+  const start = view.left - 40;
+  const end = view.right + 40;
+  const bottom = Math.max(fallLine(level), view.bottom) + 2000;
+  const onScreen = level.terrain.map(
+    (segment) => !segment.gap && segment.endX >= start && segment.startX <= end,
+  );
+
+  ctx.save();
+  ctx.lineJoin = "round";
+  level.terrain.forEach((segment, index) => {
+    if (!onScreen[index] || onScreen[index - 1]) {
+      return;
+    }
+    // One filled shape per unbroken run of visible ground.
+    let last = index;
+    while (onScreen[last + 1]) {
+      last += 1;
+    }
+    const run = level.terrain.slice(index, last + 1);
+    ctx.beginPath();
+    ctx.moveTo(run[0].startX, bottom);
+    for (const piece of run) {
+      ctx.lineTo(piece.startX, piece.startY);
+    }
+    const final = run[run.length - 1];
+    ctx.lineTo(final.endX, final.endY);
+    ctx.lineTo(final.endX, bottom);
+    ctx.closePath();
+    ctx.fillStyle = GROUND_FILL;
+    ctx.fill();
+    ctx.strokeStyle = GROUND_EDGE;
+    ctx.lineWidth = 4;
+    ctx.stroke();
+
+    ctx.strokeStyle = GROUND_HIGHLIGHT;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (const piece of run) {
+      ctx.lineTo(piece.startX, piece.startY - 3);
+    }
+    ctx.lineTo(final.endX, final.endY - 3);
+    ctx.stroke();
+  });
+
+  for (const surface of level.surfaces) {
+    const xs = surface.points.map((point) => point.x);
+    if (Math.max(...xs) < start || Math.min(...xs) > end) {
+      continue;
+    }
+    ctx.beginPath();
+    for (const point of surface.points) {
+      ctx.lineTo(point.x, point.y);
+    }
+    if (surface.closed) {
+      ctx.closePath();
+      ctx.fillStyle = GROUND_FILL;
+      ctx.fill();
+      ctx.strokeStyle = GROUND_EDGE;
+      ctx.lineWidth = 4;
+    } else {
+      ctx.strokeStyle = GROUND_FILL;
+      ctx.lineWidth = 12;
+      ctx.lineCap = "round";
+      ctx.stroke();
+      ctx.strokeStyle = GROUND_EDGE;
+      ctx.lineWidth = 2;
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
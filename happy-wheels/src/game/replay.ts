@@ -0,0 +1,265 @@
+import type { LevelDefinition } from "./level";
+import {
+  createSimulation,
+  FIXED_STEP,
+  stepSimulation,
+  type InputState,
+  type Simulation,
+} from "./physics";
+import { DEFAULT_VEHICLE, isVehicleId, type VehicleId } from "./vehicles";
+
+export type RunOutcome = "won" | "crashed";
+
+/** The full input state as of `tick`, stored only when it differs from the tick before. */
+export interface InputTransition extends InputState {
+  tick: number;
+}
+
+export interface RunRecording {
+  levelId: string;
+  /** What the rider rode; recordings from before vehicles existed are pogo runs. */
+  vehicle: VehicleId;
+  outcome: RunOutcome;
+  /** Ticks simulated before the run ended. */
+  ticks: number;
+  time: number;
+  inputs: InputTransition[];
+}
+
+export interface InputRecorder {
+  inputs: InputTransition[];
+}
+
+export interface ReplayCursor {
+  recording: RunRecording;
+  next: number;
+}
+
+export interface Ghost {
+  sim: Simulation;
+  cursor: ReplayCursor;
+  finished: boolean;
+  /** How the ghost's run ended, once it has; null if it ran out of inputs. */
+  outcome: RunOutcome | null;
+}
+
+function sameInput(a: InputState, b: InputState) {
+  return (
+    a.left === b.left &&
+    a.right === b.right &&
+    a.analogLean === b.analogLean &&
+    a.jumpHeld === b.jumpHeld &&
+    a.jumpPressed === b.jumpPressed
+  );
+}
+
+export function createInputRecorder(): InputRecorder {
+  return { inputs: [] };
+}
+
+/** Samples the input the simulation is about to consume on `tick`. */
+export function recordInput(
+  recorder: InputRecorder,
+  tick: number,
+  input: InputState,
+) {
+  const last = recorder.inputs[recorder.inputs.length - 1];
+  if (last && sameInput(last, input)) {
+    return;
+  }
+  recorder.inputs.push({
+    tick,
+    left: input.left,
+    right: input.right,
+    analogLean: input.analogLean,
+    jumpHeld: input.jumpHeld,
+    jumpPressed: input.jumpPressed,
+  });
+}
+
+/**
+ * Forgets everything recorded from `tick` on, for when the run is rewound to
+ * that tick and will be lived again with new inputs.
+ */
+export function rewindRecorder(recorder: InputRecorder, tick: number) {
+  const keep = recorder.inputs.findIndex((input) => input.tick >= tick);
+  if (keep !== -1) {
+    recorder.inputs.length = keep;
+  }
+}
+
+export function finishRecording(
+  recorder: InputRecorder,
+  levelId: string,
+  vehicle: VehicleId,
+  outcome: RunOutcome,
+  ticks: number,
+): RunRecording {
+  return {
+    levelId,
+    vehicle,
+    outcome,
+    ticks,
+    time: ticks * FIXED_STEP,
+    inputs: recorder.inputs.slice(),
+  };
+}
+
+export function createReplayCursor(recording: RunRecording): ReplayCursor {
+  return { recording, next: 0 };
+}
+
+/**
+ * Overwrites `input` with what was held on `tick` of the recording, so stray
+ * key presses cannot leak into a replay. Ticks must be visited in order,
+ * exactly as the live run stepped them.
+ */
+export function applyRecordedInput(
+  cursor: ReplayCursor,
+  tick: number,
+  input: InputState,
+) {
+  const { inputs } = cursor.recording;
+  while (cursor.next < inputs.length && inputs[cursor.next].tick <= tick) {
+    cursor.next += 1;
+  }
+  const current = inputs[cursor.next - 1];
+  input.left = current?.left ?? false;
+  input.right = current?.right ?? false;
+  input.analogLean = current?.analogLean ?? 0;
+  input.jumpHeld = current?.jumpHeld ?? false;
+  // A jump press only ever lasts the tick it was recorded on.
+  input.jumpPressed = current?.tick === tick && current.jumpPressed;
+}
+
+export function createGhost(
+  level: LevelDefinition,
+  recording: RunRecording,
+): Ghost {
+  const ghost: Ghost = {
+    sim: createSimulation(
+      level,
+      {
+        handleWin: () => {
+          ghost.finished = true;
+          ghost.outcome ??= "won";
+        },
+        handleCrash: () => {
+          ghost.finished = true;
+          ghost.outcome ??= "crashed";
+        },
+      },
+      recording.vehicle,
+    ),
+    cursor: createReplayCursor(recording),
+    finished: false,
+    outcome: null,
+  };
+  return ghost;
+}
+
+/** Advances the ghost one tick in lockstep with the live run. */
+export function stepGhost(ghost: Ghost) {
+  if (ghost.finished || ghost.sim.tick >= ghost.cursor.recording.ticks) {
+    ghost.finished = true;
+    return;
+  }
+  applyRecordedInput(ghost.cursor, ghost.sim.tick, ghost.sim.input);
+  stepSimulation(ghost.sim);
+}
+
+/** Steps the ghost up to `tick` without drawing, to join a run partway through. */
+export function fastForwardGhost(ghost: Ghost, tick: number) {
+  while (!ghost.finished && ghost.sim.tick < tick) {
+    stepGhost(ghost);
+  }
+}
+
+export interface SimulatedRun {
+  outcome: RunOutcome | null;
+  ticks: number;
+}
+
+/**
+ * Replays a recording headlessly on `level` and reports how it really ended.
+ * Stops at `maxTicks` so a forged recording cannot keep the caller busy.
+ */
+export function simulateRun(
+  level: LevelDefinition,
+  recording: RunRecording,
+  maxTicks: number,
+): SimulatedRun {
+  let outcome: RunOutcome | null = null;
+  const sim = createSimulation(
+    level,
+    {
+      handleWin: () => {
+        outcome ??= "won";
+      },
+      handleCrash: () => {
+        outcome ??= "crashed";
+      },
+    },
+    recording.vehicle,
+  );
+  const cursor = createReplayCursor(recording);
+  while (outcome === null && sim.tick < maxTicks) {
+    applyRecordedInput(cursor, sim.tick, sim.input);
+    stepSimulation(sim);
+  }
+  return { outcome, ticks: sim.tick };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Checks an untrusted recording (e.g. a request body); returns null if malformed. */
+export function parseRunRecording(raw: unknown): RunRecording | null {
+  if (
+    !isRecord(raw) ||
+    typeof raw.levelId !== "string" ||
+    (raw.vehicle !== undefined && !isVehicleId(raw.vehicle)) ||
+    (raw.outcome !== "won" && raw.outcome !== "crashed") ||
+    !Number.isInteger(raw.ticks) ||
+    typeof raw.time !== "number" ||
+    !Array.isArray(raw.inputs)
+  ) {
+    return null;
+  }
+  const inputs: InputTransition[] = [];
+  let lastTick = -1;
+  for (const entry of raw.inputs) {
+    if (
+      !isRecord(entry) ||
+      !Number.isInteger(entry.tick) ||
+      (entry.tick as number) <= lastTick ||
+      typeof entry.left !== "boolean" ||
+      typeof entry.right !== "boolean" ||
+      (entry.analogLean !== undefined &&
+        (typeof entry.analogLean !== "number" ||
+          !(Math.abs(entry.analogLean) <= 1))) ||
+      typeof entry.jumpHeld !== "boolean" ||
+      typeof entry.jumpPressed !== "boolean"
+    ) {
+      return null;
+    }
+    lastTick = entry.tick as number;
+    inputs.push({
+      tick: lastTick,
+      left: entry.left,
+      right: entry.right,
+      analogLean: (entry.analogLean as number | undefined) ?? 0,
+      jumpHeld: entry.jumpHeld,
+      jumpPressed: entry.jumpPressed,
+    });
+  }
+  return {
+    levelId: raw.levelId,
+    vehicle: isVehicleId(raw.vehicle) ? raw.vehicle : DEFAULT_VEHICLE,
+    outcome: raw.outcome,
+    ticks: raw.ticks as number,
+    time: raw.time,
+    inputs,
+  };
+}
@@ -0,0 +1,55 @@
+import type { RunRecording } from "./replay";
+import type { VehicleId } from "./vehicles";
+
+export interface LeaderboardEntry {
+  id: string;
+  levelId: string;
+  name: string;
+  vehicle: VehicleId;
+  ticks: number;
+  time: number;
+  submittedAt: string;
+}
+
+export type SubmitResult =
+  | { ok: true; rank: number }
+  | { ok: false; error: string };
+
+export async function fetchTopScores(
+  levelId: string,
+  vehicle: VehicleId,
+  limit: number,
+  signal?: AbortSignal,
+): Promise<LeaderboardEntry[]> {
+  const params = new URLSearchParams({
+    levelId,
+    vehicle,
+    limit: String(limit),
+  });
+  const response = await fetch(`/api/scores?${params}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Leaderboard request failed (${response.status})`);
+  }
+  const body = (await response.json()) as { scores: LeaderboardEntry[] };
+  return body.scores;
+}
+
+export async function submitScore(
+  name: string,
+  recording: RunRecording,
+): Promise<SubmitResult> {
+  try {
+    const response = await fetch("/api/scores", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, recording }),
+    });
+    const body = (await response.json()) as { rank?: number; error?: string };
+    if (!response.ok || body.rank === undefined) {
+      return { ok: false, error: body.error ?? `HTTP ${response.status}` };
+    }
+    return { ok: true, rank: body.rank };
+  } catch {
+    return { ok: false, error: "Leaderboard server unreachable" };
+  }
+}
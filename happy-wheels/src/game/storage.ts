@@ -0,0 +1,282 @@
+import type { CrashReport } from "./analysis";
+import {
+  createAudioSettings,
+  sanitizeAudioSettings,
+  type AudioSettings,
+} from "./audio";
+import {
+  createCampaignProgress,
+  type CampaignProgress,
+  type CourseRecords,
+} from "./campaign";
+import {
+  createKeyBindings,
+  sanitizeKeyBindings,
+  type KeyBindings,
+} from "./keybindings";
+import { isParticleQuality, type ParticleQuality } from "./particles";
+import { isCrashCause } from "./physics";
+import type { RunOutcome } from "./replay";
+import {
+  DEFAULT_VEHICLE,
+  isVehicleId,
+  vehicleIds,
+  type VehicleId,
+} from "./vehicles";
+
+export const SAVE_VERSION = 8;
+const STORAGE_KEY = "pogo-stick-dash:save";
+const HISTORY_LIMIT = 25;
+
+export interface RunHistoryEntry {
+  levelId: string;
+  vehicle: VehicleId;
+  outcome: RunOutcome;
+  time: number;
+  /** Furthest point reached, as a percentage of the course. */
+  maxProgress: number;
+  /** The rider respawned at a checkpoint at least once during the run. */
+  usedCheckpoints: boolean;
+  /** What ended the run and where, for runs that crashed. */
+  crash: CrashReport | null;
+  /** ISO-8601 timestamp of when the run ended. */
+  date: string;
+}
+
+export interface SaveData {
+  version: typeof SAVE_VERSION;
+  campaign: CampaignProgress;
+  /** Most recent run first. */
+  history: RunHistoryEntry[];
+  /** Name last used for leaderboard submissions. */
+  playerName: string;
+  /** Id of the gamepad preset chosen in Settings. */
+  gamepadMapping: string;
+  keyBindings: KeyBindings;
+  audio: AudioSettings;
+  particleQuality: ParticleQuality;
+  /** Vehicle picked for the next run. */
+  vehicle: VehicleId;
+}
+
+type RawSave = Record<string, unknown>;
+
+/**
+ * Upgrades a save written by an older build, keyed by the version it upgrades
+ * from. Each step only has to understand the version directly before it.
+ */
+const migrations: Record<number, (save: RawSave) => RawSave> = {
+  1: (save) => ({ ...save, version: 2, playerName: "" }),
+  2: (save) => ({ ...save, version: 3, gamepadMapping: "standard" }),
+  3: (save) => ({ ...save, version: 4, keyBindings: createKeyBindings() }),
+  4: (save) => ({ ...save, version: 5, audio: createAudioSettings() }),
+  5: (save) => ({ ...save, version: 6, particleQuality: "auto" }),
+  // Records were per level; every one so far was set on the pogo.
+  6: ({ campaign, ...save }) => ({
+    ...save,
+    version: 7,
+    vehicle: DEFAULT_VEHICLE,
+    campaign: isRecord(campaign)
+      ? {
+          unlocked: campaign.unlocked,
+          records: {
+            pogo: {
+              bestTimes: campaign.bestTimes,
+              bestScores: campaign.bestScores,
+              checkpointBests: campaign.checkpointBests,
+            },
+          },
+        }
+      : campaign,
+  }),
+  // Runs saved before crash reports have none to show.
+  7: ({ history, ...save }) => ({
+    ...save,
+    version: 8,
+    history: Array.isArray(history)
+      ? history.map((entry) => (isRecord(entry) ? { ...entry, crash: null } : entry))
+      : history,
+  }),
+};
+
+export function createSaveData(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    campaign: createCampaignProgress(),
+    history: [],
+    playerName: "",
+    gamepadMapping: "standard",
+    keyBindings: createKeyBindings(),
+    audio: createAudioSettings(),
+    particleQuality: "auto",
+    vehicle: DEFAULT_VEHICLE,
+  };
+}
+
+function isRecord(value: unknown): value is RawSave {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function sanitizeRecords(records: CourseRecords, raw: unknown) {
+  if (!isRecord(raw)) {
+    return;
+  }
+  if (isRecord(raw.bestTimes)) {
+    for (const [levelId, time] of Object.entries(raw.bestTimes)) {
+      if (isFiniteNumber(time) && time > 0) {
+        records.bestTimes[levelId] = time;
+      }
+    }
+  }
+  if (isRecord(raw.bestScores)) {
+    for (const [levelId, score] of Object.entries(raw.bestScores)) {
+      if (isFiniteNumber(score) && score >= 0) {
+        records.bestScores[levelId] = Math.floor(score);
+      }
+    }
+  }
+  if (Array.isArray(raw.checkpointBests)) {
+    records.checkpointBests = raw.checkpointBests.filter(
+      (levelId): levelId is string =>
+        typeof levelId === "string" && Object.hasOwn(records.bestTimes, levelId),
+    );
+  }
+}
+
+function sanitizeCampaign(raw: unknown): CampaignProgress {
+  const campaign = createCampaignProgress();
+  if (!isRecord(raw)) {
+    return campaign;
+  }
+  if (isFiniteNumber(raw.unlocked) && raw.unlocked >= 1) {
+    campaign.unlocked = Math.floor(raw.unlocked);
+  }
+  if (isRecord(raw.records)) {
+    for (const vehicle of vehicleIds) {
+      sanitizeRecords(campaign.records[vehicle], raw.records[vehicle]);
+    }
+  }
+  return campaign;
+}
+
+function sanitizeCrash(raw: unknown): CrashReport | null {
+  return isRecord(raw) &&
+    isCrashCause(raw.cause) &&
+    isFiniteNumber(raw.x) &&
+    isFiniteNumber(raw.y)
+    ? { cause: raw.cause, x: raw.x, y: raw.y }
+    : null;
+}
+
+function sanitizeHistory(raw: unknown): RunHistoryEntry[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const history: RunHistoryEntry[] = [];
+  for (const entry of raw) {
+    if (
+      isRecord(entry) &&
+      typeof entry.levelId === "string" &&
+      (entry.outcome === "won" || entry.outcome === "crashed") &&
+      isFiniteNumber(entry.time) &&
+      isFiniteNumber(entry.maxProgress) &&
+      typeof entry.date === "string"
+    ) {
+      history.push({
+        levelId: entry.levelId,
+        vehicle: isVehicleId(entry.vehicle) ? entry.vehicle : DEFAULT_VEHICLE,
+        outcome: entry.outcome,
+        time: entry.time,
+        maxProgress: entry.maxProgress,
+        usedCheckpoints: entry.usedCheckpoints === true,
+        crash: entry.outcome === "crashed" ? sanitizeCrash(entry.crash) : null,
+        date: entry.date,
+      });
+    }
+  }
+  return history.slice(0, HISTORY_LIMIT);
+}
+
+/**
+ * Turns whatever was found in storage into a usable save. Older versions are
+ * migrated forward, malformed fields fall back to their defaults, and a save
+ * from a newer build is ignored rather than misread.
+ */
+export function migrateSave(raw: unknown): SaveData {
+  if (!isRecord(raw) || !isFiniteNumber(raw.version)) {
+    return createSaveData();
+  }
+  let save = raw;
+  let version = raw.version;
+  while (version < SAVE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return createSaveData();
+    }
+    save = migrate(save);
+    version += 1;
+  }
+  if (version !== SAVE_VERSION) {
+    return createSaveData();
+  }
+  return {
+    version: SAVE_VERSION,
+    campaign: sanitizeCampaign(save.campaign),
+    history: sanitizeHistory(save.history),
+    playerName: typeof save.playerName === "string" ? save.playerName : "",
+    gamepadMapping:
+      typeof save.gamepadMapping === "string"
+        ? save.gamepadMapping
+        : "standard",
+    keyBindings: sanitizeKeyBindings(save.keyBindings),
+    audio: sanitizeAudioSettings(save.audio),
+    particleQuality: isParticleQuality(save.particleQuality)
+      ? save.particleQuality
+      : "auto",
+    vehicle: isVehicleId(save.vehicle) ? save.vehicle : DEFAULT_VEHICLE,
+  };
+}
+
+function getStorage() {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    // Some privacy modes throw on access instead of returning null.
+    return null;
+  }
+}
+
+export function loadSave(): SaveData {
+  const storage = getStorage();
+  if (!storage) {
+    return createSaveData();
+  }
+  try {
+    const text = storage.getItem(STORAGE_KEY);
+    return text === null ? createSaveData() : migrateSave(JSON.parse(text));
+  } catch {
+    return createSaveData();
+  }
+}
+
+export function writeSave(save: SaveData) {
+  try {
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch {
+    // Quota or privacy errors only cost persistence; the game keeps running.
+  }
+}
+
+export function appendRunHistory(
+  save: SaveData,
+  entry: RunHistoryEntry,
+): SaveData {
+  return {
+    ...save,
+    history: [entry, ...save.history].slice(0, HISTORY_LIMIT),
+  };
+}
@@ -0,0 +1,204 @@
+import type { LevelDefinition } from "./level";
+
+/**
+ * One solid edge of the course. Solid lies behind the normal, so a rider
+ * only collides with the side the normal faces.
+ */
+export interface Collider {
+  ax: number;
+  ay: number;
+  bx: number;
+  by: number;
+  /** Unit normal pointing out of the solid side. */
+  nx: number;
+  ny: number;
+  length: number;
+}
+
+export interface TerrainContact {
+  collider: Collider;
+  /** How far the circle overlaps the edge, measured along its normal. */
+  depth: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** How far below the lowest terrain a rider can fall before the run is lost. */
+const FALL_LIMIT = 640;
+/**
+ * A foot this far behind an edge, now or at the start of the tick, is still
+ * set back on it. That covers riders spawned with the stick in the ground
+ * and feet pressed deep by a hard landing; anything further back is on the
+ * far side of the edge and passes under it.
+ */
+const FOOT_CATCH_DEPTH = 40;
+/** The stick must point at least this squarely into an edge to stand on it. */
+const MIN_FOOT_FACING = 0.2;
+
+const colliderCache = new WeakMap<LevelDefinition, Collider[]>();
+
+function makeCollider(ax: number, ay: number, bx: number, by: number) {
+  const length = Math.hypot(bx - ax, by - ay);
+  if (length === 0) {
+    return null;
+  }
+  // Right-hand normal in screen space: a left-to-right edge faces up.
+  return {
+    ax,
+    ay,
+    bx,
+    by,
+    nx: (by - ay) / length,
+    ny: -(bx - ax) / length,
+    length,
+  };
+}
+
+/** The y past which a falling rider is lost. */
+export function fallLine(level: LevelDefinition) {
+  let lowest = -Infinity;
+  for (const segment of level.terrain) {
+    lowest = Math.max(lowest, segment.startY, segment.endY);
+  }
+  for (const surface of level.surfaces) {
+    for (const point of surface.points) {
+      lowest = Math.max(lowest, point.y);
+    }
+  }
+  return lowest + FALL_LIMIT;
+}
+
+/**
+ * Every solid edge in the level: the main ground with walls down each side
+ * of its pits and ends, then the free-standing surfaces. Built once per
+ * level object, which the editor replaces rather than mutates.
+ */
+export function levelColliders(level: LevelDefinition) {
+  const cached = colliderCache.get(level);
+  if (cached) {
+    return cached;
+  }
+  const colliders: Collider[] = [];
+  const add = (ax: number, ay: number, bx: number, by: number) => {
+    const collider = makeCollider(ax, ay, bx, by);
+    if (collider) {
+      colliders.push(collider);
+    }
+  };
+
+  const bottom = fallLine(level);
+  level.terrain.forEach((segment, index) => {
+    if (segment.gap) {
+      return;
+    }
+    const previous = level.terrain[index - 1];
+    const next = level.terrain[index + 1];
+    if (!previous || previous.gap) {
+      add(segment.startX, bottom, segment.startX, segment.startY);
+    }
+    add(segment.startX, segment.startY, segment.endX, segment.endY);
+    if (!next || next.gap) {
+      add(segment.endX, segment.endY, segment.endX, bottom);
+    }
+  });
+
+  for (const surface of level.surfaces) {
+    const { points } = surface;
+    for (let i = 0; i < points.length - 1; i += 1) {
+      add(points[i].x, points[i].y, points[i + 1].x, points[i + 1].y);
+    }
+    if (surface.closed) {
+      const last = points[points.length - 1];
+      add(last.x, last.y, points[0].x, points[0].y);
+    }
+  }
+
+  colliderCache.set(level, colliders);
+  return colliders;
+}
+
+function signedDistance(collider: Collider, point: Point) {
+  return (point.x - collider.ax) * collider.nx + (point.y - collider.ay) * collider.ny;
+}
+
+function alongEdge(collider: Collider, point: Point) {
+  const dx = collider.bx - collider.ax;
+  const dy = collider.by - collider.ay;
+  const t =
+    ((point.x - collider.ax) * dx + (point.y - collider.ay) * dy) /
+    (collider.length * collider.length);
+  return t >= 0 && t <= 1;
+}
+
+/**
+ * The deepest edge a circle that moved from `from` to `to` this tick is
+ * touching, or null. Crossing an edge from its front within one tick counts
+ * too, so fast bodies cannot tunnel through thin terrain.
+ */
+export function circleContact(
+  level: LevelDefinition,
+  from: Point,
+  to: Point,
+  radius: number,
+): TerrainContact | null {
+  let best: TerrainContact | null = null;
+  for (const collider of levelColliders(level)) {
+    if (!alongEdge(collider, to)) {
+      continue;
+    }
+    const distance = signedDistance(collider, to);
+    if (distance >= radius) {
+      continue;
+    }
+    if (distance <= -radius && signedDistance(collider, from) < 0) {
+      continue;
+    }
+    const depth = radius - distance;
+    if (!best || depth > best.depth) {
+      best = { collider, depth };
+    }
+  }
+  return best;
+}
+
+/**
+ * How far the rider must slide back up the stick for the foot, which moved
+ * from `from` to `foot` this tick, to rest on the terrain; null when it is
+ * clear. `leg` is the unit vector from saddle to foot. With several edges
+ * in reach the nearest wins, and the next tick sorts out the rest.
+ */
+export function footPenetration(
+  level: LevelDefinition,
+  from: Point,
+  foot: Point,
+  leg: Point,
+): number | null {
+  let nearest: number | null = null;
+  for (const collider of levelColliders(level)) {
+    if (!alongEdge(collider, foot)) {
+      continue;
+    }
+    const distance = signedDistance(collider, foot);
+    if (distance >= 0) {
+      continue;
+    }
+    const facing = leg.x * collider.nx + leg.y * collider.ny;
+    if (facing > -MIN_FOOT_FACING) {
+      continue;
+    }
+    if (
+      distance < -FOOT_CATCH_DEPTH &&
+      signedDistance(collider, from) < -FOOT_CATCH_DEPTH
+    ) {
+      continue;
+    }
+    const penetration = distance / facing;
+    if (nearest === null || penetration < nearest) {
+      nearest = penetration;
+    }
+  }
+  return nearest;
+}
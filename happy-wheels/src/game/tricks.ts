@@ -0,0 +1,221 @@
+import { spikeBase } from "./hazards";
+import {
+  FIXED_STEP,
+  normalizeAngle,
+  type PlayerState,
+  type Simulation,
+} from "./physics";
+
+/** One scored move, positioned where the rider was when it was awarded. */
+export interface TrickAward {
+  label: string;
+  points: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Watches a run tick by tick and scores style on top of time. Everything it
+ * reads comes from the simulation, so a replay scores exactly like the run.
+ */
+export interface TrickTracker {
+  score: number;
+  /** Trick jumps landed back to back; each one raises the multiplier. */
+  combo: number;
+  /** Ticks on the ground since the last landing. */
+  groundTicks: number;
+  /** Ticks in the air this jump; 0 while on the ground. */
+  airTicks: number;
+  /** Signed rotation this jump, in radians; positive is a forward spin. */
+  rotation: number;
+  /** The spike field being passed over and the foot's closest approach to its tips. */
+  overSpikes: { index: number; clearance: number } | null;
+  /** Hazard indices of spike fields already scored this run. */
+  clearedSpikes: number[];
+  /** Awards not yet collected by {@link takeTrickAwards}. */
+  awards: TrickAward[];
+}
+
+/** Shorter hops are ordinary bouncing and score nothing. */
+const MIN_AIR_TIME = 0.35;
+/** How far short of a whole turn a rotation may stop and still count. */
+const FLIP_TOLERANCE = 0.5;
+const FLIP_POINTS = 500;
+const BIG_AIR_TIME = 1;
+const BIG_AIR_POINTS_PER_SECOND = 200;
+/** Landing tilts (radians from upright) for a clean landing and for a sloppy one. */
+const CLEAN_LANDING_TILT = 0.2;
+const SLOPPY_LANDING_TILT = 0.7;
+const CLEAN_LANDING_POINTS = 100;
+/** Time on the ground after a landing before the combo runs out. */
+const COMBO_WINDOW = 0.75;
+const COMBO_STEP = 0.5;
+const MAX_COMBO = 4;
+/** Foot clearance over spike tips that counts as a near miss. */
+const NEAR_MISS_CLEARANCE = 70;
+const NEAR_MISS_POINTS = 150;
+
+const FLIP_NAMES = ["", "", "Double ", "Triple ", "Quad "];
+
+export function createTrickTracker(): TrickTracker {
+  return {
+    score: 0,
+    combo: 0,
+    groundTicks: 0,
+    airTicks: 0,
+    rotation: 0,
+    overSpikes: null,
+    clearedSpikes: [],
+    awards: [],
+  };
+}
+
+export function copyTrickTracker(tracker: TrickTracker): TrickTracker {
+  return {
+    ...tracker,
+    overSpikes: tracker.overSpikes && { ...tracker.overSpikes },
+    clearedSpikes: [...tracker.clearedSpikes],
+    awards: [],
+  };
+}
+
+/** The multiplier the next trick jump scores at. */
+export function comboMultiplier(tracker: TrickTracker) {
+  return 1 + COMBO_STEP * Math.min(tracker.combo, MAX_COMBO);
+}
+
+function award(tracker: TrickTracker, player: PlayerState, label: string, points: number) {
+  tracker.score += points;
+  tracker.awards.push({ label, points, x: player.x, y: player.y });
+}
+
+function flipLabel(turns: number, rotation: number) {
+  const name = rotation > 0 ? "Frontflip" : "Backflip";
+  return turns < FLIP_NAMES.length ? `${FLIP_NAMES[turns]}${name}` : `${turns}× ${name}`;
+}
+
+function land(tracker: TrickTracker, player: PlayerState) {
+  const airTime = tracker.airTicks * FIXED_STEP;
+  if (airTime < MIN_AIR_TIME) {
+    return;
+  }
+  const moves: [string, number][] = [];
+  const turns = Math.floor((Math.abs(tracker.rotation) + FLIP_TOLERANCE) / (Math.PI * 2));
+  if (turns > 0) {
+    moves.push([flipLabel(turns, tracker.rotation), FLIP_POINTS * turns * turns]);
+  }
+  if (airTime >= BIG_AIR_TIME) {
+    moves.push([
+      `Big Air ${airTime.toFixed(1)}s`,
+      Math.round(airTime * BIG_AIR_POINTS_PER_SECOND),
+    ]);
+  }
+  if (moves.length === 0) {
+    return;
+  }
+  const tilt = Math.abs(normalizeAngle(player.angle));
+  if (tilt <= CLEAN_LANDING_TILT) {
+    moves.push(["Clean Landing", CLEAN_LANDING_POINTS]);
+  }
+  const multiplier = comboMultiplier(tracker);
+  for (const [label, points] of moves) {
+    award(
+      tracker,
+      player,
+      multiplier > 1 ? `${label} ×${multiplier}` : label,
+      Math.round(points * multiplier),
+    );
+  }
+  tracker.combo = tilt > SLOPPY_LANDING_TILT ? 0 : tracker.combo + 1;
+}
+
+/**
+ * Near misses: crossing a spike field with the foot skimming its tips. The
+ * closest approach is tracked while over the field and scored on leaving its
+ * far side, once per field per run.
+ */
+function checkSpikes(tracker: TrickTracker, sim: Simulation) {
+  const { level, player } = sim;
+  const footY = player.y + Math.cos(player.angle) * player.legLength;
+  const current = tracker.overSpikes;
+  if (current) {
+    const field = level.hazards[current.index];
+    if (field?.type !== "spikes" || player.x < field.x) {
+      tracker.overSpikes = null;
+    } else if (player.x > field.x + field.width) {
+      tracker.overSpikes = null;
+      if (current.clearance <= NEAR_MISS_CLEARANCE) {
+        tracker.clearedSpikes.push(current.index);
+        award(tracker, player, "Near Miss", NEAR_MISS_POINTS);
+      }
+    } else {
+      const tips = spikeBase(level, field) - field.height;
+      current.clearance = Math.min(current.clearance, Math.max(0, tips - footY));
+      return;
+    }
+  }
+  level.hazards.forEach((field, index) => {
+    if (
+      field.type === "spikes" &&
+      player.x >= field.x &&
+      player.x <= field.x + field.width &&
+      !tracker.clearedSpikes.includes(index)
+    ) {
+      const tips = spikeBase(level, field) - field.height;
+      tracker.overSpikes = { index, clearance: Math.max(0, tips - footY) };
+    }
+  });
+}
+
+/** Scores the tick just simulated; call after every {@link stepSimulation}. */
+export function updateTricks(tracker: TrickTracker, sim: Simulation) {
+  const { player } = sim;
+  if (sim.onGround) {
+    if (tracker.airTicks > 0) {
+      land(tracker, player);
+      tracker.airTicks = 0;
+      tracker.groundTicks = 0;
+    }
+    tracker.groundTicks += 1;
+    if (tracker.groundTicks * FIXED_STEP > COMBO_WINDOW) {
+      tracker.combo = 0;
+    }
+  } else {
+    if (tracker.airTicks === 0) {
+      tracker.rotation = 0;
+    }
+    tracker.airTicks += 1;
+    tracker.rotation += normalizeAngle(player.angle - sim.previousPlayer.angle);
+  }
+  checkSpikes(tracker, sim);
+}
+
+/** Hands over the awards made since the last call, for popups. */
+export function takeTrickAwards(tracker: TrickTracker) {
+  const awards = tracker.awards;
+  tracker.awards = [];
+  return awards;
+}
+
+/** An award floating up from where it was scored. */
+export interface TrickPopup extends TrickAward {
+  /** Seconds since it appeared. */
+  age: number;
+}
+
+export const TRICK_POPUP_LIFE = 1.4;
+
+/** Ages popups by `dt` seconds, adds any new awards stacked above each other, and drops expired ones. */
+export function updateTrickPopups(
+  popups: TrickPopup[],
+  awards: TrickAward[],
+  dt: number,
+) {
+  const next = popups
+    .map((popup) => ({ ...popup, age: popup.age + dt }))
+    .filter((popup) => popup.age < TRICK_POPUP_LIFE);
+  awards.forEach((trick, index) => {
+    next.push({ ...trick, y: trick.y - 110 - index * 30, age: 0 });
+  });
+  return next;
+}
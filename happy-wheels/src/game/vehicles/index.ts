@@ -0,0 +1,33 @@
+import { pogo } from "./pogo";
+import type { VehicleDefinition, VehicleId } from "./types";
+import { unicycle } from "./unicycle";
+
+export { pogoSpring } from "./pogo";
+export type {
+  SpringContact,
+  VehicleContact,
+  VehicleDefinition,
+  VehicleId,
+  WheelContact,
+} from "./types";
+
+/**
+ * Every vehicle the rider can take, in the order they are offered. A new
+ * one needs its id added to `VehicleId` and a definition registered here.
+ */
+export const vehicles: Record<VehicleId, VehicleDefinition> = {
+  pogo,
+  unicycle,
+};
+
+export const vehicleIds = Object.keys(vehicles) as VehicleId[];
+
+export const DEFAULT_VEHICLE: VehicleId = "pogo";
+
+export function vehicleFor(id: VehicleId) {
+  return vehicles[id];
+}
+
+export function isVehicleId(value: unknown): value is VehicleId {
+  return vehicleIds.includes(value as VehicleId);
+}
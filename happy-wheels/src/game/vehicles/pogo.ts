@@ -0,0 +1,52 @@
+import { roundedRectPath } from "../shapes";
+import type { SpringContact, VehicleDefinition } from "./types";
+
+/** The pogo's spring, also what generated courses measure jump reach by. */
+export const pogoSpring: SpringContact = {
+  type: "spring",
+  stiffness: 260,
+  damping: 32,
+  friction: 22,
+  jumpBaseImpulse: 520,
+  jumpCompressionScale: 7.8,
+};
+
+export const pogo: VehicleDefinition = {
+  id: "pogo",
+  label: "Pogo Stick",
+  description: "Bouncy and hard to tame. Squeeze the spring for huge jumps.",
+  legLength: 160,
+  headRadius: 28,
+  headOffset: 54,
+  controlForce: 820,
+  controlTorque: 11,
+  airTorque: 3.4,
+  contact: pogoSpring,
+  draw: (ctx, player, crashed) => {
+    // stick core
+    ctx.strokeStyle = crashed ? "#5a5e6d" : "#f3c25b";
+    ctx.lineWidth = 10;
+    ctx.beginPath();
+    ctx.moveTo(0, -8);
+    ctx.lineTo(0, player.legLength);
+    ctx.stroke();
+
+    // spring detail
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = crashed ? "#3d4152" : "#ffe38c";
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    ctx.moveTo(0, 20);
+    ctx.lineTo(0, player.legLength - 20);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // foot pedal
+    ctx.fillStyle = crashed ? "#2c303c" : "#2e7dd2";
+    roundedRectPath(ctx, -28, player.legLength - 8, 56, 16, 6);
+    ctx.fill();
+    ctx.fillStyle = crashed ? "#2f333f" : "#1c4c82";
+    roundedRectPath(ctx, -18, player.legLength + 6, 36, 10, 5);
+    ctx.fill();
+  },
+};
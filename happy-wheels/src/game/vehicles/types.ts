@@ -0,0 +1,74 @@
+import type { PlayerState } from "../physics";
+
+export type VehicleId = "pogo" | "unicycle";
+
+/**
+ * A pogo stick stands on a point foot at the end of a spring. The spring
+ * pushes back along the stick, and a jump fires along it too, harder the
+ * more it was squeezed.
+ */
+export interface SpringContact {
+  type: "spring";
+  stiffness: number;
+  damping: number;
+  /** Grip of the foot against sliding along the ground. */
+  friction: number;
+  jumpBaseImpulse: number;
+  /** Extra jump impulse per unit of spring compression. */
+  jumpCompressionScale: number;
+}
+
+/**
+ * A wheel rolls on whatever edge it rests against: it is pushed out along
+ * the edge's normal, drives and rolls along its tangent, and hops straight
+ * off it.
+ */
+export interface WheelContact {
+  type: "wheel";
+  radius: number;
+  /** Pedalling acceleration along the ground at full lean. */
+  driveForce: number;
+  /** Share of rolling speed lost per second. */
+  rollingResistance: number;
+  /** Share of speed into the ground given back as a bounce. */
+  bounce: number;
+  /** How hard the rider pulls the frame towards the lean they are holding. */
+  balance: number;
+  /** The frame angle held at full lean, in radians. */
+  maxLean: number;
+  hopImpulse: number;
+}
+
+export type VehicleContact = SpringContact | WheelContact;
+
+/**
+ * Everything that makes one ride different from another: the rider's
+ * collision points, how it handles, and how it is drawn. The rider's body
+ * is shared; only what they sit on changes.
+ */
+export interface VehicleDefinition {
+  id: VehicleId;
+  label: string;
+  description: string;
+  /** Saddle to the point that touches the ground, along the frame. */
+  legLength: number;
+  headRadius: number;
+  /** Saddle to the centre of the head. */
+  headOffset: number;
+  /** Push from leaning, on the ground or in the air. */
+  controlForce: number;
+  controlTorque: number;
+  /** Extra spin from leaning while airborne. */
+  airTorque: number;
+  contact: VehicleContact;
+  /**
+   * Draws the vehicle in the rider's frame: origin at the saddle, +y down
+   * towards the ground contact. `player.x` drives anything that turns with
+   * distance travelled, such as a wheel.
+   */
+  draw: (
+    ctx: CanvasRenderingContext2D,
+    player: Pick<PlayerState, "x" | "legLength">,
+    crashed: boolean,
+  ) => void;
+}
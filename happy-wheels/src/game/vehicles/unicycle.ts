@@ -0,0 +1,79 @@
+import { roundedRectPath } from "../shapes";
+import type { VehicleDefinition, WheelContact } from "./types";
+
+const wheel: WheelContact = {
+  type: "wheel",
+  radius: 34,
+  driveForce: 1100,
+  rollingResistance: 1.4,
+  bounce: 0.15,
+  balance: 40,
+  maxLean: 0.3,
+  hopImpulse: 760,
+};
+
+export const unicycle: VehicleDefinition = {
+  id: "unicycle",
+  label: "Unicycle",
+  description: "Steady on the ground and quick on the flat, but it can only hop.",
+  legLength: 130,
+  headRadius: 28,
+  headOffset: 54,
+  controlForce: 200,
+  controlTorque: 2,
+  airTorque: 3.4,
+  contact: wheel,
+  draw: (ctx, player, crashed) => {
+    const hub = player.legLength - wheel.radius;
+
+    // seat post
+    ctx.strokeStyle = crashed ? "#5a5e6d" : "#c9ced9";
+    ctx.lineWidth = 8;
+    ctx.beginPath();
+    ctx.moveTo(0, -8);
+    ctx.lineTo(0, hub);
+    ctx.stroke();
+
+    // saddle
+    ctx.fillStyle = crashed ? "#2c303c" : "#1c4c82";
+    roundedRectPath(ctx, -22, -14, 44, 12, 6);
+    ctx.fill();
+
+    // tyre and rim
+    ctx.strokeStyle = crashed ? "#2f333f" : "#1a1d27";
+    ctx.lineWidth = 8;
+    ctx.beginPath();
+    ctx.arc(0, hub, wheel.radius - 4, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.strokeStyle = crashed ? "#4d5465" : "#f3c25b";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(0, hub, wheel.radius - 9, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // spokes and cranks turn with the distance rolled
+    const spin = player.x / wheel.radius;
+    ctx.save();
+    ctx.translate(0, hub);
+    ctx.rotate(spin);
+    ctx.strokeStyle = crashed ? "#3d4152" : "rgba(255, 255, 255, 0.6)";
+    ctx.lineWidth = 1.5;
+    for (let i = 0; i < 6; i += 1) {
+      const angle = (i / 6) * Math.PI * 2;
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(Math.cos(angle) * (wheel.radius - 9), Math.sin(angle) * (wheel.radius - 9));
+      ctx.stroke();
+    }
+    ctx.strokeStyle = crashed ? "#5a5e6d" : "#c9ced9";
+    ctx.lineWidth = 5;
+    ctx.beginPath();
+    ctx.moveTo(-16, 0);
+    ctx.lineTo(16, 0);
+    ctx.stroke();
+    ctx.fillStyle = crashed ? "#2c303c" : "#2e7dd2";
+    ctx.fillRect(-22, -3, 10, 6);
+    ctx.fillRect(12, -3, 10, 6);
+    ctx.restore();
+  },
+};
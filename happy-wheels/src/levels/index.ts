@@ -0,0 +1,25 @@
+import { generatedLevelFromId } from "../game/generator";
+import { parseLevel } from "../game/level";
+import hazardWorks from "./hazard-works.json";
+import pogoGauntlet from "./pogo-gauntlet.json";
+import sinkholeRun from "./sinkhole-run.json";
+import spikeValley from "./spike-valley.json";
+import switchbackSummit from "./switchback-summit.json";
+
+/** Bundled courses in campaign order; each one unlocks the next. */
+export const bundledLevels = [
+  parseLevel(pogoGauntlet),
+  parseLevel(switchbackSummit),
+  parseLevel(spikeValley),
+  parseLevel(hazardWorks),
+  parseLevel(sinkholeRun),
+];
+
+/** A bundled course, or a generated one rebuilt from the seed in its id. */
+export function findLevel(levelId: string) {
+  return (
+    bundledLevels.find((level) => level.id === levelId) ??
+    generatedLevelFromId(levelId) ??
+    undefined
+  );
+}
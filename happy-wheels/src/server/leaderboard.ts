@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  DEFAULT_VEHICLE,
+  isVehicleId,
+  type VehicleId,
+} from "../game/vehicles";
+
+export interface ScoreEntry {
+  id: string;
+  levelId: string;
+  name: string;
+  /** What the run was ridden on; each vehicle has its own board. */
+  vehicle: VehicleId;
+  /** Verified run length in physics ticks; lower is better. */
+  ticks: number;
+  time: number;
+  submittedAt: string;
+}
+
+interface LeaderboardFile {
+  version: 1;
+  scores: ScoreEntry[];
+}
+
+/** Entries kept per course and vehicle; anything slower falls off the board. */
+const KEPT_PER_BOARD = 100;
+
+const storePath =
+  process.env.LEADERBOARD_FILE ??
+  path.join(process.cwd(), "data", "leaderboard.json");
+
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+async function readStore(): Promise<LeaderboardFile> {
+  try {
+    const parsed = JSON.parse(await readFile(storePath, "utf8"));
+    if (parsed?.version === 1 && Array.isArray(parsed.scores)) {
+      // Scores from before vehicles existed were all set on the pogo.
+      const scores = (parsed.scores as ScoreEntry[]).map((entry) => ({
+        ...entry,
+        vehicle: isVehicleId(entry.vehicle) ? entry.vehicle : DEFAULT_VEHICLE,
+      }));
+      return { version: 1, scores };
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Ignoring unreadable leaderboard at ${storePath}`, error);
+    }
+  }
+  return { version: 1, scores: [] };
+}
+
+async function writeStore(store: LeaderboardFile) {
+  await mkdir(path.dirname(storePath), { recursive: true });
+  const tempPath = `${storePath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(store, null, 2));
+  await rename(tempPath, storePath);
+}
+
+function rankOrder(a: ScoreEntry, b: ScoreEntry) {
+  return a.ticks - b.ticks || a.submittedAt.localeCompare(b.submittedAt);
+}
+
+function sameBoard(entry: ScoreEntry, levelId: string, vehicle: VehicleId) {
+  return entry.levelId === levelId && entry.vehicle === vehicle;
+}
+
+export async function topScores(
+  levelId: string,
+  vehicle: VehicleId,
+  limit: number,
+) {
+  await pendingWrite;
+  const store = await readStore();
+  return store.scores
+    .filter((entry) => sameBoard(entry, levelId, vehicle))
+    .sort(rankOrder)
+    .slice(0, limit);
+}
+
+/**
+ * Adds a verified score and returns it with its 1-based rank among runs on
+ * the same course and vehicle.
+ * Writes are queued so concurrent submissions cannot clobber each other.
+ */
+export function addScore(
+  score: Omit<ScoreEntry, "id" | "submittedAt">,
+): Promise<{ entry: ScoreEntry; rank: number }> {
+  const result = pendingWrite.then(async () => {
+    const store = await readStore();
+    const entry: ScoreEntry = {
+      ...score,
+      id: randomUUID(),
+      submittedAt: new Date().toISOString(),
+    };
+    const boardScores = store.scores
+      .filter((existing) => sameBoard(existing, score.levelId, score.vehicle))
+      .concat(entry)
+      .sort(rankOrder);
+    const kept = boardScores.slice(0, KEPT_PER_BOARD);
+    store.scores = store.scores
+      .filter((existing) => !sameBoard(existing, score.levelId, score.vehicle))
+      .concat(kept);
+    await writeStore(store);
+    return { entry, rank: boardScores.indexOf(entry) + 1 };
+  });
+  pendingWrite = result.catch(() => undefined);
+  return result;
+}
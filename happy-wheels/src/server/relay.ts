@@ -0,0 +1,228 @@
+import { randomInt, randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import {
+  COUNTDOWN_SECONDS,
+  parseClientMessage,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  standingOrder,
+  type ClientMessage,
+  type NetStanding,
+  type ServerMessage,
+} from "../game/netProtocol";
+import { acceptWebSocket, type WebSocketConnection } from "./websocket";
+
+interface Member {
+  id: string;
+  name: string;
+  connection: WebSocketConnection;
+  room: Room | null;
+}
+
+interface Room {
+  code: string;
+  /** Members in the order they joined; the first is the host. */
+  members: Member[];
+  /** True from a countdown until everyone racing has finished or crashed. */
+  racing: boolean;
+  /** Who was in the room when the race started; later joiners sit it out. */
+  racers: Set<string>;
+  standings: NetStanding[];
+}
+
+function send(member: Member, message: ServerMessage) {
+  member.connection.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: ServerMessage, except?: Member) {
+  const text = JSON.stringify(message);
+  for (const member of room.members) {
+    if (member !== except) {
+      member.connection.send(text);
+    }
+  }
+}
+
+/**
+ * Rooms of riders racing each other on a LAN. The relay never simulates
+ * anything: it forwards each rider's snapshots to the rest of their room,
+ * starts everyone's countdown together, and keeps the finishing order, which
+ * is decided by the tick count each game reports rather than by which
+ * message arrived first.
+ */
+export function createRelay() {
+  const rooms = new Map<string, Room>();
+
+  const newRoomCode = () => {
+    for (;;) {
+      let code = "";
+      for (let i = 0; i < ROOM_CODE_LENGTH; i += 1) {
+        code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+      }
+      if (!rooms.has(code)) {
+        return code;
+      }
+    }
+  };
+
+  const sendRoom = (room: Room) => {
+    const riders = room.members.map(({ id, name }) => ({ id, name }));
+    for (const member of room.members) {
+      send(member, {
+        type: "room",
+        room: room.code,
+        you: member.id,
+        host: room.members[0].id,
+        riders,
+      });
+    }
+  };
+
+  const sendStandings = (room: Room) => {
+    const complete = room.standings.length >= room.racers.size;
+    if (complete) {
+      room.racing = false;
+    }
+    broadcast(room, {
+      type: "standings",
+      standings: room.standings.slice().sort(standingOrder),
+      complete,
+    });
+  };
+
+  const leaveRoom = (member: Member) => {
+    const room = member.room;
+    if (!room) {
+      return;
+    }
+    member.room = null;
+    room.members = room.members.filter((other) => other !== member);
+    if (room.members.length === 0) {
+      rooms.delete(room.code);
+      return;
+    }
+    sendRoom(room);
+    // Someone who leaves mid-race no longer holds the others up.
+    if (room.racing && room.racers.delete(member.id)) {
+      room.standings = room.standings.filter(
+        (standing) => standing.rider !== member.id,
+      );
+      sendStandings(room);
+    }
+  };
+
+  const joinRoom = (member: Member, room: Room, name: string) => {
+    leaveRoom(member);
+    member.name = name;
+    member.room = room;
+    room.members.push(member);
+    sendRoom(room);
+  };
+
+  const handleMessage = (member: Member, message: ClientMessage) => {
+    const room = member.room;
+    switch (message.type) {
+      case "create": {
+        const created: Room = {
+          code: newRoomCode(),
+          members: [],
+          racing: false,
+          racers: new Set(),
+          standings: [],
+        };
+        rooms.set(created.code, created);
+        joinRoom(member, created, message.name);
+        break;
+      }
+      case "join": {
+        const target = rooms.get(message.room);
+        if (!target) {
+          send(member, { type: "error", message: `No room ${message.room}` });
+        } else if (target !== room) {
+          joinRoom(member, target, message.name);
+        }
+        break;
+      }
+      case "leave":
+        leaveRoom(member);
+        break;
+      case "start":
+        if (!room || room.members[0] !== member) {
+          send(member, { type: "error", message: "Only the host can start" });
+        } else if (room.racing) {
+          send(member, { type: "error", message: "A race is already on" });
+        } else {
+          room.racing = true;
+          room.racers = new Set(room.members.map(({ id }) => id));
+          room.standings = [];
+          broadcast(room, {
+            type: "countdown",
+            levelId: message.levelId,
+            seconds: COUNTDOWN_SECONDS,
+          });
+        }
+        break;
+      case "state":
+        // The snapshot was rebuilt from its checked fields when the message
+        // was parsed, so nothing else a game tacks on reaches the others.
+        if (room?.racing) {
+          broadcast(
+            room,
+            {
+              type: "state",
+              rider: member.id,
+              tick: message.tick,
+              player: message.player,
+            },
+            member,
+          );
+        }
+        break;
+      case "finish":
+        if (
+          room?.racing &&
+          room.racers.has(member.id) &&
+          !room.standings.some((standing) => standing.rider === member.id)
+        ) {
+          room.standings.push({
+            rider: member.id,
+            name: member.name,
+            outcome: message.outcome,
+            ticks: message.ticks,
+            progress: message.progress,
+          });
+          sendStandings(room);
+        }
+        break;
+    }
+  };
+
+  const server: Server = createServer((_request, response) => {
+    response.writeHead(426, { "Content-Type": "text/plain" });
+    response.end("Race relay: connect with a WebSocket.\n");
+  });
+
+  server.on("upgrade", (request, socket) => {
+    acceptWebSocket(request, socket, (connection) => {
+      const member: Member = {
+        id: randomUUID(),
+        name: "",
+        connection,
+        room: null,
+      };
+      return {
+        onMessage: (text) => {
+          const message = parseClientMessage(text);
+          if (message) {
+            handleMessage(member, message);
+          } else {
+            send(member, { type: "error", message: "Malformed message" });
+          }
+        },
+        onClose: () => leaveRoom(member),
+      };
+    });
+  });
+
+  return server;
+}
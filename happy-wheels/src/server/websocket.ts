@@ -0,0 +1,229 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+/** Fixed key from RFC 6455 that proves the server understood the upgrade. */
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+/** Largest message accepted; rider snapshots are a few hundred bytes. */
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Close codes from RFC 6455 section 7.4.1. */
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED_DATA = 1003;
+const CLOSE_TOO_LARGE = 1009;
+
+export interface WebSocketConnection {
+  send: (text: string) => void;
+  close: () => void;
+}
+
+export interface WebSocketHandlers {
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  /** Bytes the frame took up in the stream. */
+  size: number;
+}
+
+/** The next complete frame at the start of `buffer`, or null if more bytes are needed. */
+function readFrame(buffer: Buffer): Frame | "too-large" | null {
+  if (buffer.length < 2) {
+    return null;
+  }
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return null;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return null;
+    }
+    const longLength = buffer.readBigUInt64BE(2);
+    if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+      return "too-large";
+    }
+    length = Number(longLength);
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) {
+    return "too-large";
+  }
+  const maskOffset = offset;
+  if (masked) {
+    offset += 4;
+  }
+  if (buffer.length < offset + length) {
+    return null;
+  }
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i += 1) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { fin, opcode, payload, size: offset + length };
+}
+
+function encodeFrame(opcode: number, payload: Buffer) {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Completes a WebSocket upgrade on a raw HTTP socket, speaking just enough of
+ * RFC 6455 for the relay: text messages (fragmented or not), ping, and close.
+ * Binary messages are refused with a close. Returns null, having refused the
+ * upgrade, if the request isn't a WebSocket handshake.
+ */
+export function acceptWebSocket(
+  request: IncomingMessage,
+  socket: Duplex,
+  handlers: (connection: WebSocketConnection) => WebSocketHandlers,
+): WebSocketConnection | null {
+  const key = request.headers["sec-websocket-key"];
+  if (
+    typeof key !== "string" ||
+    request.headers.upgrade?.toLowerCase() !== "websocket"
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+    return null;
+  }
+  const accept = createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+  let open = true;
+  /** Set once our close frame is out; nothing more may be written after it. */
+  let closing = false;
+  const closeWith = (status: number) => {
+    if (open && !closing) {
+      closing = true;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(status);
+      socket.write(encodeFrame(OPCODE_CLOSE, payload));
+      socket.end();
+    }
+  };
+  const connection: WebSocketConnection = {
+    send: (text) => {
+      if (open && !closing) {
+        socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, "utf8")));
+      }
+    },
+    close: () => closeWith(CLOSE_NORMAL),
+  };
+  const { onMessage, onClose } = handlers(connection);
+
+  let pending = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+  /** Opcode of the message whose fragments are arriving, or null between messages. */
+  let messageOpcode: number | null = null;
+
+  socket.on("data", (chunk: Buffer) => {
+    if (closing) {
+      return;
+    }
+    pending = Buffer.concat([pending, chunk]);
+    for (;;) {
+      const frame = readFrame(pending);
+      if (frame === null) {
+        return;
+      }
+      if (frame === "too-large") {
+        closeWith(CLOSE_TOO_LARGE);
+        return;
+      }
+      pending = pending.subarray(frame.size);
+      if (frame.opcode === OPCODE_BINARY) {
+        closeWith(CLOSE_UNSUPPORTED_DATA);
+        return;
+      }
+      if (frame.opcode === OPCODE_TEXT || frame.opcode === OPCODE_CONTINUATION) {
+        // A continuation must follow a message's first frame, and a new
+        // message can't start until the last one has had its final frame.
+        if ((frame.opcode === OPCODE_TEXT) !== (messageOpcode === null)) {
+          closeWith(CLOSE_PROTOCOL_ERROR);
+          return;
+        }
+        messageOpcode = OPCODE_TEXT;
+        fragments.push(frame.payload);
+        fragmentBytes += frame.payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) {
+          closeWith(CLOSE_TOO_LARGE);
+          return;
+        }
+        if (frame.fin) {
+          const text = Buffer.concat(fragments).toString("utf8");
+          fragments = [];
+          fragmentBytes = 0;
+          messageOpcode = null;
+          onMessage(text);
+          // Handling the message may have closed the connection.
+          if (closing) {
+            return;
+          }
+        }
+      } else if (frame.opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      } else if (frame.opcode === OPCODE_CLOSE) {
+        connection.close();
+        return;
+      }
+      // Pongs carry nothing the relay uses.
+    }
+  });
+
+  const finish = () => {
+    if (open) {
+      open = false;
+      onClose();
+    }
+  };
+  socket.on("close", finish);
+  socket.on("error", finish);
+  return connection;
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  crossedCheckpoint,
+  restoreCheckpoint,
+  takeCheckpoint,
+  type CheckpointSnapshot,
+} from "../src/game/checkpoints";
+import { createSimulation, stepSimulation } from "../src/game/physics";
+import {
+  createInputRecorder,
+  finishRecording,
+  recordInput,
+  rewindRecorder,
+  simulateRun,
+  type RunOutcome,
+} from "../src/game/replay";
+import { createTrickTracker } from "../src/game/tricks";
+import { findLevel } from "../src/levels";
+import { clearSpikeValley, hopsAt, recordGameRun, type InputScript } from "./gameRun";
+
+/** The spike-valley run up to its checkpoint, then no hop over the next spikes. */
+const crashAfterCheckpoint = hopsAt([
+  [67, 35],
+  [136, 60],
+]);
+
+test("a run respawned at a checkpoint still verifies", () => {
+  const level = findLevel("spike-valley");
+  assert.ok(level);
+  let outcome: RunOutcome | null = null;
+  const run = {
+    ...createSimulation(
+      level,
+      {
+        handleWin: () => {
+          outcome ??= "won";
+        },
+        handleCrash: () => {
+          outcome ??= "crashed";
+        },
+      },
+      "unicycle",
+    ),
+    tricks: createTrickTracker(),
+  };
+  const recorder = createInputRecorder();
+  let checkpoint: CheckpointSnapshot | null = null;
+  // Steps the run the way the page does: record, step, then look for flags.
+  const ride = (script: InputScript) => {
+    while (outcome === null && run.tick < 3600) {
+      Object.assign(run.input, {
+        left: false,
+        right: false,
+        analogLean: 0,
+        jumpHeld: false,
+        jumpPressed: false,
+        ...script(run.tick),
+      });
+      recordInput(recorder, run.tick, run.input);
+      stepSimulation(run);
+      const crossed = crossedCheckpoint(level, run.previousPlayer.x, run.player.x);
+      if (crossed !== null && crossed > (checkpoint?.index ?? -1)) {
+        checkpoint = takeCheckpoint(run, crossed);
+      }
+    }
+  };
+
+  ride(crashAfterCheckpoint);
+  assert.equal(outcome, "crashed");
+  assert.ok(checkpoint, "crashed before reaching the checkpoint");
+  const snapshot: CheckpointSnapshot = checkpoint;
+  assert.ok(run.tick > snapshot.tick);
+
+  restoreCheckpoint(run, snapshot);
+  rewindRecorder(recorder, snapshot.tick);
+  assert.equal(run.tick, snapshot.tick);
+  assert.deepEqual(run.player, snapshot.player);
+  outcome = null;
+  ride(clearSpikeValley);
+  assert.equal(outcome, "won");
+
+  const recording = finishRecording(recorder, level.id, "unicycle", "won", run.tick);
+  assert.deepEqual(simulateRun(level, recording, recording.ticks + 1), {
+    outcome: "won",
+    ticks: recording.ticks,
+  });
+  // The crash is gone without a trace: the same as never having made it.
+  assert.equal(recording.ticks, recordGameRun(level, "unicycle", clearSpikeValley)?.ticks);
+});
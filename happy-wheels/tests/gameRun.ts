@@ -0,0 +1,91 @@
+import type { LevelDefinition } from "../src/game/level";
+import {
+  createSimulation,
+  stepSimulation,
+  type InputState,
+} from "../src/game/physics";
+import {
+  createInputRecorder,
+  finishRecording,
+  recordInput,
+  type RunOutcome,
+  type RunRecording,
+} from "../src/game/replay";
+import type { VehicleId } from "../src/game/vehicles";
+
+/** The controls as they stand on `tick`; anything left out is released. */
+export type InputScript = (tick: number) => Partial<InputState>;
+
+export const holdRight: InputScript = () => ({ right: true });
+
+/**
+ * Holds right and hops on each `[tick, ease]`, letting go of the lean for
+ * `ease` ticks after the hop so the rider doesn't tip over in the air. A
+ * negative `ease` leans back instead for that many ticks.
+ */
+export function hopsAt(hops: [number, number][]): InputScript {
+  const easing = (tick: number, [at, ease]: [number, number]) =>
+    tick > at && tick <= at + Math.abs(ease);
+  return (tick) => ({
+    right: !hops.some((hop) => easing(tick, hop)),
+    left: hops.some((hop) => hop[1] < 0 && easing(tick, hop)),
+    jumpHeld: hops.some(([at]) => tick >= at && tick < at + 6),
+    jumpPressed: hops.some(([at]) => tick === at),
+  });
+}
+
+/** Wins pogo-gauntlet on the unicycle by hopping both spike fields. */
+export const clearPogoGauntlet = hopsAt([
+  [129, 60],
+  [224, 0],
+]);
+
+/**
+ * Rides `level` the way the game's page does: each tick's input is recorded
+ * before that tick is stepped, and the recording is finished from the win or
+ * crash handler with the simulation's tick count at that moment. Returns
+ * null if the run is still going after `maxTicks`.
+ */
+export function recordGameRun(
+  level: LevelDefinition,
+  vehicle: VehicleId,
+  script: InputScript,
+  maxTicks = 3600,
+): RunRecording | null {
+  const recorder = createInputRecorder();
+  let recording: RunRecording | null = null;
+  const finish = (outcome: RunOutcome) => {
+    recording ??= finishRecording(recorder, level.id, vehicle, outcome, sim.tick);
+  };
+  const sim = createSimulation(
+    level,
+    {
+      handleWin: () => finish("won"),
+      handleCrash: () => finish("crashed"),
+    },
+    vehicle,
+  );
+  while (recording === null && sim.tick < maxTicks) {
+    Object.assign(sim.input, {
+      left: false,
+      right: false,
+      analogLean: 0,
+      jumpHeld: false,
+      jumpPressed: false,
+      ...script(sim.tick),
+    });
+    recordInput(recorder, sim.tick, sim.input);
+    stepSimulation(sim);
+  }
+  return recording;
+}
+
+/** Wins spike-valley on the unicycle, past its checkpoint and all five spike fields. */
+export const clearSpikeValley = hopsAt([
+  [67, 35],
+  [136, 60],
+  [209, 45],
+  [327, 0],
+  [348, -30],
+  [417, 0],
+]);
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  courseFromId,
+  courseFromQuery,
+  difficulties,
+  generateCourse,
+  generatedLevelId,
+  reachabilityIssues,
+} from "../src/game/generator";
+import { findLevel } from "../src/levels";
+
+const SEEDS = ["abc123", "0", "pogo", "zzzzzz", "hills-and-pits", "q7x2m9"];
+
+test("the same seed and difficulty give the same course", () => {
+  for (const difficulty of difficulties) {
+    assert.deepEqual(generateCourse("abc123", difficulty), generateCourse("abc123", difficulty));
+  }
+  assert.notDeepEqual(
+    generateCourse("abc123", "normal").level,
+    generateCourse("abc124", "normal").level,
+  );
+});
+
+test("every generated course can be finished", () => {
+  for (const difficulty of difficulties) {
+    for (const seed of SEEDS) {
+      const { level } = generateCourse(seed, difficulty);
+      assert.deepEqual(reachabilityIssues(level), [], `${difficulty} ${seed}`);
+    }
+  }
+});
+
+test("rebuilds a course from its level id and shared link", () => {
+  const course = generateCourse("abc123", "hard");
+  assert.deepEqual(courseFromId(generatedLevelId("abc123", "hard")), course);
+  assert.deepEqual(courseFromQuery("?seed=ABC123&difficulty=hard"), course);
+  assert.deepEqual(courseFromQuery("?seed=abc123"), generateCourse("abc123", "normal"));
+});
+
+test("rejects level ids that name no generated course", () => {
+  for (const levelId of [
+    "pogo-gauntlet",
+    "generated-constructor-abc",
+    "generated-toString-abc",
+    "generated-__proto__-abc",
+    "generated-extreme-abc",
+    "generated-easy-",
+    "generated-easy-not a seed",
+    `generated-easy-${"a".repeat(25)}`,
+  ]) {
+    assert.equal(courseFromId(levelId), null, levelId);
+  }
+  assert.equal(findLevel("generated-constructor-x"), undefined);
+});
+
+test("rejects shared links without a usable seed", () => {
+  for (const search of ["", "?difficulty=hard", "?seed=", "?seed=%20", "?seed=no%20spaces"]) {
+    assert.equal(courseFromQuery(search), null, search);
+  }
+  assert.deepEqual(
+    courseFromQuery("?seed=abc123&difficulty=constructor"),
+    generateCourse("abc123", "normal"),
+  );
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { test } from "node:test";
+import { checkGolden } from "../src/game/headless";
+import { parseRunRecording, type RunOutcome } from "../src/game/replay";
+import { bundledLevels, findLevel } from "../src/levels";
+import { holdRight, recordGameRun } from "./gameRun";
+
+const GOLDEN_FOLDER = join(__dirname, "..", "replays", "golden");
+
+/**
+ * How each golden run is meant to end. A recording only pins down what the
+ * physics did when it was made; this says what it should have done.
+ */
+const EXPECTED_OUTCOMES: Record<string, RunOutcome> = {
+  "generated-easy-abc123-unicycle.json": "won",
+  "hazard-works-unicycle-spikes.json": "crashed",
+  "pogo-gauntlet-pogo-idle.json": "crashed",
+  "pogo-gauntlet-unicycle-hop.json": "won",
+  "spike-valley-unicycle.json": "won",
+  "switchback-summit-unicycle-game.json": "won",
+};
+
+test("every golden replay still ends the way it was recorded", () => {
+  const files = readdirSync(GOLDEN_FOLDER).filter((file) => file.endsWith(".json"));
+  assert.deepEqual(files.sort(), Object.keys(EXPECTED_OUTCOMES).sort());
+  for (const file of files) {
+    const recording = parseRunRecording(
+      JSON.parse(readFileSync(join(GOLDEN_FOLDER, file), "utf8")),
+    );
+    assert.ok(recording, `${file} is not a run recording`);
+    const level = findLevel(recording.levelId);
+    assert.ok(level, `${file} is on an unknown level`);
+    const { run, passed } = checkGolden(level, recording);
+    assert.ok(passed, `${file} no longer matches`);
+    assert.equal(run.outcome, EXPECTED_OUTCOMES[file], `${file} should have ${EXPECTED_OUTCOMES[file]}`);
+  }
+});
+
+test("a run recorded by the game passes as a golden replay", () => {
+  for (const level of bundledLevels) {
+    const recording = recordGameRun(level, "unicycle", holdRight);
+    assert.ok(recording);
+    assert.ok(checkGolden(level, recording).passed, level.id);
+  }
+});
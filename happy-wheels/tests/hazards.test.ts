@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { spikeBase, touchesSpikes } from "../src/game/hazards/spikes";
+import { runHeadless } from "../src/game/headless";
+import type { SpikeHazard } from "../src/game/level";
+import { findLevel } from "../src/levels";
+import { clearPogoGauntlet, holdRight, recordGameRun } from "./gameRun";
+
+test("a wheel rolling into spikes crashes the unicycle", () => {
+  const level = findLevel("pogo-gauntlet");
+  assert.ok(level);
+  const recording = recordGameRun(level, "unicycle", holdRight);
+  assert.equal(recording?.outcome, "crashed");
+
+  const run = runHeadless(level, recording, recording.ticks + 1);
+  assert.equal(run.crash, "spikes");
+  const field = level.hazards.find((hazard) => hazard.type === "spikes");
+  assert.ok(field);
+  const end = run.trajectory[run.trajectory.length - 1];
+  assert.ok(end.x > field.x - 200 && end.x < field.x + field.width, `crashed at x=${end.x}`);
+});
+
+test("hopping the spike fields still wins", () => {
+  const level = findLevel("pogo-gauntlet");
+  assert.ok(level);
+  assert.equal(recordGameRun(level, "unicycle", clearPogoGauntlet)?.outcome, "won");
+});
+
+test("spikes catch the foot even with the head and body clear", () => {
+  const level = findLevel("pogo-gauntlet");
+  assert.ok(level);
+  const field = level.hazards.find((hazard): hazard is SpikeHazard => hazard.type === "spikes");
+  assert.ok(field);
+  const top = spikeBase(level, field) - field.height;
+  const middle = field.x + field.width / 2;
+  const rider = (footY: number) => ({
+    head: { x: middle, y: top - 220 },
+    headRadius: 28,
+    body: { x: middle, y: top - 160 },
+    foot: { x: middle, y: footY },
+  });
+  assert.equal(touchesSpikes(level, field, rider(top + 10)), true);
+  assert.equal(touchesSpikes(level, field, rider(top - 10)), false);
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { LevelValidationError, parseLevel, serializeLevel } from "../src/game/level";
+import { bundledLevels } from "../src/levels";
+
+function withHazards(hazards: unknown[]) {
+  return { ...JSON.parse(serializeLevel(bundledLevels[0])), hazards };
+}
+
+test("reads each hazard type's own fields", () => {
+  const level = parseLevel(
+    withHazards([
+      { type: "saw", x: 400, width: 200, height: 60, radius: 30, period: 2, extra: 1 },
+      { type: "wind", x: 700, width: 300, force: -120 },
+    ]),
+  );
+  assert.deepEqual(level.hazards, [
+    { type: "saw", x: 400, width: 200, height: 60, radius: 30, period: 2 },
+    { type: "wind", x: 700, width: 300, force: -120 },
+  ]);
+});
+
+test("reports every bad hazard field by path", () => {
+  assert.throws(
+    () =>
+      parseLevel(
+        withHazards([
+          { type: "saw", x: 400, width: 0, height: 60, radius: "big", period: -1 },
+          { type: "laser", x: 0, width: 10 },
+        ]),
+      ),
+    (error: unknown) => {
+      assert.ok(error instanceof LevelValidationError);
+      assert.deepEqual(error.issues, [
+        "level.hazards[0].width must be positive",
+        "level.hazards[0].radius must be a finite number",
+        "level.hazards[0].period must be positive",
+        'level.hazards[1].type "laser" is not a known hazard type',
+      ]);
+      return true;
+    },
+  );
+});
+
+test("reports a hazard type named like an object property as unknown", () => {
+  assert.throws(
+    () =>
+      parseLevel(
+        withHazards([
+          { type: "toString", x: 0, width: 10 },
+          { type: "constructor", x: 20, width: 10 },
+        ]),
+      ),
+    (error: unknown) => {
+      assert.ok(error instanceof LevelValidationError);
+      assert.deepEqual(error.issues, [
+        'level.hazards[0].type "toString" is not a known hazard type',
+        'level.hazards[1].type "constructor" is not a known hazard type',
+      ]);
+      return true;
+    },
+  );
+});
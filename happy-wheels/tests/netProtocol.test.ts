@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseClientMessage, parseServerMessage } from "../src/game/netProtocol";
+
+const player = {
+  vehicle: "unicycle",
+  x: 120,
+  y: 340,
+  vx: 4,
+  vy: -1,
+  angle: 0.1,
+  angularVelocity: 0,
+  legLength: 38,
+  headRadius: 12,
+  headOffset: 56,
+};
+
+function parse(message: unknown) {
+  return parseServerMessage(JSON.stringify(message));
+}
+
+test("reads each relay message with only its own fields", () => {
+  assert.deepEqual(
+    parse({
+      type: "room",
+      room: "ABCD",
+      you: "r2",
+      host: "r1",
+      riders: [{ id: "r1", name: "Ann", colour: "red" }],
+    }),
+    { type: "room", room: "ABCD", you: "r2", host: "r1", riders: [{ id: "r1", name: "Ann" }] },
+  );
+  assert.deepEqual(parse({ type: "countdown", levelId: "switchback-summit", seconds: 3 }), {
+    type: "countdown",
+    levelId: "switchback-summit",
+    seconds: 3,
+  });
+  assert.deepEqual(
+    parse({ type: "state", rider: "r1", tick: 40, player: { ...player, script: "x" } }),
+    { type: "state", rider: "r1", tick: 40, player },
+  );
+  assert.deepEqual(
+    parse({
+      type: "standings",
+      standings: [{ rider: "r1", name: "Ann", outcome: "won", ticks: 900, progress: 100 }],
+      complete: true,
+    }),
+    {
+      type: "standings",
+      standings: [{ rider: "r1", name: "Ann", outcome: "won", ticks: 900, progress: 100 }],
+      complete: true,
+    },
+  );
+  assert.deepEqual(parse({ type: "error", message: "Room is full" }), {
+    type: "error",
+    message: "Room is full",
+  });
+});
+
+test("drops relay messages with a missing or mistyped field", () => {
+  for (const message of [
+    { type: "room", room: "ABCD", you: "r2", host: "r1", riders: [{ id: 1, name: "Ann" }] },
+    { type: "room", room: "ABCD", you: "r2", riders: [] },
+    { type: "countdown", levelId: "", seconds: 3 },
+    { type: "countdown", levelId: "switchback-summit", seconds: "3" },
+    { type: "state", rider: "r1", tick: 1.5, player },
+    { type: "state", rider: "r1", tick: 40, player: { ...player, vx: null } },
+    { type: "state", rider: "r1", tick: 40, player: { ...player, vehicle: "tank" } },
+    {
+      type: "standings",
+      standings: [{ rider: "r1", name: "Ann", outcome: "lost", ticks: 900, progress: 100 }],
+      complete: true,
+    },
+    { type: "standings", standings: [], complete: "yes" },
+    { type: "error", message: { text: "Room is full" } },
+    { type: "welcome" },
+  ]) {
+    assert.equal(parse(message), null, JSON.stringify(message));
+  }
+  assert.equal(parseServerMessage("not json"), null);
+});
+
+test("rebuilds a game's snapshot from its checked fields before the relay passes it on", () => {
+  const message = parseClientMessage(
+    JSON.stringify({ type: "state", tick: 40, player: { ...player, note: "x".repeat(1000) } }),
+  );
+  assert.deepEqual(message, { type: "state", tick: 40, player });
+  assert.equal(
+    parseClientMessage(JSON.stringify({ type: "state", tick: 40, player: { ...player, y: "1" } })),
+    null,
+  );
+});
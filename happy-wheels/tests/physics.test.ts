@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  advanceFixedStep,
+  createFixedStepClock,
+  createSimulation,
+  stepSimulation,
+  type InputState,
+} from "../src/game/physics";
+import { findLevel } from "../src/levels";
+
+const TICKS = 200;
+
+/** Leans forward, brakes for a while, then hops, so every control is used. */
+function scriptedInput(tick: number): InputState {
+  return {
+    left: tick >= 60 && tick < 80,
+    right: tick < 60 || tick >= 80,
+    analogLean: tick >= 120 && tick < 140 ? 0.5 : 0,
+    jumpHeld: tick >= 100 && tick < 108,
+    jumpPressed: tick === 100,
+  };
+}
+
+/**
+ * Rides the same inputs for {@link TICKS} ticks, or until the run ends, fed by
+ * frames of `deltas`.
+ */
+function rideAtFrameRate(deltas: number[]) {
+  const level = findLevel("switchback-summit");
+  assert.ok(level);
+  let ended = false;
+  const sim = createSimulation(
+    level,
+    {
+      handleWin: () => {
+        ended = true;
+      },
+      handleCrash: () => {
+        ended = true;
+      },
+    },
+    "unicycle",
+  );
+  const clock = createFixedStepClock();
+  for (let frame = 0; !ended && sim.tick < TICKS; frame += 1) {
+    advanceFixedStep(clock, deltas[frame % deltas.length], () => {
+      if (ended || sim.tick >= TICKS) {
+        return;
+      }
+      Object.assign(sim.input, scriptedInput(sim.tick));
+      stepSimulation(sim);
+    });
+  }
+  return sim;
+}
+
+test("the same inputs give the same run at any frame rate", () => {
+  const reference = rideAtFrameRate([1 / 60]);
+  // Long enough to have used every control before it finished or crashed.
+  assert.ok(reference.tick > 140, `reference ended at tick ${reference.tick}`);
+  for (const deltas of [
+    [1 / 30],
+    [1 / 144],
+    [0.004, 0.031, 0.017, 0.0005, 0.05, 0.012],
+    // Longer than the clock catches up on; the run just takes more frames.
+    [0.4, 1 / 240],
+  ]) {
+    const sim = rideAtFrameRate(deltas);
+    assert.equal(sim.tick, reference.tick, `ticks at ${deltas.join(", ")}`);
+    assert.deepEqual(sim.player, reference.player, `player at ${deltas.join(", ")}`);
+    assert.equal(sim.onGround, reference.onGround);
+    assert.deepEqual(sim.hazards, reference.hazards);
+  }
+});
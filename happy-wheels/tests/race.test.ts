@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSimulation, FIXED_STEP } from "../src/game/physics";
+import {
+  createLocalRace,
+  isRaceOver,
+  RACE_FINISH_GRACE,
+  racePlacements,
+  settleRacer,
+  winningGap,
+} from "../src/game/race";
+import type { RunOutcome } from "../src/game/replay";
+import { findLevel } from "../src/levels";
+
+const level = findLevel("spike-valley")!;
+
+function createRace(riders: number) {
+  const sims = Array.from({ length: riders }, () =>
+    createSimulation(level, { handleWin: () => {}, handleCrash: () => {} }, "unicycle"),
+  );
+  return createLocalRace(sims);
+}
+
+/** Ends racer `seat`'s run on `tick`, at `x` along the course. */
+function settle(
+  race: ReturnType<typeof createRace>,
+  seat: number,
+  outcome: RunOutcome,
+  tick: number,
+  x: number,
+) {
+  const racer = race.racers[seat];
+  racer.sim.tick = tick;
+  racer.sim.player.x = x;
+  assert.ok(settleRacer(racer, outcome));
+}
+
+test("the race waits out the grace period after the first finish", () => {
+  const race = createRace(2);
+  settle(race, 0, "won", 600, level.finish.x);
+  const graceTicks = Math.round(RACE_FINISH_GRACE / FIXED_STEP);
+  race.tick = 600 + graceTicks - 1;
+  assert.equal(isRaceOver(race), false);
+  race.tick = 600 + graceTicks;
+  assert.equal(isRaceOver(race), true);
+});
+
+test("the race ends as soon as everyone is done, with or without a winner", () => {
+  const race = createRace(2);
+  settle(race, 0, "crashed", 200, 900);
+  race.tick = 5000;
+  // A crash doesn't start the grace period; only a finish does.
+  assert.equal(isRaceOver(race), false);
+  settle(race, 1, "crashed", 300, 1200);
+  assert.equal(isRaceOver(race), true);
+});
+
+test("only a racer's first outcome counts", () => {
+  const race = createRace(1);
+  settle(race, 0, "crashed", 200, 900);
+  race.racers[0].sim.tick = 260;
+  assert.equal(settleRacer(race.racers[0], "won"), false);
+  assert.equal(race.racers[0].outcome, "crashed");
+  assert.equal(race.racers[0].endTick, 200);
+});
+
+test("finishers place by time, then everyone else by how far they got", () => {
+  const race = createRace(4);
+  settle(race, 0, "crashed", 400, 1800);
+  settle(race, 1, "won", 700, level.finish.x);
+  settle(race, 2, "crashed", 150, 600);
+  settle(race, 3, "won", 640, level.finish.x);
+
+  const placements = racePlacements(race, level);
+  assert.deepEqual(
+    placements.map((standing) => standing.seat),
+    [3, 1, 0, 2],
+  );
+  assert.equal(placements[0].time, 640 * FIXED_STEP);
+  assert.equal(placements[2].time, null);
+  assert.ok(placements[2].progress > placements[3].progress);
+  assert.equal(winningGap(placements), (700 - 640) * FIXED_STEP);
+});
+
+test("a crash further along places ahead of a rider still going", () => {
+  const race = createRace(3);
+  settle(race, 0, "crashed", 400, 2000);
+  race.racers[1].sim.player.x = 1500;
+  settle(race, 2, "won", 800, level.finish.x);
+
+  const placements = racePlacements(race, level);
+  assert.deepEqual(
+    placements.map((standing) => [standing.seat, standing.outcome]),
+    [
+      [2, "won"],
+      [0, "crashed"],
+      [1, null],
+    ],
+  );
+  // Only one rider finished, so there is no margin to show.
+  assert.equal(winningGap(placements), null);
+});
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createGhost, simulateRun, stepGhost } from "../src/game/replay";
+import { bundledLevels } from "../src/levels";
+import { clearPogoGauntlet, holdRight, recordGameRun } from "./gameRun";
+
+test("a ghost of a won recording reaches the finish", () => {
+  const recording = recordGameRun(bundledLevels[0], "unicycle", clearPogoGauntlet);
+  assert.equal(recording?.outcome, "won");
+
+  const ghost = createGhost(bundledLevels[0], recording);
+  while (!ghost.finished) {
+    stepGhost(ghost);
+  }
+  assert.equal(ghost.outcome, "won");
+  assert.equal(ghost.sim.tick, recording.ticks);
+});
+
+test("replaying a recording ends on the tick it was saved with", () => {
+  for (const level of bundledLevels) {
+    const recording = recordGameRun(level, "unicycle", holdRight);
+    assert.ok(recording);
+    assert.deepEqual(simulateRun(level, recording, recording.ticks + 1), {
+      outcome: recording.outcome,
+      ticks: recording.ticks,
+    });
+  }
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+import { bundledLevels } from "../src/levels";
+import { clearPogoGauntlet, recordGameRun } from "./gameRun";
+
+let storeDir = "";
+let GET: (request: Request) => Promise<Response>;
+let POST: (request: Request) => Promise<Response>;
+
+before(async () => {
+  // The leaderboard picks its file when it is first imported.
+  storeDir = await mkdtemp(join(tmpdir(), "leaderboard-"));
+  process.env.LEADERBOARD_FILE = join(storeDir, "leaderboard.json");
+  ({ GET, POST } = await import("../src/app/api/scores/route"));
+});
+
+after(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+function submit(recording: unknown) {
+  return POST(
+    new Request("http://localhost/api/scores", {
+      method: "POST",
+      body: JSON.stringify({ name: "Tester", recording }),
+    }),
+  );
+}
+
+function board(query: string) {
+  return GET(new Request(`http://localhost/api/scores?${query}`));
+}
+
+test("accepts a winning run recorded the way the game records it", async () => {
+  const recording = recordGameRun(bundledLevels[0], "unicycle", clearPogoGauntlet);
+  assert.equal(recording?.outcome, "won");
+
+  const response = await submit(recording);
+  assert.equal(response.status, 201);
+  const { entry } = await response.json();
+  assert.equal(entry.ticks, recording.ticks);
+});
+
+test("rejects a run that claims a different tick count", async () => {
+  const recording = recordGameRun(bundledLevels[0], "unicycle", clearPogoGauntlet);
+  assert.ok(recording);
+
+  for (const ticks of [recording.ticks - 1, recording.ticks + 1]) {
+    const response = await submit({ ...recording, ticks });
+    assert.equal(response.status, 422);
+  }
+});
+
+test("keeps a board per vehicle", async () => {
+  const recording = recordGameRun(bundledLevels[0], "unicycle", clearPogoGauntlet);
+  assert.ok(recording);
+  const response = await submit(recording);
+  assert.equal(response.status, 201);
+  const { entry } = await response.json();
+  assert.equal(entry.vehicle, "unicycle");
+
+  const unicycle = await (await board(`levelId=${recording.levelId}&vehicle=unicycle`)).json();
+  assert.equal(unicycle.vehicle, "unicycle");
+  assert.ok(unicycle.scores.some((score: { id: string }) => score.id === entry.id));
+  assert.ok(unicycle.scores.every((score: { vehicle: string }) => score.vehicle === "unicycle"));
+
+  const pogo = await (await board(`levelId=${recording.levelId}`)).json();
+  assert.equal(pogo.vehicle, "pogo");
+  assert.deepEqual(pogo.scores, []);
+
+  assert.equal((await board(`levelId=${recording.levelId}&vehicle=tank`)).status, 400);
+});
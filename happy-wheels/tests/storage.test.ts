@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createSaveData, migrateSave, SAVE_VERSION } from "../src/game/storage";
+
+const crashedRun = {
+  levelId: "switchback-summit",
+  vehicle: "unicycle",
+  outcome: "crashed",
+  time: 4.2,
+  maxProgress: 38,
+  usedCheckpoints: false,
+  date: "2026-01-01T00:00:00.000Z",
+};
+
+test("clears crash reports from runs saved before they existed", () => {
+  const save = migrateSave({
+    version: 7,
+    history: [{ ...crashedRun, crash: { cause: "head", x: 900, y: 120 } }],
+  });
+  assert.equal(save.version, SAVE_VERSION);
+  assert.equal(save.history.length, 1);
+  assert.equal(save.history[0].crash, null);
+});
+
+test("keeps the crash report of a run saved with one", () => {
+  const crash = { cause: "head", x: 900, y: 120 };
+  const save = migrateSave({ version: SAVE_VERSION, history: [{ ...crashedRun, crash }] });
+  assert.deepEqual(save.history[0].crash, crash);
+});
+
+test("migrates a first-version save all the way forward", () => {
+  const save = migrateSave({
+    version: 1,
+    campaign: {
+      unlocked: 3,
+      bestTimes: { "pogo-gauntlet": 21.5, "spike-valley": 40.2 },
+      bestScores: { "pogo-gauntlet": 1200 },
+      checkpointBests: ["spike-valley"],
+    },
+    history: [{ ...crashedRun, vehicle: undefined }],
+  });
+  const fresh = createSaveData();
+  assert.deepEqual(save, {
+    ...fresh,
+    campaign: {
+      unlocked: 3,
+      records: {
+        ...fresh.campaign.records,
+        pogo: {
+          bestTimes: { "pogo-gauntlet": 21.5, "spike-valley": 40.2 },
+          bestScores: { "pogo-gauntlet": 1200 },
+          checkpointBests: ["spike-valley"],
+        },
+      },
+    },
+    history: [{ ...crashedRun, vehicle: "pogo", crash: null }],
+  });
+});
+
+test("starts over from storage that isn't a save", () => {
+  for (const raw of [null, "save", 42, [], {}, { version: "7" }, { version: Infinity }]) {
+    assert.deepEqual(migrateSave(raw), createSaveData(), JSON.stringify(raw));
+  }
+});
+
+test("ignores a save from a newer or unknown version rather than misreading it", () => {
+  for (const version of [SAVE_VERSION + 1, 0, 2.5]) {
+    assert.deepEqual(migrateSave({ version, playerName: "Ann" }), createSaveData(), `${version}`);
+  }
+});
+
+test("falls back to defaults for each malformed field of a current save", () => {
+  const save = migrateSave({
+    version: SAVE_VERSION,
+    campaign: {
+      unlocked: -2,
+      records: {
+        unicycle: {
+          bestTimes: { "pogo-gauntlet": -1, "spike-valley": 33 },
+          bestScores: { "spike-valley": "lots" },
+          checkpointBests: ["spike-valley", "toString", 7],
+        },
+      },
+    },
+    history: [{ ...crashedRun, outcome: "lost" }, "run", { ...crashedRun, crash: "spikes" }],
+    playerName: 7,
+    gamepadMapping: null,
+    particleQuality: "ultra",
+    vehicle: "tank",
+  });
+  const fresh = createSaveData();
+  assert.deepEqual(save, {
+    ...fresh,
+    campaign: {
+      unlocked: 1,
+      records: {
+        ...fresh.campaign.records,
+        unicycle: {
+          bestTimes: { "spike-valley": 33 },
+          bestScores: {},
+          checkpointBests: ["spike-valley"],
+        },
+      },
+    },
+    history: [{ ...crashedRun, crash: null }],
+  });
+});
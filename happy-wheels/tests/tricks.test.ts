@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { restoreCheckpoint, takeCheckpoint } from "../src/game/checkpoints";
+import { spikeBase } from "../src/game/hazards";
+import type { SpikeHazard } from "../src/game/level";
+import { createSimulation, normalizeAngle } from "../src/game/physics";
+import {
+  createTrickTracker,
+  takeTrickAwards,
+  updateTricks,
+  type TrickTracker,
+} from "../src/game/tricks";
+import { findLevel } from "../src/levels";
+
+function createRun() {
+  const level = findLevel("spike-valley");
+  assert.ok(level);
+  return {
+    ...createSimulation(level, { handleWin: () => {}, handleCrash: () => {} }, "unicycle"),
+    tricks: createTrickTracker(),
+  };
+}
+
+type Run = ReturnType<typeof createRun>;
+
+/** Moves the rider as `move` says and scores the tick, like the page does after a step. */
+function tick(run: Run, onGround: boolean, move: (run: Run) => void = () => {}) {
+  Object.assign(run.previousPlayer, run.player);
+  move(run);
+  run.onGround = onGround;
+  updateTricks(run.tricks, run);
+}
+
+/** A jump of `ticks` in the air turning `turns` times (negative is backwards). */
+function jump(run: Run, ticks: number, turns: number, landingTilt = 0) {
+  for (let i = 0; i < ticks; i += 1) {
+    tick(run, false, ({ player }) => {
+      player.angle = normalizeAngle(player.angle + (turns * Math.PI * 2) / ticks);
+    });
+  }
+  tick(run, true, ({ player }) => {
+    player.angle = landingTilt;
+  });
+}
+
+function labels(tracker: TrickTracker) {
+  return takeTrickAwards(tracker).map((award) => `${award.label}: ${award.points}`);
+}
+
+test("scores a flip with a clean landing", () => {
+  const run = createRun();
+  jump(run, 50, 1);
+  assert.deepEqual(labels(run.tricks), ["Frontflip: 500", "Clean Landing: 100"]);
+  assert.equal(run.tricks.score, 600);
+});
+
+test("names flips by direction and counts turns that stop a little short", () => {
+  const run = createRun();
+  jump(run, 80, -1.95, 0.5);
+  assert.deepEqual(labels(run.tricks), ["Double Backflip: 2000", "Big Air 1.3s: 267"]);
+});
+
+test("short hops and jumps without a trick score nothing", () => {
+  const run = createRun();
+  jump(run, 15, 1);
+  jump(run, 40, 0);
+  assert.deepEqual(labels(run.tricks), []);
+  assert.equal(run.tricks.score, 0);
+  assert.equal(run.tricks.combo, 0);
+});
+
+test("tricks landed back to back build a combo that lingering on the ground ends", () => {
+  const run = createRun();
+  jump(run, 50, 1);
+  tick(run, true);
+  jump(run, 50, 1);
+  assert.deepEqual(labels(run.tricks), [
+    "Frontflip: 500",
+    "Clean Landing: 100",
+    "Frontflip ×1.5: 750",
+    "Clean Landing ×1.5: 150",
+  ]);
+
+  for (let i = 0; i < 60; i += 1) {
+    tick(run, true);
+  }
+  jump(run, 50, 1);
+  assert.deepEqual(labels(run.tricks), ["Frontflip: 500", "Clean Landing: 100"]);
+});
+
+test("a sloppy landing scores the trick but breaks the combo", () => {
+  const run = createRun();
+  jump(run, 50, 1, 0.9);
+  assert.deepEqual(labels(run.tricks), ["Frontflip: 500"]);
+  assert.equal(run.tricks.combo, 0);
+});
+
+/** Carries the rider across `field` with the foot `clearance` above its tips. */
+function crossSpikes(run: Run, field: SpikeHazard, clearance: number) {
+  const tips = spikeBase(run.level, field) - field.height;
+  for (let x = field.x - 20; x <= field.x + field.width + 20; x += 10) {
+    tick(run, false, ({ player }) => {
+      player.x = x;
+      player.angle = 0;
+      player.y = tips - clearance - player.legLength;
+    });
+  }
+}
+
+function firstSpikes(run: Run) {
+  const field = run.level.hazards.find(
+    (hazard): hazard is SpikeHazard => hazard.type === "spikes",
+  );
+  assert.ok(field);
+  return field;
+}
+
+test("skimming a spike field is a near miss, once per field", () => {
+  const run = createRun();
+  const field = firstSpikes(run);
+  crossSpikes(run, field, 30);
+  assert.deepEqual(labels(run.tricks), ["Near Miss: 150"]);
+  crossSpikes(run, field, 30);
+  assert.deepEqual(labels(run.tricks), []);
+});
+
+test("clearing spikes by a wide margin is no near miss", () => {
+  const run = createRun();
+  crossSpikes(run, firstSpikes(run), 120);
+  assert.deepEqual(labels(run.tricks), []);
+});
+
+test("respawning at a checkpoint takes back what was scored after it", () => {
+  const run = createRun();
+  jump(run, 50, 1);
+  const snapshot = takeCheckpoint(run, 0);
+  jump(run, 50, 1);
+  crossSpikes(run, firstSpikes(run), 30);
+  assert.ok(run.tricks.score > 600);
+
+  restoreCheckpoint(run, snapshot);
+  assert.equal(run.tricks.score, 600);
+  assert.deepEqual(run.tricks.clearedSpikes, []);
+  assert.deepEqual(takeTrickAwards(run.tricks), []);
+  // The field can be scored again on the second attempt.
+  crossSpikes(run, firstSpikes(run), 30);
+  assert.equal(run.tricks.score, 750);
+});
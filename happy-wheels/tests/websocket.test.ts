@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import type { IncomingMessage } from "node:http";
+import { Duplex } from "node:stream";
+import { test } from "node:test";
+import { acceptWebSocket } from "../src/server/websocket";
+
+/** A socket that keeps what the server writes, after the 101 handshake. */
+function connect() {
+  const written: Buffer[] = [];
+  const messages: string[] = [];
+  const socket = new Duplex({
+    read() {},
+    write(chunk: Buffer, _encoding, callback) {
+      written.push(chunk);
+      callback();
+    },
+  });
+  const request = {
+    headers: { upgrade: "websocket", "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==" },
+  } as unknown as IncomingMessage;
+  const connection = acceptWebSocket(request, socket, () => ({
+    onMessage: (text) => messages.push(text),
+    onClose: () => {},
+  }));
+  assert.ok(connection);
+  written.length = 0;
+  return { socket, connection, written, messages };
+}
+
+/** A masked client frame, as browsers send them. */
+function frame(opcode: number, text: string, fin = true) {
+  const payload = Buffer.from(text, "utf8");
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const masked = payload.map((byte, i) => byte ^ mask[i % 4]);
+  return Buffer.concat([
+    Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | payload.length]),
+    mask,
+    masked,
+  ]);
+}
+
+/** The close code in a close frame the server wrote. */
+function closeCode(written: Buffer) {
+  assert.equal(written[0], 0x88);
+  assert.equal(written[1], 2);
+  return written.readUInt16BE(2);
+}
+
+test("joins fragments of a text message", () => {
+  const { socket, messages } = connect();
+  socket.emit("data", Buffer.concat([frame(0x1, "hel", false), frame(0x9, "")]));
+  socket.emit("data", frame(0x0, "lo"));
+  assert.deepEqual(messages, ["hello"]);
+});
+
+test("refuses binary messages with close code 1003", () => {
+  const { socket, written, messages } = connect();
+  socket.emit("data", Buffer.concat([frame(0x2, "data"), frame(0x1, "after")]));
+  assert.deepEqual(messages, []);
+  assert.equal(written.length, 1);
+  assert.equal(closeCode(written[0]), 1003);
+});
+
+test("closes on a continuation with no message to continue", () => {
+  const { socket, written, messages } = connect();
+  socket.emit("data", frame(0x0, "stray"));
+  assert.deepEqual(messages, []);
+  assert.equal(closeCode(written[0]), 1002);
+});
+
+test("closes on a new message before the last one has finished", () => {
+  const { socket, written, messages } = connect();
+  socket.emit("data", Buffer.concat([frame(0x1, "one", false), frame(0x1, "two")]));
+  assert.deepEqual(messages, []);
+  assert.equal(closeCode(written[0]), 1002);
+});
+
+test("writes nothing once the close has been sent", () => {
+  const { socket, connection, written } = connect();
+  connection.close();
+  connection.send("late");
+  connection.close();
+  socket.emit("data", frame(0x9, "ping"));
+  assert.equal(written.length, 1);
+  assert.equal(closeCode(written[0]), 1000);
+});